@@ -1,16 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import YahooFinance from "yahoo-finance2";
 import {
   FundamentalsTimeSeriesModule,
   FundamentalsTimeSeriesType,
   Timeframe,
 } from "../../lib/types";
-import { rangeToPeriod1 } from "@/app/lib/utils";
+import { fetchFundamentalsTimeSeries } from "@/app/api/utils/marketData";
 
 export const runtime = "nodejs";
 
-const yf = new YahooFinance();
-
 export async function POST(request: NextRequest) {
   let body: {
     symbol: string;
@@ -45,11 +42,12 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const result = await yf.fundamentalsTimeSeries(symbol, {
+    const result = await fetchFundamentalsTimeSeries(
+      symbol,
       module,
-      period1: rangeToPeriod1(range as Timeframe),
+      range as Timeframe,
       type,
-    });
+    );
 
     return NextResponse.json(result);
   } catch (err: unknown) {
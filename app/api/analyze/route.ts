@@ -1,20 +1,107 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-export const maxDuration = 60;
+import { normalizeBaseUrl } from '@/app/api/utils/api-helpers';
+import {
+  ANALYST_TOOLS,
+  TOOL_INSTRUCTIONS,
+  executeTool,
+  type ToolDefinition,
+} from '@/app/api/utils/analystTools';
+import { customBaseUrlError, customEndpointFetch } from '@/app/api/utils/customEndpoint';
+import {
+  KeyVaultError,
+  isKeyVaultEnabled,
+  resolveCustomBaseUrl,
+  resolveProviderKey,
+} from '@/app/api/utils/keyVault';
+import {
+  STRUCTURED_OUTPUT_INSTRUCTIONS,
+  createSignalsExtractor,
+} from '@/app/lib/structuredSignals';
+import {
+  STREAM_CONTENT_TYPE,
+  encodeEvent,
+  normalizeFinishReason,
+  type StreamEvent,
+} from '@/app/lib/streamProtocol';
+import { addUsage } from '@/app/lib/tokenEstimator';
+import type { FinishReason, TokenUsage } from '@/app/lib/types';
+import {
+  backoffDelay,
+  isRetryableStatus,
+  normalizeRetryConfig,
+  type RetryConfig,
+} from '@/app/lib/reliability';
+
+export const runtime = 'nodejs';
+// Tool rounds add data fetches and extra model calls
+export const maxDuration = 120;
+
+// Model responses that may call tools before the final, tool-free answer
+const MAX_TOOL_ROUNDS = 4;
+
+// Retries and fallbacks must all start within this window, leaving the rest of
+// maxDuration for the answer
+const RETRY_WINDOW_MS = 45_000;
+
+// Chart snapshots; providers cap images at around 5MB
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_IMAGES_PER_MESSAGE = 4;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+/** A base64 image decoded from a client data: URL */
+interface InlineImage {
+  mimeType: string;
+  data: string;
+}
 
 interface ChatMsg {
   role: string;
   content: string;
+  images?: InlineImage[];
 }
 
-interface AnalyzeBody {
+/** A provider + model to stream from (the primary, or one step of the fallback chain) */
+interface ModelTarget {
   provider: string;
   model: string;
   apiKey: string;
+  baseUrl?: string;
+  tools?: boolean;  // Offer data tools (for models that support function calling)
+  vision?: boolean;  // Send message images (for models that accept them)
+}
+
+interface AnalyzeBody extends ModelTarget {
   systemPrompt: string;
-  messages: ChatMsg[];
+  messages: { role: string; content: string; images?: unknown }[];  // images: data: URLs
+  structured?: boolean;
+  retry?: Partial<RetryConfig>;
+  fallbacks?: ModelTarget[];
+}
+
+type Emit = (text: string) => void;
+type OnUsage = (usage: Partial<TokenUsage>) => void;
+type OnFinish = (reason: FinishReason) => void;
+
+/** Per-request plumbing shared by every provider adapter */
+interface StreamContext {
+  emit: Emit;
+  onUsage: OnUsage;
+  onFinish: OnFinish;
+  retry: RetryConfig;
+  retryDeadline: number;  // Epoch ms after which this model's requests are not retried
+  signal: AbortSignal;  // Aborted when the client disconnects or cancels the stream
+  tools: ToolDefinition[] | null;
+  onToolCall: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+  onRoundEnd: () => void;  // A response finished; usage reported so far is final for it
 }
 
+// fetch, or customEndpointFetch for a client-supplied custom base URL
+type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+type StreamFn = (
+  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], ctx: StreamContext
+) => Promise<void>;
+
 // --- Helpers ---
 
 function errorResponse(message: string, status: number) {
@@ -29,13 +116,72 @@ function handleUpstreamError(provider: string, status: number): string {
   return `${provider} API error: ${status}`;
 }
 
+/** Upstream failure before any text was streamed; `retryable` drives the fallback chain. */
+class UpstreamError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.retryable = status === 0 || isRetryableStatus(status);
+  }
+}
+
+async function throwUpstreamError(provider: string, res: Response): Promise<never> {
+  const errData = await res.json().catch(() => ({}));
+  throw new UpstreamError(
+    (errData as { error?: { message?: string } }).error?.message || handleUpstreamError(provider, res.status),
+    res.status
+  );
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * fetch with exponential backoff on throttling, server errors and network failures.
+ * Gives up early when the next attempt would start after `retryDeadline`.
+ */
+async function fetchWithRetry(
+  url: string, init: RequestInit,
+  { retry, retryDeadline, signal }: Pick<StreamContext, 'retry' | 'retryDeadline' | 'signal'>,
+  fetchFn: FetchFn = fetch
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response | null = null;
+    let networkError: unknown = null;
+    try {
+      res = await fetchFn(url, { ...init, signal });
+    } catch (err: unknown) {
+      // A cancelled request is not a network failure
+      if (signal.aborted) throw err;
+      networkError = err;
+    }
+    if (res && (res.ok || !isRetryableStatus(res.status))) return res;
+
+    const delay = backoffDelay(attempt, retry.baseDelayMs, res?.headers.get('retry-after'));
+    if (attempt >= retry.maxRetries || Date.now() + delay > retryDeadline) {
+      if (res) return res;
+      throw new UpstreamError(networkError instanceof Error ? networkError.message : 'Network error', 0);
+    }
+    await res?.body?.cancel();
+    await sleep(delay, signal);
+  }
+}
+
 const encoder = new TextEncoder();
 
-/** Parse an SSE stream, extract text deltas via extractText, and write them to the controller. */
+/** Parse an SSE stream and hand each JSON event to handleEvent (text deltas, usage, ...). */
 async function pipeSSEStream(
   upstream: Response,
-  extractText: (parsed: Record<string, unknown>) => string | null,
-  controller: ReadableStreamDefaultController
+  handleEvent: (parsed: Record<string, unknown>) => void
 ) {
   const reader = upstream.body!.getReader();
   const decoder = new TextDecoder();
@@ -56,15 +202,14 @@ async function pipeSSEStream(
         const dataStr = trimmed.slice(5).trim();
         if (dataStr === '[DONE]') continue;
 
+        let parsed: Record<string, unknown>;
         try {
-          const data = JSON.parse(dataStr);
-          const text = extractText(data);
-          if (text) {
-            controller.enqueue(encoder.encode(text));
-          }
+          parsed = JSON.parse(dataStr);
         } catch {
-          // skip unparseable lines
+          continue;  // skip unparseable lines
         }
+        // Errors raised by the handler (e.g. mid-stream provider errors) propagate
+        handleEvent(parsed);
       }
     }
   } finally {
@@ -72,124 +217,315 @@ async function pipeSSEStream(
   }
 }
 
+/** Decode the data: URLs a client attached to a message; anything else is dropped */
+function parseImages(images: unknown): InlineImage[] {
+  if (!Array.isArray(images)) return [];
+  return images
+    .flatMap((url) => {
+      const match = typeof url === 'string' ? /^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/.exec(url) : null;
+      if (!match || !IMAGE_MIME_TYPES.includes(match[1]) || match[2].length * 0.75 > MAX_IMAGE_BYTES) return [];
+      return [{ mimeType: match[1], data: match[2] }];
+    })
+    .slice(0, MAX_IMAGES_PER_MESSAGE);
+}
+
+/** Tool arguments arrive as a JSON string on OpenAI-compatible and Anthropic streams */
+function parseToolArgs(json: string): Record<string, unknown> {
+  try {
+    const args = JSON.parse(json || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
+
 // --- Provider streaming requests ---
+//
+// With tools enabled each adapter loops: stream a response, and if the model
+// asked for tools, run them, append the call and its results to the
+// conversation and stream again. The last round forbids tool calls so the
+// model always ends with a written analysis.
 
 async function streamGemini(
-  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], controller: ReadableStreamDefaultController
+  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], ctx: StreamContext
 ) {
   const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
-  const contents = messages.map((m) => ({
+  const contents: Record<string, unknown>[] = messages.map((m) => ({
     role: m.role === 'assistant' ? 'model' : 'user',
-    parts: [{ text: m.content }],
+    parts: [
+      ...(m.images ?? []).map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })),
+      { text: m.content },
+    ],
   }));
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      systemInstruction: { parts: [{ text: systemPrompt }] },
-      contents,
-      generationConfig: { temperature: 0.7, maxOutputTokens: 4096 },
-    }),
-  });
-
-  if (!res.ok) throw new Error(handleUpstreamError('Gemini', res.status));
-
-  await pipeSSEStream(res, (data) => {
-    const parts = (data as { candidates?: { content?: { parts?: { text?: string }[] } }[] })
-      .candidates?.[0]?.content?.parts;
-    return parts?.[0]?.text || null;
-  }, controller);
+  const tools = ctx.tools
+    ? [{ functionDeclarations: ctx.tools.map(({ name, description, parameters }) => ({ name, description, parameters })) }]
+    : null;
+
+  for (let round = 0; ; round++) {
+    const res = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents,
+        generationConfig: { temperature: 0.7, maxOutputTokens: 4096 },
+        ...(tools && {
+          tools,
+          toolConfig: { functionCallingConfig: { mode: round < MAX_TOOL_ROUNDS ? 'AUTO' : 'NONE' } },
+        }),
+      }),
+    }, ctx);
+
+    if (!res.ok) throw new UpstreamError(handleUpstreamError('Gemini', res.status), res.status);
+
+    // Model parts are sent back verbatim so thought signatures survive the round trip
+    const modelParts: Record<string, unknown>[] = [];
+    const calls: { name: string; args: Record<string, unknown> }[] = [];
+    await pipeSSEStream(res, (data) => {
+      type Part = { text?: string; functionCall?: { name: string; args?: Record<string, unknown> } };
+      const candidate = (data as { candidates?: { content?: { parts?: Part[] }; finishReason?: string }[] })
+        .candidates?.[0];
+      for (const part of candidate?.content?.parts ?? []) {
+        modelParts.push(part);
+        if (part.text) ctx.emit(part.text);
+        if (part.functionCall) calls.push({ name: part.functionCall.name, args: part.functionCall.args ?? {} });
+      }
+      if (candidate?.finishReason) ctx.onFinish(normalizeFinishReason(candidate.finishReason));
+
+      // usageMetadata is cumulative; every chunk carries the running totals
+      const usage = (data as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } })
+        .usageMetadata;
+      if (usage) ctx.onUsage({ inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount });
+    });
+    ctx.onRoundEnd();
+
+    if (calls.length === 0) return;
+    contents.push({ role: 'model', parts: modelParts });
+    const results = await Promise.all(calls.map((call) => ctx.onToolCall(call.name, call.args)));
+    contents.push({
+      role: 'user',
+      parts: calls.map((call, i) => ({ functionResponse: { name: call.name, response: { content: results[i] } } })),
+    });
+  }
 }
 
-async function streamOpenAI(
-  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], controller: ReadableStreamDefaultController
+/** Stream from any OpenAI-compatible chat completions endpoint (OpenAI, OpenRouter, self-hosted). */
+async function streamOpenAICompatible(
+  name: string, baseUrl: string, fetchFn: FetchFn,
+  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], ctx: StreamContext
 ) {
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [{ role: 'system', content: systemPrompt }, ...messages],
-      temperature: 0.7,
-      max_tokens: 4096,
-      stream: true,
-    }),
-  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Self-hosted servers often run without auth
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const conversation: Record<string, unknown>[] = [
+    { role: 'system', content: systemPrompt },
+    ...messages.map((m) => ({
+      role: m.role,
+      content: m.images?.length
+        ? [
+          { type: 'text', text: m.content },
+          ...m.images.map(({ mimeType, data }) => ({
+            type: 'image_url',
+            image_url: { url: `data:${mimeType};base64,${data}` },
+          })),
+        ]
+        : m.content,
+    })),
+  ];
+  const tools = ctx.tools?.map(({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters },
+  }));
 
-  if (!res.ok) {
-    const errData = await res.json().catch(() => ({}));
-    throw new Error((errData as { error?: { message?: string } }).error?.message || handleUpstreamError('OpenAI', res.status));
+  for (let round = 0; ; round++) {
+    const res = await fetchWithRetry(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: conversation,
+        temperature: 0.7,
+        max_tokens: 4096,
+        stream: true,
+        // Final chunk reports token usage (ignored by servers that don't support it)
+        stream_options: { include_usage: true },
+        ...(tools && { tools, tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none' }),
+      }),
+    }, ctx, fetchFn);
+
+    if (!res.ok) await throwUpstreamError(name, res);
+
+    // Tool calls stream in fragments keyed by index: id and name first, then argument chunks
+    let text = '';
+    const calls: { id: string; name: string; arguments: string }[] = [];
+    await pipeSSEStream(res, (data) => {
+      type ToolCallDelta = { index?: number; id?: string; function?: { name?: string; arguments?: string } };
+      const choice = (data as {
+        choices?: { delta?: { content?: string; tool_calls?: ToolCallDelta[] }; finish_reason?: string | null }[];
+      }).choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        ctx.emit(delta);
+      }
+      for (const tc of choice?.delta?.tool_calls ?? []) {
+        const call = (calls[tc.index ?? 0] ??= { id: '', name: '', arguments: '' });
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.arguments += tc.function.arguments;
+      }
+      if (choice?.finish_reason) ctx.onFinish(normalizeFinishReason(choice.finish_reason));
+
+      const usage = (data as { usage?: { prompt_tokens?: number; completion_tokens?: number } | null }).usage;
+      if (usage) ctx.onUsage({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+    });
+    ctx.onRoundEnd();
+
+    const requested = calls.filter((call) => call?.name);
+    if (requested.length === 0) return;
+    conversation.push({
+      role: 'assistant',
+      content: text || null,
+      tool_calls: requested.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    });
+    for (const call of requested) {
+      const result = await ctx.onToolCall(call.name, parseToolArgs(call.arguments));
+      conversation.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+    }
   }
-
-  await pipeSSEStream(res, (data) => {
-    return (data as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content || null;
-  }, controller);
 }
 
 async function streamAnthropic(
-  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], controller: ReadableStreamDefaultController
+  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], ctx: StreamContext
 ) {
-  const res = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      system: systemPrompt,
-      max_tokens: 4096,
-      messages,
-      stream: true,
-    }),
-  });
-
-  if (!res.ok) {
-    const errData = await res.json().catch(() => ({}));
-    throw new Error((errData as { error?: { message?: string } }).error?.message || handleUpstreamError('Anthropic', res.status));
-  }
-
-  await pipeSSEStream(res, (data) => {
-    if ((data as { type?: string }).type === 'content_block_delta') {
-      return (data as { delta?: { text?: string } }).delta?.text || null;
+  const conversation: { role: string; content: unknown }[] = messages.map((m) => ({
+    role: m.role,
+    content: m.images?.length
+      ? [
+        ...m.images.map(({ mimeType, data }) => ({
+          type: 'image',
+          source: { type: 'base64', media_type: mimeType, data },
+        })),
+        { type: 'text', text: m.content },
+      ]
+      : m.content,
+  }));
+  const tools = ctx.tools?.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters }));
+
+  for (let round = 0; ; round++) {
+    const res = await fetchWithRetry('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model,
+        system: systemPrompt,
+        max_tokens: 4096,
+        messages: conversation,
+        stream: true,
+        ...(tools && { tools, tool_choice: { type: round < MAX_TOOL_ROUNDS ? 'auto' : 'none' } }),
+      }),
+    }, ctx);
+
+    if (!res.ok) await throwUpstreamError('Anthropic', res);
+
+    // Content blocks by index; tool_use input streams as partial JSON
+    const blocks: ({ type: 'text'; text: string } | { type: 'tool_use'; id: string; name: string; json: string })[] = [];
+    await pipeSSEStream(res, (data) => {
+      const type = (data as { type?: string }).type;
+      if (type === 'content_block_start') {
+        const { index, content_block: block } = data as {
+          index: number; content_block?: { type?: string; id?: string; name?: string };
+        };
+        if (block?.type === 'tool_use') blocks[index] = { type: 'tool_use', id: block.id ?? '', name: block.name ?? '', json: '' };
+        else if (block?.type === 'text') blocks[index] = { type: 'text', text: '' };
+      } else if (type === 'content_block_delta') {
+        const { index, delta } = data as { index: number; delta?: { text?: string; partial_json?: string } };
+        const block = blocks[index];
+        if (delta?.text) {
+          if (block?.type === 'text') block.text += delta.text;
+          ctx.emit(delta.text);
+        } else if (delta?.partial_json && block?.type === 'tool_use') {
+          block.json += delta.partial_json;
+        }
+      } else if (type === 'message_start') {
+        // Input tokens are reported up front, output tokens in the closing message_delta
+        const usage = (data as { message?: { usage?: { input_tokens?: number } } }).message?.usage;
+        if (usage) ctx.onUsage({ inputTokens: usage.input_tokens });
+      } else if (type === 'message_delta') {
+        const { usage, delta } = data as { usage?: { output_tokens?: number }; delta?: { stop_reason?: string | null } };
+        if (usage) ctx.onUsage({ outputTokens: usage.output_tokens });
+        if (delta?.stop_reason) ctx.onFinish(normalizeFinishReason(delta.stop_reason));
+      } else if (type === 'error') {
+        // Overloaded/internal errors can arrive mid-stream as an SSE event
+        const message = (data as { error?: { message?: string } }).error?.message;
+        throw new Error(message || 'Anthropic stream error');
+      }
+    });
+    ctx.onRoundEnd();
+
+    const toolUses = blocks.filter((b): b is Extract<typeof b, { type: 'tool_use' }> => b?.type === 'tool_use');
+    if (toolUses.length === 0) return;
+    conversation.push({
+      role: 'assistant',
+      // The API rejects empty text blocks
+      content: blocks
+        .filter((b) => b && (b.type === 'tool_use' || b.text))
+        .map((b) => b.type === 'text'
+          ? { type: 'text', text: b.text }
+          : { type: 'tool_use', id: b.id, name: b.name, input: parseToolArgs(b.json) }),
+    });
+    const results = [];
+    for (const use of toolUses) {
+      const result = await ctx.onToolCall(use.name, parseToolArgs(use.json));
+      results.push({ type: 'tool_result', tool_use_id: use.id, content: JSON.stringify(result) });
     }
-    return null;
-  }, controller);
+    conversation.push({ role: 'user', content: results });
+  }
 }
 
-async function streamOpenRouter(
-  model: string, apiKey: string, systemPrompt: string, messages: ChatMsg[], controller: ReadableStreamDefaultController
-) {
-  const res = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [{ role: 'system', content: systemPrompt }, ...messages],
-      temperature: 0.7,
-      max_tokens: 4096,
-      stream: true,
-    }),
-  });
+// --- Main handler ---
 
-  if (!res.ok) {
-    const errData = await res.json().catch(() => ({}));
-    throw new Error((errData as { error?: { message?: string } }).error?.message || handleUpstreamError('OpenRouter', res.status));
+/** Resolve a target to its stream function, or null if it is not usable. */
+function resolveStreamFn(target: ModelTarget): StreamFn | null {
+  // Self-hosted models may run without an API key
+  if (!target?.provider || !target.model || (target.provider !== 'custom' && !target.apiKey)) return null;
+
+  switch (target.provider) {
+    case 'gemini':
+      return streamGemini;
+    case 'openai':
+      return (...args) => streamOpenAICompatible('OpenAI', 'https://api.openai.com/v1', fetch, ...args);
+    case 'anthropic':
+      return streamAnthropic;
+    case 'openrouter':
+      return (...args) => streamOpenAICompatible('OpenRouter', 'https://openrouter.ai/api/v1', fetch, ...args);
+    case 'custom': {
+      const baseUrl = normalizeBaseUrl(target.baseUrl);
+      if (!baseUrl) return null;
+      return (...args) => streamOpenAICompatible('Custom model', baseUrl, customEndpointFetch, ...args);
+    }
+    default:
+      return null;
   }
-
-  await pipeSSEStream(res, (data) => {
-    return (data as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content || null;
-  }, controller);
 }
 
-// --- Main handler ---
+/** Swap in server-held credentials when the key vault is enabled */
+function withCredentials(target: ModelTarget): ModelTarget {
+  return {
+    ...target,
+    apiKey: resolveProviderKey(target.provider, target.apiKey),
+    baseUrl: target.provider === 'custom' ? resolveCustomBaseUrl(target.baseUrl) : undefined,
+  };
+}
 
 export async function POST(request: NextRequest) {
   let body: AnalyzeBody;
@@ -199,38 +535,177 @@ export async function POST(request: NextRequest) {
     return errorResponse('Invalid request body', 400);
   }
 
-  const { provider, model, apiKey, systemPrompt, messages } = body;
+  const { provider, model, systemPrompt, messages, structured } = body;
+  const tools = body.tools === true;
+  const vision = body.vision === true;
 
-  if (!provider || !model || !apiKey || !systemPrompt || !messages?.length) {
+  if (!provider || !model || !systemPrompt || !messages?.length) {
     return errorResponse('Missing required fields', 400);
   }
 
-  const streamFn = {
-    gemini: streamGemini,
-    openai: streamOpenAI,
-    anthropic: streamAnthropic,
-    openrouter: streamOpenRouter,
-  }[provider];
+  let primary: ModelTarget;
+  let fallbacks: ModelTarget[];
+  try {
+    primary = withCredentials({ ...body, tools, vision });
+    fallbacks = (Array.isArray(body.fallbacks) ? body.fallbacks : []).map((fallback) => withCredentials({
+      ...fallback,
+      tools: tools && fallback.tools !== false,
+      vision: vision && fallback.vision === true,
+    }));
+  } catch (err: unknown) {
+    if (err instanceof KeyVaultError) return errorResponse(err.message, err.status);
+    throw err;
+  }
+
+  if (provider !== 'custom' && !primary.apiKey) {
+    return errorResponse(
+      isKeyVaultEnabled() ? `No API key for ${provider} is configured on the server` : 'Missing required fields',
+      400
+    );
+  }
+
+  const primaryBaseUrl = provider === 'custom' ? normalizeBaseUrl(primary.baseUrl) : null;
+  if (provider === 'custom' && !primaryBaseUrl) {
+    return errorResponse('A valid http(s) base URL is required for custom models', 400);
+  }
+  if (primaryBaseUrl) {
+    const error = await customBaseUrlError(primaryBaseUrl);
+    if (error) return errorResponse(error, 400);
+  }
 
-  if (!streamFn) {
+  const primaryFn = resolveStreamFn(primary);
+  if (!primaryFn) {
     return errorResponse(`Unknown provider: ${provider}`, 400);
   }
 
+  // Primary model first, then any usable fallbacks in the order given
+  const chain: Array<{ target: ModelTarget; streamFn: StreamFn }> = [{ target: primary, streamFn: primaryFn }];
+  for (const fallback of fallbacks) {
+    const streamFn = resolveStreamFn(fallback);
+    if (!streamFn) continue;
+    // Custom fallbacks whose URL the server won't call are skipped like unusable ones
+    const baseUrl = fallback.provider === 'custom' ? normalizeBaseUrl(fallback.baseUrl) : null;
+    if (baseUrl && await customBaseUrlError(baseUrl)) continue;
+    chain.push({ target: fallback, streamFn });
+  }
+
+  const retry = normalizeRetryConfig(body.retry);
+
+  // In structured mode the signals block is stripped from the prose and
+  // re-emitted, validated, as a separate `signals` event.
+  const basePrompt = structured ? systemPrompt + STRUCTURED_OUTPUT_INSTRUCTIONS : systemPrompt;
+  const promptFor = (target: ModelTarget) => (target.tools ? basePrompt + TOOL_INSTRUCTIONS : basePrompt);
+
+  // Images only go to models that can read them; the text alone still stands
+  const chatMessages: ChatMsg[] = messages.map((m) => ({
+    role: m.role,
+    content: m.content,
+    images: parseImages(m.images),
+  }));
+  const textMessages: ChatMsg[] = chatMessages.map(({ role, content }) => ({ role, content }));
+  const messagesFor = (target: ModelTarget) => (target.vision ? chatMessages : textMessages);
+
+  // Abort the upstream provider request when the client disconnects or cancels
+  const upstreamAbort = new AbortController();
+  request.signal.addEventListener('abort', () => upstreamAbort.abort(), { once: true });
+
   const stream = new ReadableStream({
     async start(controller) {
+      const send = (event: StreamEvent) => controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      let current: ModelTarget = primary;
+      let started = false;
+      // Announce which model is answering before its first text delta or tool call
+      const begin = () => {
+        if (!started) send({ type: 'model', provider: current.provider, model: current.model });
+        started = true;
+      };
+      const emit: Emit = (text) => {
+        begin();
+        send({ type: 'text', text });
+      };
+      const extractor = structured ? createSignalsExtractor(emit) : null;
+      // Usage of completed tool rounds, plus the round in progress
+      let settledUsage: TokenUsage | null = null;
+      let roundUsage: TokenUsage | null = null;
+      const totalUsage = () => addUsage(settledUsage, roundUsage);
+      let finishReason: FinishReason = 'unknown';
+      const onUsage: OnUsage = (reported) => {
+        roundUsage = {
+          inputTokens: reported.inputTokens ?? roundUsage?.inputTokens ?? 0,
+          outputTokens: reported.outputTokens ?? roundUsage?.outputTokens ?? 0,
+        };
+      };
+      const ctx: StreamContext = {
+        emit: extractor ? extractor.push : emit,
+        onUsage,
+        onFinish: (reason) => { finishReason = reason; },
+        retry,
+        retryDeadline: 0,
+        signal: upstreamAbort.signal,
+        tools: null,
+        onToolCall: async (name, args) => {
+          begin();
+          const { ok, result } = await executeTool(name, args);
+          send({ type: 'tool', name, args, ok });
+          return result;
+        },
+        onRoundEnd: () => {
+          settledUsage = totalUsage();
+          roundUsage = null;
+        },
+      };
+
       try {
-        await streamFn(model, apiKey, systemPrompt, messages, controller);
+        const deadline = Date.now() + RETRY_WINDOW_MS;
+        for (let i = 0; i < chain.length; i++) {
+          const { target, streamFn } = chain[i];
+          current = target;
+          try {
+            const tools = target.tools ? ANALYST_TOOLS : null;
+            // Each model retries within its share of the time left, so the ones after it still get a turn
+            const retryDeadline = Date.now() + Math.max(0, deadline - Date.now()) / (chain.length - i);
+            await streamFn(
+              target.model, target.apiKey ?? '', promptFor(target), messagesFor(target), { ...ctx, tools, retryDeadline }
+            );
+            break;
+          } catch (err: unknown) {
+            // Fall back only on throttling/outages that happened before any output was sent, while there is time
+            const canFallBack = !started && !upstreamAbort.signal.aborted
+              && err instanceof UpstreamError && err.retryable && Date.now() < deadline;
+            if (!canFallBack || i === chain.length - 1) throw err;
+          }
+        }
+
+        const signals = extractor ? extractor.finish() : null;
+        if (!started) send({ type: 'model', provider: current.provider, model: current.model });
+        if (structured) send({ type: 'signals', signals });
+        const usage = totalUsage();
+        if (usage) send({ type: 'usage', usage });
+        send({ type: 'finish', reason: finishReason });
       } catch (err: unknown) {
+        // Nobody is listening any more once the client has gone away
+        if (upstreamAbort.signal.aborted) return;
         const message = err instanceof Error ? err.message : 'Analysis failed';
-        controller.enqueue(encoder.encode(`__ERROR__:${message}`));
+        // Report what was consumed before the failure, then the error itself
+        const usage = totalUsage();
+        if (usage) send({ type: 'usage', usage });
+        send({ type: 'error', message });
+      } finally {
+        // Closed on every path; a stream the client cancelled refuses it, which is fine
+        try {
+          controller.close();
+        } catch { /* already cancelled */ }
       }
-      controller.close();
+    },
+    cancel() {
+      upstreamAbort.abort();
     },
   });
 
   return new Response(stream, {
     headers: {
-      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Type': STREAM_CONTENT_TYPE,
       'Cache-Control': 'no-cache',
     },
   });
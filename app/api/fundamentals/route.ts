@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import YahooFinance from "yahoo-finance2";
+import { KeyVaultError, resolveFmpKey } from "@/app/api/utils/keyVault";
 
 export const runtime = "nodejs";
 
@@ -258,7 +259,17 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { symbol, apiKey } = body;
+  const { symbol } = body;
+
+  let apiKey: string;
+  try {
+    apiKey = resolveFmpKey(body.apiKey);
+  } catch (err: unknown) {
+    if (err instanceof KeyVaultError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
 
   if (!symbol) {
     return NextResponse.json({ error: "symbol is required" }, { status: 400 });
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getKeyVaultStatus } from "@/app/api/utils/keyVault";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Which keys the server holds (never the keys themselves) */
+export async function GET() {
+  return NextResponse.json(getKeyVaultStatus());
+}
@@ -1,12 +1,9 @@
 import { Interval, Timeframe } from "@/app/lib/types";
-import { rangeToPeriod1 } from "@/app/lib/utils";
+import { fetchCandles } from "@/app/api/utils/marketData";
 import { NextRequest, NextResponse } from "next/server";
-import YahooFinance from "yahoo-finance2";
 
 export const runtime = "nodejs";
 
-const yf = new YahooFinance();
-
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const symbol = searchParams.get("symbol");
@@ -23,30 +20,11 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const result = await yf.chart(sanitized, {
-      period1: rangeToPeriod1(range as Timeframe),
-      interval: interval as Interval,
-    });
-
-    const candles = result.quotes
-      .filter(
-        (q) =>
-          q.open !== null &&
-          q.high !== null &&
-          q.low !== null &&
-          q.close !== null,
-      )
-      .map((q) => ({
-        time:
-          interval === "1d"
-            ? q.date.toISOString().split("T")[0]
-            : Math.floor(q.date.getTime() / 1000),
-        open: q.open!,
-        high: q.high!,
-        low: q.low!,
-        close: q.close!,
-        volume: q.volume ?? undefined,
-      }));
+    const candles = await fetchCandles(
+      sanitized,
+      range as Timeframe,
+      interval as Interval,
+    );
 
     return NextResponse.json(candles);
   } catch (err: unknown) {
@@ -1,16 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { normalizeBaseUrl } from '@/app/api/utils/api-helpers';
+import { customBaseUrlError, customEndpointFetch } from '@/app/api/utils/customEndpoint';
+import {
+  KeyVaultError,
+  isKeyVaultEnabled,
+  resolveCustomBaseUrl,
+  resolveProviderKey,
+} from '@/app/api/utils/keyVault';
+
+export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
-  let body: { provider: string; apiKey: string };
+  let body: { provider: string; apiKey: string; baseUrl?: string };
   try {
     body = await request.json();
   } catch {
     return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
   }
 
-  const { provider, apiKey } = body;
-  if (!provider || !apiKey) {
-    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  const { provider } = body;
+  let apiKey: string;
+  try {
+    apiKey = resolveProviderKey(provider, body.apiKey);
+  } catch (err: unknown) {
+    if (err instanceof KeyVaultError) return NextResponse.json({ error: err.message }, { status: err.status });
+    throw err;
+  }
+
+  // Self-hosted servers may not need a key
+  if (!provider || (provider !== 'custom' && !apiKey)) {
+    const error = isKeyVaultEnabled() && provider
+      ? `No API key for ${provider} is configured on the server`
+      : 'Missing required fields';
+    return NextResponse.json({ error }, { status: 400 });
   }
 
   try {
@@ -78,6 +100,26 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ supported: false, keyValid: true });
       }
 
+      case 'custom': {
+        // Validate connectivity against the OpenAI-compatible model list
+        const baseUrl = normalizeBaseUrl(resolveCustomBaseUrl(body.baseUrl));
+        if (!baseUrl) return NextResponse.json({ error: 'Invalid base URL' }, { status: 400 });
+        const urlError = await customBaseUrlError(baseUrl);
+        if (urlError) return NextResponse.json({ error: urlError }, { status: 400 });
+        const res = await customEndpointFetch(`${baseUrl}/models`, {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        });
+        if (!res.ok) {
+          if (res.status === 401 || res.status === 403) return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+          return NextResponse.json({ error: `Server responded ${res.status}` }, { status: 502 });
+        }
+        const data = await res.json().catch(() => ({}));
+        const models = Array.isArray(data.data)
+          ? (data.data as { id?: unknown }[]).map((m) => m.id).filter((id): id is string => typeof id === 'string')
+          : [];
+        return NextResponse.json({ supported: false, keyValid: true, models });
+      }
+
       default:
         return NextResponse.json({ supported: false });
     }
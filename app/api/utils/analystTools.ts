@@ -0,0 +1,247 @@
+import { sanitizeSymbol } from "@/app/api/utils/api-helpers";
+import { fetchCandles, fetchFundamentalsTimeSeries } from "@/app/api/utils/marketData";
+import {
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+} from "@/app/lib/indicators";
+import type {
+  CandleData,
+  FundamentalsTimeSeriesModule,
+  FundamentalsTimeSeriesType,
+  IndicatorPoint,
+  Interval,
+  Timeframe,
+} from "@/app/lib/types";
+
+/**
+ * Analyst Tools
+ *
+ * Data-fetching tools offered to providers that support function calling,
+ * so an analyst can pull another range/interval, an intermarket symbol,
+ * an indicator with custom parameters or fundamentals mid-analysis.
+ * Definitions use JSON Schema and are translated to each provider's format
+ * in the /api/analyze adapters.
+ */
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;  // JSON Schema (object)
+}
+
+// Keep tool results small enough not to blow the context window
+const MAX_CANDLES = 200;
+const DEFAULT_CANDLES = 100;
+const DEFAULT_INDICATOR_POINTS = 30;
+const MAX_FUNDAMENTAL_PERIODS = 8;
+
+const RANGES: Timeframe[] = ["1d", "5d", "1mo", "3mo", "6mo", "1y", "2y", "5y", "10y", "ytd", "max"];
+const INTERVALS: Interval[] = ["5m", "15m", "1h", "1d", "1wk", "1mo"];
+const INDICATORS = ["sma", "ema", "rsi", "macd", "bollinger"] as const;
+const FUNDAMENTAL_MODULES: FundamentalsTimeSeriesModule[] = ["financials", "balance-sheet", "cash-flow", "all"];
+const FUNDAMENTAL_TYPES: FundamentalsTimeSeriesType[] = ["quarterly", "annual", "trailing"];
+
+const symbolParam = { type: "string", description: "Ticker symbol, e.g. AAPL, SPY, ^TNX, GC=F" };
+const rangeParam = { type: "string", enum: RANGES, description: "How far back to fetch" };
+const intervalParam = { type: "string", enum: INTERVALS, description: "Bar size" };
+
+export const ANALYST_TOOLS: ToolDefinition[] = [
+  {
+    name: "get_candles",
+    description:
+      "Fetch OHLCV candles for any symbol, range and interval (e.g. a weekly chart, or an intermarket symbol such as bonds, the dollar or a sector ETF). Returns the most recent bars.",
+    parameters: {
+      type: "object",
+      properties: {
+        symbol: symbolParam,
+        range: rangeParam,
+        interval: intervalParam,
+        limit: { type: "integer", description: `Number of most recent bars to return (max ${MAX_CANDLES})` },
+      },
+      required: ["symbol", "range", "interval"],
+    },
+  },
+  {
+    name: "compute_indicator",
+    description:
+      "Compute a technical indicator with custom parameters on a symbol's candles. Returns the most recent values.",
+    parameters: {
+      type: "object",
+      properties: {
+        symbol: symbolParam,
+        range: rangeParam,
+        interval: intervalParam,
+        indicator: { type: "string", enum: INDICATORS },
+        period: { type: "integer", description: "Lookback for sma/ema/rsi/bollinger (default 20, rsi 14)" },
+        fast: { type: "integer", description: "MACD fast period (default 12)" },
+        slow: { type: "integer", description: "MACD slow period (default 26)" },
+        signal: { type: "integer", description: "MACD signal period (default 9)" },
+        stdDev: { type: "number", description: "Bollinger band width in standard deviations (default 2)" },
+        limit: { type: "integer", description: `Number of most recent values to return (default ${DEFAULT_INDICATOR_POINTS})` },
+      },
+      required: ["symbol", "range", "interval", "indicator"],
+    },
+  },
+  {
+    name: "get_fundamentals_time_series",
+    description:
+      "Fetch reported financial statement line items over time (income statement, balance sheet, cash flow) for a company.",
+    parameters: {
+      type: "object",
+      properties: {
+        symbol: symbolParam,
+        module: { type: "string", enum: FUNDAMENTAL_MODULES },
+        type: { type: "string", enum: FUNDAMENTAL_TYPES },
+        range: { ...rangeParam, description: "How far back to fetch (default 5y)" },
+      },
+      required: ["symbol", "module", "type"],
+    },
+  },
+];
+
+export const TOOL_INSTRUCTIONS = `
+
+## DATA TOOLS
+
+You can call tools to fetch more market data when the provided candles are not enough — for example a weekly chart for the bigger trend, a related market for intermarket analysis, an indicator with different settings, or reported fundamentals. Only request what you need; then complete your analysis as usual.`;
+
+/** Round to at most 4 decimals to keep results compact */
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+function pickEnum<T extends string>(value: unknown, allowed: readonly T[], name: string, fallback?: T): T {
+  if (typeof value === "string" && (allowed as readonly string[]).includes(value)) return value as T;
+  if (fallback !== undefined && value === undefined) return fallback;
+  throw new Error(`Invalid ${name}: expected one of ${allowed.join(", ")}`);
+}
+
+function pickInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = typeof value === "number" ? Math.floor(value) : fallback;
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+function requireSymbol(value: unknown): string {
+  const symbol = sanitizeSymbol(typeof value === "string" ? value : null);
+  if (!symbol) throw new Error("symbol is required");
+  return symbol.toUpperCase();
+}
+
+async function loadCandles(args: Record<string, unknown>): Promise<{ symbol: string; range: Timeframe; interval: Interval; candles: CandleData[] }> {
+  const symbol = requireSymbol(args.symbol);
+  const range = pickEnum(args.range, RANGES, "range");
+  const interval = pickEnum(args.interval, INTERVALS, "interval");
+  const candles = await fetchCandles(symbol, range, interval);
+  if (candles.length === 0) throw new Error(`No data for ${symbol}`);
+  return { symbol, range, interval, candles };
+}
+
+function lastPoints(points: IndicatorPoint[], limit: number) {
+  return points.slice(-limit).map((p) => [p.time, round(p.value)]);
+}
+
+async function getCandles(args: Record<string, unknown>) {
+  const { symbol, range, interval, candles } = await loadCandles(args);
+  const limit = pickInt(args.limit, DEFAULT_CANDLES, 1, MAX_CANDLES);
+  return {
+    symbol,
+    range,
+    interval,
+    columns: ["time", "open", "high", "low", "close", "volume"],
+    candles: candles
+      .slice(-limit)
+      .map((c) => [c.time, round(c.open), round(c.high), round(c.low), round(c.close), c.volume ?? null]),
+    totalBars: candles.length,
+  };
+}
+
+async function computeIndicator(args: Record<string, unknown>) {
+  const { symbol, range, interval, candles } = await loadCandles(args);
+  const indicator = pickEnum(args.indicator, INDICATORS, "indicator");
+  const limit = pickInt(args.limit, DEFAULT_INDICATOR_POINTS, 1, MAX_CANDLES);
+  const base = { symbol, range, interval, indicator, columns: ["time", "value"] };
+
+  switch (indicator) {
+    case "sma":
+    case "ema": {
+      const period = pickInt(args.period, 20, 2, 400);
+      const points = indicator === "sma" ? calculateSMA(candles, period) : calculateEMA(candles, period);
+      return { ...base, period, values: lastPoints(points, limit) };
+    }
+    case "rsi": {
+      const period = pickInt(args.period, 14, 2, 100);
+      return { ...base, period, values: lastPoints(calculateRSI(candles, period), limit) };
+    }
+    case "bollinger": {
+      const period = pickInt(args.period, 20, 2, 400);
+      const stdDev = typeof args.stdDev === "number" && args.stdDev > 0 ? args.stdDev : 2;
+      const bands = calculateBollingerBands(candles, period, stdDev);
+      return {
+        ...base,
+        period,
+        stdDev,
+        upper: lastPoints(bands.upper, limit),
+        middle: lastPoints(bands.middle, limit),
+        lower: lastPoints(bands.lower, limit),
+      };
+    }
+    case "macd": {
+      const fast = pickInt(args.fast, 12, 2, 100);
+      const slow = pickInt(args.slow, 26, fast + 1, 200);
+      const signal = pickInt(args.signal, 9, 2, 100);
+      const macd = calculateMACD(candles, fast, slow, signal);
+      return {
+        ...base,
+        fast,
+        slow,
+        signal,
+        macd: lastPoints(macd.macd, limit),
+        signalLine: lastPoints(macd.signal, limit),
+        histogram: lastPoints(macd.histogram, limit),
+      };
+    }
+  }
+}
+
+async function getFundamentalsTimeSeries(args: Record<string, unknown>) {
+  const symbol = requireSymbol(args.symbol);
+  const module = pickEnum(args.module, FUNDAMENTAL_MODULES, "module");
+  const type = pickEnum(args.type, FUNDAMENTAL_TYPES, "type");
+  const range = pickEnum(args.range, RANGES, "range", "5y");
+  const result = await fetchFundamentalsTimeSeries(symbol, module, range, type);
+
+  // Drop empty fields and keep the most recent periods
+  const periods = (result as Record<string, unknown>[]).slice(-MAX_FUNDAMENTAL_PERIODS).map((period) =>
+    Object.fromEntries(
+      Object.entries(period).filter(([, v]) => v !== null && v !== undefined && !(typeof v === "number" && isNaN(v))),
+    ),
+  );
+  return { symbol, module, type, periods };
+}
+
+/**
+ * Run a tool call from a model. Errors are returned to the model as a
+ * result rather than thrown, so it can correct its arguments.
+ */
+export async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+): Promise<{ ok: boolean; result: unknown }> {
+  try {
+    switch (name) {
+      case "get_candles":
+        return { ok: true, result: await getCandles(args) };
+      case "compute_indicator":
+        return { ok: true, result: await computeIndicator(args) };
+      case "get_fundamentals_time_series":
+        return { ok: true, result: await getFundamentalsTimeSeries(args) };
+      default:
+        return { ok: false, result: { error: `Unknown tool: ${name}` } };
+    }
+  } catch (err: unknown) {
+    return { ok: false, result: { error: err instanceof Error ? err.message : "Tool failed" } };
+  }
+}
@@ -9,6 +9,20 @@ export function sanitizeSymbol(symbol: string | null): string | null {
   return sanitized || null;
 }
 
+/**
+ * Validates a user-supplied OpenAI-compatible base URL and strips the trailing slash
+ */
+export function normalizeBaseUrl(baseUrl: string | null | undefined): string | null {
+  if (!baseUrl) return null;
+  try {
+    const url = new URL(baseUrl.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.toString().replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Parses JSON body from request with error handling
  */
@@ -0,0 +1,164 @@
+import { lookup as lookupEach } from "dns";
+import { lookup } from "dns/promises";
+import * as http from "http";
+import * as https from "https";
+import { isIP, type LookupFunction } from "net";
+import { Readable } from "stream";
+import { isKeyVaultEnabled } from "./keyVault";
+
+/**
+ * Custom Model Endpoints
+ *
+ * Outside vault mode the client picks the base URL of a custom model and the
+ * server fetches it, so an unchecked URL would let anyone use the routes as a
+ * proxy into the server's own network. A client-supplied URL must either match
+ * an origin listed in CUSTOM_LLM_ALLOWED_URLS (comma-separated), or be https on
+ * a host that resolves to public addresses only. Outside production, hosts that
+ * resolve to loopback are allowed too, so a local server such as Ollama works
+ * in development. In vault mode the URL is the server's own and is trusted.
+ *
+ * The check runs before the request, so requests go through customEndpointFetch,
+ * which applies the same policy to the addresses the connection actually uses
+ * (a host could resolve differently the second time) and doesn't follow redirects.
+ */
+
+const ALLOWED_URLS_ENV_KEY = "CUSTOM_LLM_ALLOWED_URLS";
+
+function allowedOrigins(): Set<string> {
+  const origins = new Set<string>();
+  for (const entry of (process.env[ALLOWED_URLS_ENV_KEY] ?? "").split(",")) {
+    try {
+      if (entry.trim()) origins.add(new URL(entry.trim()).origin);
+    } catch { /* ignore */ }
+  }
+  return origins;
+}
+
+/** IPv4 dotted form of an IPv4-mapped IPv6 address (::ffff:a.b.c.d or ::ffff:xxxx:xxxx) */
+function mappedIPv4(address: string): string | null {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return dotted[1];
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isLoopback(address: string): boolean {
+  const v4 = isIP(address) === 6 ? mappedIPv4(address.toLowerCase()) : address;
+  if (v4 === null) return address === "::1";
+  return v4.startsWith("127.");
+}
+
+/** Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges */
+function isInternal(address: string): boolean {
+  if (isIP(address) === 6) {
+    const a = address.toLowerCase();
+    const v4 = mappedIPv4(a);
+    if (v4) return isInternal(v4);
+    return a === "::" || a === "::1" || /^f[cd]/.test(a) || /^fe[89ab]/.test(a) || a.startsWith("ff");
+  }
+  const [a, b] = address.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168);
+}
+
+/** Why a host resolving to `addresses` may not be called over `protocol`, or null when it may */
+function addressesError(protocol: string, addresses: string[]): string | null {
+  if (process.env.NODE_ENV !== "production" && addresses.length > 0 && addresses.every(isLoopback)) return null;
+  if (protocol !== "https:") return "Custom model URLs must use https";
+  if (addresses.some(isInternal)) return "Custom model URLs may not point at private or local addresses";
+  return null;
+}
+
+/** Addresses are checked unless the URL is the server's own or an allowlist is configured */
+const checksAddresses = () => !isKeyVaultEnabled() && allowedOrigins().size === 0;
+
+/**
+ * Why the server won't call a (normalized) custom base URL, or null when it may
+ */
+export async function customBaseUrlError(baseUrl: string): Promise<string | null> {
+  if (isKeyVaultEnabled()) return null;
+  const url = new URL(baseUrl);
+
+  const allowed = allowedOrigins();
+  if (allowed.size > 0) {
+    return allowed.has(url.origin) ? null : `${url.origin} is not an allowed custom model URL on this server`;
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+      return `Could not resolve ${host}`;
+    }
+  }
+
+  return addressesError(url.protocol, addresses);
+}
+
+/** DNS lookup for a connection that fails when the addresses would be refused */
+function checkedLookup(protocol: string): LookupFunction {
+  return (hostname, options, callback) => {
+    lookupEach(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return callback(err, "");
+      const error = addresses.length === 0
+        ? `Could not resolve ${hostname}`
+        : addressesError(protocol, addresses.map((a) => a.address));
+      if (error) return callback(new Error(error), "");
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+/**
+ * fetch for a custom model endpoint. The connection only uses addresses that
+ * pass the policy above, and a redirect is returned as the 3xx response it is
+ * rather than followed, so callers treat it as a failed request.
+ */
+export function customEndpointFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const target = new URL(url);
+  if (init.body != null && typeof init.body !== "string") {
+    return Promise.reject(new TypeError("Custom model requests take a string body"));
+  }
+  const body = init.body;
+  const client = target.protocol === "https:" ? https : http;
+  const checked = checksAddresses();
+
+  // Connections skip the lookup for an IP address, so check it here
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  const literalError = checked && isIP(host) ? addressesError(target.protocol, [host]) : null;
+  if (literalError) return Promise.reject(new Error(literalError));
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: init.method ?? "GET",
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      signal: init.signal ?? undefined,
+      lookup: checked ? checkedLookup(target.protocol) : undefined,
+    }, (res) => {
+      const status = res.statusCode ?? 502;
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(res.headers)) {
+        for (const v of [value ?? []].flat()) headers.append(name, v);
+      }
+      const noBody = status === 204 || status === 304;
+      if (noBody) res.resume();
+      resolve(new Response(noBody ? null : (Readable.toWeb(res) as ReadableStream<Uint8Array>), {
+        status,
+        statusText: res.statusMessage,
+        headers,
+      }));
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
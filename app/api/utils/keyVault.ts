@@ -0,0 +1,135 @@
+import { createDecipheriv, scryptSync } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { Provider } from "@/app/lib/models";
+import type { KeyVaultStatus } from "@/app/lib/keyVault";
+
+/**
+ * Server-side Key Vault
+ *
+ * Enabled with KEY_VAULT_MODE=server. Keys are read from environment
+ * variables, or from an AES-256-GCM encrypted JSON file (KEY_VAULT_FILE,
+ * default .key-vault.enc) unlocked with KEY_VAULT_SECRET. Environment
+ * variables take precedence. In this mode routes refuse client-supplied keys.
+ *
+ * Create the encrypted file with `npm run key-vault -- <input.json>`.
+ */
+
+const PROVIDER_ENV_KEYS: Record<Provider, string> = {
+  gemini: "GEMINI_API_KEY",
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  openrouter: "OPENROUTER_API_KEY",
+  custom: "CUSTOM_LLM_API_KEY",
+};
+const FMP_ENV_KEY = "FMP_API_KEY";
+const CUSTOM_BASE_URL_ENV_KEY = "CUSTOM_LLM_BASE_URL";
+
+const DEFAULT_VAULT_FILE = ".key-vault.enc";
+
+interface EncryptedVaultFile {
+  version: 1;
+  salt: string;  // base64
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** A request broke the vault policy (e.g. sent its own key) */
+export class KeyVaultError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 403) {
+    super(message);
+    this.name = "KeyVaultError";
+    this.status = status;
+  }
+}
+
+let cachedSecrets: { values: Record<string, string>; error?: string } | null = null;
+
+export function isKeyVaultEnabled(): boolean {
+  return process.env.KEY_VAULT_MODE === "server";
+}
+
+function decryptVaultFile(file: EncryptedVaultFile, secret: string): Record<string, string> {
+  const key = scryptSync(secret, Buffer.from(file.salt, "base64"), 32);
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  const plain = Buffer.concat([
+    decipher.update(Buffer.from(file.data, "base64")),
+    decipher.final(),
+  ]);
+  return JSON.parse(plain.toString("utf8"));
+}
+
+/** Read the encrypted store once per server process */
+function loadSecrets(): { values: Record<string, string>; error?: string } {
+  if (cachedSecrets) return cachedSecrets;
+
+  const filePath = path.resolve(process.cwd(), process.env.KEY_VAULT_FILE || DEFAULT_VAULT_FILE);
+  if (!existsSync(filePath)) {
+    cachedSecrets = { values: {} };
+    return cachedSecrets;
+  }
+
+  const secret = process.env.KEY_VAULT_SECRET;
+  if (!secret) {
+    cachedSecrets = { values: {}, error: "KEY_VAULT_SECRET is not set; encrypted key store ignored" };
+  } else {
+    try {
+      cachedSecrets = { values: decryptVaultFile(JSON.parse(readFileSync(filePath, "utf8")), secret) };
+    } catch {
+      cachedSecrets = { values: {}, error: "Failed to decrypt the key store (wrong KEY_VAULT_SECRET?)" };
+    }
+  }
+  if (cachedSecrets.error) console.error("Key vault:", cachedSecrets.error);
+  return cachedSecrets;
+}
+
+function getSecret(name: string): string {
+  return process.env[name] || loadSecrets().values[name] || "";
+}
+
+/**
+ * The key to use for a provider call. Outside vault mode this is the
+ * client's key; in vault mode client keys are refused and the stored key is used.
+ */
+export function resolveProviderKey(provider: string, clientKey: string | undefined): string {
+  if (!isKeyVaultEnabled()) return clientKey ?? "";
+  if (clientKey) {
+    throw new KeyVaultError("This server manages API keys; client-supplied keys are not accepted");
+  }
+  const envKey = PROVIDER_ENV_KEYS[provider as Provider];
+  return envKey ? getSecret(envKey) : "";
+}
+
+/** In vault mode the server, not the client, decides where custom-model calls go */
+export function resolveCustomBaseUrl(clientBaseUrl: string | undefined): string | undefined {
+  if (!isKeyVaultEnabled()) return clientBaseUrl;
+  return getSecret(CUSTOM_BASE_URL_ENV_KEY) || undefined;
+}
+
+/** FMP key for fundamentals; empty means fall back to Yahoo Finance */
+export function resolveFmpKey(clientKey: string | undefined): string {
+  if (!isKeyVaultEnabled()) return clientKey ?? "";
+  if (clientKey) {
+    throw new KeyVaultError("This server manages API keys; client-supplied keys are not accepted");
+  }
+  return getSecret(FMP_ENV_KEY);
+}
+
+export function getKeyVaultStatus(): KeyVaultStatus {
+  const enabled = isKeyVaultEnabled();
+  const providers = Object.fromEntries(
+    Object.entries(PROVIDER_ENV_KEYS).map(([provider, envKey]) => [provider, enabled && !!getSecret(envKey)])
+  ) as Record<Provider, boolean>;
+
+  return {
+    enabled,
+    providers,
+    fmp: enabled && !!getSecret(FMP_ENV_KEY),
+    customBaseUrl: enabled && !!getSecret(CUSTOM_BASE_URL_ENV_KEY),
+    ...(enabled && loadSecrets().error ? { error: loadSecrets().error } : {}),
+  };
+}
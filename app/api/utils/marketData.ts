@@ -0,0 +1,60 @@
+import YahooFinance from "yahoo-finance2";
+import type {
+  CandleData,
+  FundamentalsTimeSeriesModule,
+  FundamentalsTimeSeriesType,
+  Interval,
+  Timeframe,
+} from "@/app/lib/types";
+import { rangeToPeriod1 } from "@/app/lib/utils";
+
+/**
+ * Yahoo Finance data access shared by the market data routes and the
+ * analyst tools in /api/analyze.
+ */
+
+const yf = new YahooFinance();
+
+export async function fetchCandles(
+  symbol: string,
+  range: Timeframe,
+  interval: Interval,
+): Promise<CandleData[]> {
+  const result = await yf.chart(symbol, {
+    period1: rangeToPeriod1(range),
+    interval,
+  });
+
+  return result.quotes
+    .filter(
+      (q) =>
+        q.open !== null &&
+        q.high !== null &&
+        q.low !== null &&
+        q.close !== null,
+    )
+    .map((q) => ({
+      time:
+        interval === "1d"
+          ? q.date.toISOString().split("T")[0]
+          : Math.floor(q.date.getTime() / 1000),
+      open: q.open!,
+      high: q.high!,
+      low: q.low!,
+      close: q.close!,
+      volume: q.volume ?? undefined,
+    }));
+}
+
+export async function fetchFundamentalsTimeSeries(
+  symbol: string,
+  module: FundamentalsTimeSeriesModule,
+  range: Timeframe,
+  type: FundamentalsTimeSeriesType,
+) {
+  return yf.fundamentalsTimeSeries(symbol, {
+    module,
+    period1: rangeToPeriod1(range),
+    type,
+  });
+}
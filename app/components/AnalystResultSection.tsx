@@ -1,7 +1,9 @@
 "use client";
 
 import { useRef, useEffect } from "react";
-import type { AnalystConfig, ChatMessage } from "../lib/types";
+import type { AnalystConfig, ChatMessage, FinishReason, TokenUsage, ToolCallRecord } from "../lib/types";
+import { FINISH_REASON_LABELS } from "../lib/streamProtocol";
+import { formatCost } from "../lib/tokenEstimator";
 import { Spinner } from "./ui/Spinner";
 import { Message } from "./ui/Message";
 import { MarkdownRenderer } from "./ui/MarkdownRenderer";
@@ -12,6 +14,27 @@ interface AnalystResultSectionProps {
   streamingText: string | null;
   loading: boolean;
   error: string | null;
+  usage?: TokenUsage | null;
+  cost?: number | null;
+  servedBy?: string | null;
+  interrupted?: boolean;
+  finishReason?: FinishReason | null;
+  toolCalls?: ToolCallRecord[];
+}
+
+/** Short label for a data tool call, e.g. "SPY 1wk · 2y" or "AAPL RSI" */
+function describeToolCall(call: ToolCallRecord): string {
+  const { symbol, range, interval, indicator, module, type } = call.args as Record<string, string | undefined>;
+  switch (call.name) {
+    case "get_candles":
+      return `${symbol ?? "?"} ${interval ?? ""} · ${range ?? ""}`;
+    case "compute_indicator":
+      return `${symbol ?? "?"} ${(indicator ?? "").toUpperCase()} ${interval ?? ""}`;
+    case "get_fundamentals_time_series":
+      return `${symbol ?? "?"} ${module ?? "fundamentals"} (${type ?? ""})`;
+    default:
+      return call.name;
+  }
 }
 
 export default function AnalystResultSection({
@@ -20,6 +43,12 @@ export default function AnalystResultSection({
   streamingText,
   loading,
   error,
+  usage = null,
+  cost = null,
+  servedBy = null,
+  interrupted = false,
+  finishReason = null,
+  toolCalls = [],
 }: AnalystResultSectionProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
   const hasMessages = messages.length > 0;
@@ -52,6 +81,17 @@ export default function AnalystResultSection({
             {hasStreaming ? "Streaming" : "Thinking"}...
           </div>
         )}
+        {!loading && usage && (
+          <div className="text-right font-ibm text-[10px] text-[#666666]">
+            <div>
+              {usage.inputTokens.toLocaleString()} in / {usage.outputTokens.toLocaleString()} out
+            </div>
+            {cost !== null && <div>{formatCost(cost)}</div>}
+            {servedBy && (
+              <div className="text-[var(--color-accent-cyan)]">via {servedBy} (fallback)</div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Error state */}
@@ -61,6 +101,26 @@ export default function AnalystResultSection({
         </div>
       )}
 
+      {/* Data fetched by the analyst during the latest turn */}
+      {toolCalls.length > 0 && (
+        <div className="mb-3 shrink-0 flex flex-wrap items-center gap-1.5">
+          <span className="font-manrope text-[10px] text-[#666666] uppercase tracking-wider">Fetched</span>
+          {toolCalls.map((call, i) => (
+            <span
+              key={i}
+              title={call.ok ? undefined : "Tool call failed"}
+              className={`font-ibm text-[10px] px-1.5 py-0.5 border ${
+                call.ok
+                  ? "border-white/[0.08] text-[#a0a0a0]"
+                  : "border-red-500/40 text-red-400 line-through"
+              }`}
+            >
+              {describeToolCall(call)}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Content area */}
       <div className="flex-1 min-h-0 overflow-y-auto">
         {hasMessages && (
@@ -76,6 +136,16 @@ export default function AnalystResultSection({
               <MarkdownRenderer>{streamingText}</MarkdownRenderer>
             )}
 
+            {finishReason && finishReason !== "stop" && !loading && (
+              <Message variant="warning">{FINISH_REASON_LABELS[finishReason]}.</Message>
+            )}
+
+            {interrupted && !loading && (
+              <Message variant="warning">
+                Stopped — the response above was interrupted and may be incomplete.
+              </Message>
+            )}
+
             <div ref={bottomRef} />
           </div>
         )}
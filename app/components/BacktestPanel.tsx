@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createChart, LineSeries } from "lightweight-charts";
+import type { BacktestSettings, BacktestStrategyType, CandleData } from "../lib/types";
+import {
+  BACKTEST_STRATEGIES,
+  BACKTEST_STRATEGY_TYPES,
+  loadBacktestSettings,
+  resolveStrategyParams,
+  runBacktest,
+  saveBacktestSettings,
+  tradesToCsv,
+} from "../lib/backtest";
+import { Button } from "./ui/Button";
+import { CopyButton } from "./ui/CopyButton";
+
+interface BacktestPanelProps {
+  data: CandleData[];
+  symbol: string;
+  dark?: boolean;
+}
+
+const EQUITY_CHART_HEIGHT = 260;
+const MAX_TRADE_ROWS = 100;
+
+const numberInputClass =
+  "w-16 bg-[#0a0a0a] border border-white/[0.08] px-1.5 py-0.5 font-ibm text-[11px] text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50";
+
+function formatPct(value: number | null, signed = true): string {
+  if (value === null) return "—";
+  return `${signed && value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatTime(time: string | number): string {
+  return typeof time === "number" ? new Date(time * 1000).toISOString().replace("T", " ").slice(0, 16) : time;
+}
+
+export default function BacktestPanel({ data, symbol, dark = true }: BacktestPanelProps) {
+  const [settings, setSettings] = useState<BacktestSettings>(loadBacktestSettings);
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    saveBacktestSettings(settings);
+  }, [settings]);
+
+  const strategy = BACKTEST_STRATEGIES[settings.strategy];
+  const params = resolveStrategyParams(settings.strategy, settings.params);
+
+  const result = useMemo(
+    () => (data.length > 1 ? runBacktest(data, settings) : null),
+    [data, settings],
+  );
+
+  // Equity curve (with buy & hold for comparison) and drawdown pane
+  useEffect(() => {
+    const container = chartContainerRef.current;
+    if (!container || !result) return;
+
+    const chart = createChart(container, {
+      width: container.clientWidth,
+      height: EQUITY_CHART_HEIGHT,
+      layout: {
+        background: { color: dark ? "#0f1117" : "#ffffff" },
+        textColor: dark ? "#9ca3af" : "#6b7280",
+      },
+      grid: {
+        vertLines: { color: dark ? "#1f2937" : "#f3f4f6" },
+        horzLines: { color: dark ? "#1f2937" : "#f3f4f6" },
+      },
+      timeScale: { timeVisible: true, secondsVisible: false },
+    });
+
+    const equitySeries = chart.addSeries(LineSeries, { color: "#22d3ee", lineWidth: 2 });
+    equitySeries.setData(result.equity as Parameters<typeof equitySeries.setData>[0]);
+
+    const first = data[0];
+    const buyHold = chart.addSeries(LineSeries, {
+      color: "rgba(156,163,175,0.6)",
+      lineWidth: 1,
+      lineStyle: 2,
+      lastValueVisible: false,
+      priceLineVisible: false,
+    });
+    buyHold.setData(
+      data.map((c) => ({ time: c.time, value: settings.initialCapital * (c.close / first.open) })) as Parameters<typeof buyHold.setData>[0],
+    );
+
+    const drawdownSeries = chart.addSeries(LineSeries, { color: "#ef4444", lineWidth: 1 }, 1);
+    drawdownSeries.setData(result.drawdown as Parameters<typeof drawdownSeries.setData>[0]);
+    chart.panes()[1]?.setHeight(70);
+
+    chart.timeScale().fitContent();
+
+    const handleResize = () => chart.applyOptions({ width: container.clientWidth });
+    window.addEventListener("resize", handleResize);
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      chart.remove();
+    };
+  }, [data, result, dark, settings.initialCapital]);
+
+  const update = (patch: Partial<BacktestSettings>) => setSettings((prev) => ({ ...prev, ...patch }));
+
+  const updateNumber = (key: "initialCapital" | "commissionPct" | "slippagePct", value: number) => {
+    if (Number.isFinite(value) && value >= 0) update({ [key]: value });
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const blob = new Blob([tradesToCsv(result.trades)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${symbol || "backtest"}-${settings.strategy}-trades.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (data.length === 0) {
+    return <p className="font-manrope text-xs text-[#666666]">Load a symbol to backtest strategies on its candles.</p>;
+  }
+
+  const m = result?.metrics;
+  const stats: { label: string; value: string; tone?: "gain" | "loss" }[] = m
+    ? [
+        { label: "Return", value: formatPct(m.totalReturnPct), tone: m.totalReturnPct >= 0 ? "gain" : "loss" },
+        { label: "Buy & hold", value: formatPct(m.buyHoldReturnPct) },
+        { label: "Max drawdown", value: formatPct(-m.maxDrawdownPct), tone: "loss" },
+        { label: "Win rate", value: formatPct(m.winRatePct, false) },
+        { label: "Sharpe", value: m.sharpe === null ? "—" : m.sharpe.toFixed(2) },
+        { label: "Profit factor", value: m.profitFactor === null ? "—" : m.profitFactor.toFixed(2) },
+        { label: "Trades", value: String(m.trades) },
+        { label: "Exposure", value: formatPct(m.exposurePct, false) },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {/* Strategy and costs */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={settings.strategy}
+            onChange={(e) => update({ strategy: e.target.value as BacktestStrategyType, params: {} })}
+            className="bg-[#111] border border-white/[0.08] px-2 py-1.5 font-manrope text-xs text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50"
+          >
+            {BACKTEST_STRATEGY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {BACKTEST_STRATEGIES[type].name}
+              </option>
+            ))}
+          </select>
+          {strategy.params.map((param) => (
+            <label key={param.key} className="flex items-center gap-1">
+              <span className="font-manrope text-[10px] text-[#666666]">{param.label}</span>
+              <input
+                type="number"
+                min={param.min}
+                max={param.max}
+                step={param.step ?? 1}
+                value={params[param.key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (Number.isFinite(value)) update({ params: { ...params, [param.key]: value } });
+                }}
+                className={numberInputClass}
+              />
+            </label>
+          ))}
+        </div>
+        <p className="font-manrope text-xs text-[#a0a0a0]">{strategy.description}</p>
+        <div className="flex items-center gap-3 flex-wrap">
+          <label className="flex items-center gap-1">
+            <span className="font-manrope text-[10px] text-[#666666]">Capital</span>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.initialCapital}
+              onChange={(e) => updateNumber("initialCapital", parseFloat(e.target.value))}
+              className={`${numberInputClass} w-20`}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="font-manrope text-[10px] text-[#666666]">Commission %</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={settings.commissionPct}
+              onChange={(e) => updateNumber("commissionPct", parseFloat(e.target.value))}
+              className={numberInputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="font-manrope text-[10px] text-[#666666]">Slippage %</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={settings.slippagePct}
+              onChange={(e) => updateNumber("slippagePct", parseFloat(e.target.value))}
+              className={numberInputClass}
+            />
+          </label>
+          <span className="font-manrope text-[10px] text-[#666666]">
+            Long only · signals on close, filled next open
+          </span>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          {/* Metrics */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {stats.map((stat) => (
+              <div key={stat.label} className="border border-white/[0.08] bg-[#1a1a1a] px-3 py-2">
+                <div className="font-manrope text-[10px] text-[#666666] uppercase tracking-wider">{stat.label}</div>
+                <div
+                  className={`font-ibm text-sm font-semibold ${
+                    stat.tone === "gain" ? "text-[var(--color-gain)]" : stat.tone === "loss" ? "text-[var(--color-loss)]" : "text-white"
+                  }`}
+                >
+                  {stat.value}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Equity and drawdown */}
+          <div>
+            <div className="flex items-center gap-3 mb-1 font-manrope text-[10px] text-[#666666]">
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-[#22d3ee]" />Strategy equity</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-[#9ca3af]" />Buy & hold</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-[#ef4444]" />Drawdown %</span>
+            </div>
+            <div ref={chartContainerRef} className="w-full" />
+          </div>
+
+          {/* Trades */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-chakra text-xs font-bold text-[#a0a0a0] tracking-wider uppercase">
+                Trades ({result.trades.length})
+              </span>
+              <div className="flex items-center gap-2">
+                <Button variant="secondary" size="xs" onClick={handleDownload} disabled={result.trades.length === 0}>
+                  Download CSV
+                </Button>
+                <CopyButton
+                  data={{ symbol, settings: { ...settings, params }, metrics: result.metrics, trades: result.trades }}
+                  label="Copy JSON"
+                  size="xs"
+                />
+              </div>
+            </div>
+            {result.trades.length === 0 ? (
+              <p className="font-manrope text-xs text-[#666666]">No trades for these settings.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto border border-white/[0.08]">
+                <table className="w-full font-ibm text-[11px]">
+                  <thead className="sticky top-0 bg-[#1a1a1a] text-[#666666]">
+                    <tr>
+                      <th className="text-left px-2 py-1 font-normal">Entry</th>
+                      <th className="text-right px-2 py-1 font-normal">Price</th>
+                      <th className="text-left px-2 py-1 font-normal">Exit</th>
+                      <th className="text-right px-2 py-1 font-normal">Price</th>
+                      <th className="text-right px-2 py-1 font-normal">Bars</th>
+                      <th className="text-right px-2 py-1 font-normal">P&L</th>
+                      <th className="text-right px-2 py-1 font-normal">Return</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.trades.slice(-MAX_TRADE_ROWS).reverse().map((t) => (
+                      <tr key={String(t.entryTime)} className="border-t border-white/[0.04] text-white">
+                        <td className="px-2 py-1">{formatTime(t.entryTime)}</td>
+                        <td className="px-2 py-1 text-right">{t.entryPrice.toFixed(2)}</td>
+                        <td className="px-2 py-1">
+                          {formatTime(t.exitTime)}
+                          {t.open && <span className="ml-1 text-[#666666]">(open)</span>}
+                        </td>
+                        <td className="px-2 py-1 text-right">{t.exitPrice.toFixed(2)}</td>
+                        <td className="px-2 py-1 text-right">{t.bars}</td>
+                        <td className={`px-2 py-1 text-right ${t.pnl >= 0 ? "text-[var(--color-gain)]" : "text-[var(--color-loss)]"}`}>
+                          {t.pnl.toFixed(2)}
+                        </td>
+                        <td className={`px-2 py-1 text-right ${t.returnPct >= 0 ? "text-[var(--color-gain)]" : "text-[var(--color-loss)]"}`}>
+                          {formatPct(t.returnPct)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import type { ComparisonMode, ComparisonSeries } from "../lib/types";
+import { MAX_COMPARISONS, normalizeComparisonSymbol } from "../lib/comparison";
+import { Button } from "./ui/Button";
+
+interface ComparisonSelectorProps {
+  baseSymbol: string;
+  comparisons: ComparisonSeries[];
+  onChange: (symbols: string[]) => void;
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+}
+
+const MODES: { id: ComparisonMode; label: string; title: string }[] = [
+  { id: "percent", label: "% change", title: "Price pane in percent, each symbol rebased to the first visible bar" },
+  { id: "ratio", label: "Ratio", title: "Relative strength of the chart symbol against each comparison, in its own pane" },
+];
+
+export default function ComparisonSelector({
+  baseSymbol,
+  comparisons,
+  onChange,
+  mode,
+  onModeChange,
+}: ComparisonSelectorProps) {
+  const [input, setInput] = useState("");
+
+  const symbols = comparisons.map((c) => c.symbol);
+  const pending = normalizeComparisonSymbol(input);
+  const canAdd = !!pending
+    && symbols.length < MAX_COMPARISONS
+    && !symbols.includes(pending)
+    && pending !== normalizeComparisonSymbol(baseSymbol);
+
+  const add = () => {
+    if (!canAdd) return;
+    onChange([...symbols, pending]);
+    setInput("");
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="font-chakra text-xs font-bold text-[#a0a0a0] tracking-wider uppercase shrink-0">
+        Compare
+      </span>
+
+      {comparisons.map((c) => (
+        <span
+          key={c.symbol}
+          className="flex items-center gap-1.5 px-2 py-0.5 border border-white/[0.08] bg-[#111] font-ibm text-xs text-white"
+          title={c.error ?? undefined}
+        >
+          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: c.color }} />
+          {c.symbol}
+          {c.loading && <span className="text-[#666666]">…</span>}
+          {c.error && <span className="text-[var(--color-loss)]">!</span>}
+          <button
+            type="button"
+            onClick={() => onChange(symbols.filter((s) => s !== c.symbol))}
+            className="text-[#666666] hover:text-red-400 transition-colors"
+            title="Remove"
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+
+      {symbols.length < MAX_COMPARISONS && (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            add();
+          }}
+        >
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="SPY, XLK…"
+            className="w-24 bg-[#0a0a0a] border border-white/[0.08] px-1.5 py-0.5 font-ibm text-[11px] text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50"
+          />
+          <Button type="submit" variant="ghost" size="xs" disabled={!canAdd}>
+            Add
+          </Button>
+        </form>
+      )}
+
+      {comparisons.length > 0 && (
+        <div className="ml-auto flex items-center gap-1">
+          {MODES.map((m) => (
+            <Button
+              key={m.id}
+              variant={mode === m.id ? "primary" : "ghost"}
+              size="xs"
+              onClick={() => onModeChange(m.id)}
+              title={m.title}
+              className={mode === m.id ? "" : "border border-white/[0.08]"}
+            >
+              {m.label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,9 +7,10 @@ import { Message } from "./ui/Message";
 interface ConsensusPanelProps {
   consensus: ConsensusResult | null;
   loading: boolean;
+  structured?: boolean;
 }
 
-export default function ConsensusPanel({ consensus, loading }: ConsensusPanelProps) {
+export default function ConsensusPanel({ consensus, loading, structured = false }: ConsensusPanelProps) {
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center py-12 gap-3">
@@ -191,9 +192,11 @@ export default function ConsensusPanel({ consensus, loading }: ConsensusPanelPro
       {/* Info Message */}
       <Message variant="info">
         <div className="font-manrope text-xs">
-          <strong>How Consensus Works:</strong> This summary is generated by analyzing
-          keywords, patterns, and sentiment from each analyst's response. Agreement
-          percentage reflects how many analysts share the dominant view. Confidence score
+          <strong>How Consensus Works:</strong>{" "}
+          {structured
+            ? "This summary is built from the structured signals (sentiment, levels, targets) each analyst returned alongside their response."
+            : "This summary is generated by analyzing keywords, patterns, and sentiment from each analyst's response."}{" "}
+          Agreement percentage reflects how many analysts share the dominant view. Confidence score
           considers agreement level, common patterns, and signal alignment.
         </div>
       </Message>
@@ -0,0 +1,76 @@
+"use client";
+
+import type { DrawingTool } from "../lib/types";
+import { DRAWING_TOOLS, DRAWING_TOOL_TYPES } from "../lib/drawings";
+import { Button } from "./ui/Button";
+
+interface DrawingToolbarProps {
+  activeTool: DrawingTool | null;
+  onToolChange: (tool: DrawingTool | null) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  count: number;
+  onUndo: () => void;
+  onClear: () => void;
+}
+
+export default function DrawingToolbar({
+  activeTool,
+  onToolChange,
+  color,
+  onColorChange,
+  count,
+  onUndo,
+  onClear,
+}: DrawingToolbarProps) {
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="font-chakra text-xs font-bold text-[#a0a0a0] tracking-wider uppercase shrink-0">
+        Draw
+      </span>
+      {DRAWING_TOOL_TYPES.map((tool) => {
+        const isActive = activeTool === tool;
+        return (
+          <Button
+            key={tool}
+            variant={isActive ? "primary" : "ghost"}
+            size="xs"
+            onClick={() => onToolChange(isActive ? null : tool)}
+            title={DRAWING_TOOLS[tool].hint}
+            className={isActive ? "" : "border border-white/[0.08]"}
+          >
+            {DRAWING_TOOLS[tool].name}
+          </Button>
+        );
+      })}
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => onColorChange(e.target.value)}
+        className="w-5 h-5 shrink-0 bg-transparent border-0 p-0 cursor-pointer"
+        title="Colour of new drawings"
+      />
+      {count > 0 && (
+        <div className="ml-auto flex items-center gap-2">
+          <span className="font-manrope text-[10px] text-[#666666]">{count} saved</span>
+          <button
+            type="button"
+            onClick={onUndo}
+            className="font-manrope text-xs text-[#666666] hover:text-white transition-colors"
+            title="Remove the last drawing"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="font-manrope text-xs text-[#666666] hover:text-red-400 transition-colors"
+            title="Remove all drawings for this symbol"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MODELS, PROVIDERS, type ModelConfig } from '../lib/models';
+import {
+  loadReliabilitySettings,
+  saveReliabilitySettings,
+  MAX_RETRIES_LIMIT,
+  MAX_BASE_DELAY_MS,
+  DEFAULT_RELIABILITY_SETTINGS,
+  type ReliabilitySettings,
+} from '../lib/reliability';
+
+interface FallbackSettingsProps {
+  model: ModelConfig;  // Currently selected (primary) model
+}
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+function modelLabel(id: string): string {
+  const m = MODELS.find((model) => model.id === id);
+  return m ? `${m.name} (${PROVIDERS[m.provider].name})` : id;
+}
+
+export default function FallbackSettings({ model }: FallbackSettingsProps) {
+  const [settings, setSettings] = useState<ReliabilitySettings>(DEFAULT_RELIABILITY_SETTINGS);
+  const [pendingId, setPendingId] = useState('');
+
+  useEffect(() => {
+    setSettings(loadReliabilitySettings());
+  }, []);
+
+  const update = (patch: Partial<ReliabilitySettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveReliabilitySettings(next);
+  };
+
+  const chain = settings.fallbackModelIds;
+  const available = MODELS.filter((m) => m.id !== model.id && !chain.includes(m.id));
+
+  const addFallback = () => {
+    if (!pendingId) return;
+    update({ fallbackModelIds: [...chain, pendingId] });
+    setPendingId('');
+  };
+
+  const removeFallback = (id: string) => {
+    update({ fallbackModelIds: chain.filter((c) => c !== id) });
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    const next = [...chain];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    update({ fallbackModelIds: next });
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      {/* Retry policy */}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-500">Retries</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_RETRIES_LIMIT}
+            value={settings.maxRetries}
+            onChange={(e) =>
+              update({ maxRetries: Math.max(0, Math.min(MAX_RETRIES_LIMIT, parseInt(e.target.value) || 0)) })
+            }
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs text-gray-500">Base delay (ms)</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_BASE_DELAY_MS}
+            step={250}
+            value={settings.baseDelayMs}
+            onChange={(e) =>
+              update({ baseDelayMs: Math.max(0, Math.min(MAX_BASE_DELAY_MS, parseInt(e.target.value) || 0)) })
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Rate limits, server errors and network failures are retried with exponential
+        backoff. If the selected model still fails before responding, the fallbacks
+        below are tried in order. Fallbacks without a saved API key are skipped.
+      </p>
+
+      {/* Fallback chain */}
+      {chain.length > 0 ? (
+        <ol className="space-y-1">
+          {chain.map((id, i) => (
+            <li
+              key={id}
+              className="flex items-center justify-between rounded-md border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800/50 px-2 py-1.5 text-xs"
+            >
+              <span className="text-gray-800 dark:text-gray-200 truncate">
+                {i + 1}. {modelLabel(id)}
+              </span>
+              <span className="flex items-center gap-2 shrink-0 ml-2">
+                <button
+                  type="button"
+                  onClick={() => moveUp(i)}
+                  disabled={i === 0}
+                  className="text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeFallback(id)}
+                  className="text-red-500 hover:text-red-400"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-xs text-gray-500">No fallback models configured.</p>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={pendingId}
+          onChange={(e) => setPendingId(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Add fallback model…</option>
+          {available.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.name} ({PROVIDERS[m.provider].name})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addFallback}
+          disabled={!pendingId}
+          className="shrink-0 text-xs text-blue-500 hover:text-blue-400 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,97 +1,86 @@
 "use client";
 
 import { useState } from "react";
-import type { IndicatorConfig, IndicatorPreset } from "../lib/types";
+import type { IndicatorInstance, IndicatorPreset, IndicatorType } from "../lib/types";
+import {
+  INDICATOR_TYPES,
+  buildPreset,
+  createIndicator,
+  getIndicatorDefinition,
+  indicatorLabel,
+  matchesPreset,
+  resolveParams,
+} from "../lib/indicatorRegistry";
 import { Button } from "./ui/Button";
 
 interface IndicatorSelectorProps {
-  config: IndicatorConfig;
-  onChange: (config: IndicatorConfig) => void;
+  indicators: IndicatorInstance[];
+  onChange: (indicators: IndicatorInstance[]) => void;
   disabled?: boolean;
+  pickingId?: string | null;  // Instance whose time parameter is being picked on the chart
+  onPickTime?: (id: string | null) => void;
 }
 
-const EMPTY_CONFIG: IndicatorConfig = {
-  sma20: false,
-  sma50: false,
-  sma200: false,
-  ema12: false,
-  ema26: false,
-  bollingerBands: false,
-  rsi: false,
-  macd: false,
-};
-
-const PRESET_CONFIGS: Record<IndicatorPreset, IndicatorConfig> = {
-  trend: { ...EMPTY_CONFIG, sma20: true, sma50: true, sma200: true },
-  momentum: { ...EMPTY_CONFIG, rsi: true, macd: true },
-  volatility: { ...EMPTY_CONFIG, bollingerBands: true },
-  all: {
-    sma20: true,
-    sma50: true,
-    sma200: true,
-    ema12: true,
-    ema26: true,
-    bollingerBands: true,
-    rsi: true,
-    macd: true,
-  },
-  none: EMPTY_CONFIG,
-};
-
-interface IndicatorDef {
-  key: keyof IndicatorConfig;
-  label: string;
-  description: string;
-  color: string;
-}
-
-const OVERLAY_INDICATORS: IndicatorDef[] = [
-  { key: "sma20", label: "SMA 20", description: "Short-term trend", color: "#f59e0b" },
-  { key: "sma50", label: "SMA 50", description: "Medium-term trend", color: "#3b82f6" },
-  { key: "sma200", label: "SMA 200", description: "Long-term trend", color: "#a855f7" },
-  { key: "ema12", label: "EMA 12", description: "Fast exponential", color: "#06b6d4" },
-  { key: "ema26", label: "EMA 26", description: "Slow exponential", color: "#ec4899" },
-  { key: "bollingerBands", label: "Bollinger", description: "Volatility bands", color: "rgb(100,149,237)" },
-];
-
-const PANEL_INDICATORS: IndicatorDef[] = [
-  { key: "rsi", label: "RSI", description: "Overbought/oversold", color: "#f59e0b" },
-  { key: "macd", label: "MACD", description: "Momentum signal", color: "#3b82f6" },
-];
-
-const ALL_INDICATORS = [...OVERLAY_INDICATORS, ...PANEL_INDICATORS];
-
 const PRESETS: { id: IndicatorPreset; label: string }[] = [
   { id: "trend", label: "Trend" },
   { id: "momentum", label: "Momentum" },
   { id: "volatility", label: "Volatility" },
+  { id: "volume", label: "Volume" },
+  { id: "ichimoku", label: "Ichimoku" },
   { id: "all", label: "All" },
   { id: "none", label: "None" },
 ];
 
-function configMatchesPreset(config: IndicatorConfig, preset: IndicatorPreset): boolean {
-  const target = PRESET_CONFIGS[preset];
-  return (Object.keys(target) as (keyof IndicatorConfig)[]).every(
-    (key) => config[key] === target[key],
-  );
+function formatAnchor(seconds: number): string {
+  if (!seconds) return "First bar";
+  const iso = new Date(seconds * 1000).toISOString();
+  return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.slice(0, 16).replace("T", " ");
 }
 
+const numberInputClass =
+  "w-14 bg-[#0a0a0a] border border-white/[0.08] px-1.5 py-0.5 font-ibm text-[11px] text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50";
+
 export default function IndicatorSelector({
-  config,
+  indicators,
   onChange,
   disabled = false,
+  pickingId = null,
+  onPickTime,
 }: IndicatorSelectorProps) {
   const [expanded, setExpanded] = useState(false);
+  const [pendingType, setPendingType] = useState<IndicatorType | "">("");
 
-  const handleToggle = (key: keyof IndicatorConfig) => {
-    onChange({ ...config, [key]: !config[key] });
-  };
+  const subPanes = [...new Set(
+    indicators.filter((i) => getIndicatorDefinition(i.type).placement === "pane").map((i) => i.pane),
+  )].sort((a, b) => a - b);
+  const nextPane = (subPanes[subPanes.length - 1] ?? 0) + 1;
 
   const handlePreset = (preset: IndicatorPreset) => {
-    onChange(PRESET_CONFIGS[preset]);
+    onChange(buildPreset(preset));
+  };
+
+  const update = (id: string, patch: Partial<IndicatorInstance>) => {
+    onChange(indicators.map((i) => (i.id === id ? { ...i, ...patch } : i)));
   };
 
-  const activeCount = Object.values(config).filter(Boolean).length;
+  const updateParam = (indicator: IndicatorInstance, key: string, value: number) => {
+    if (!Number.isFinite(value)) return;
+    update(indicator.id, { params: resolveParams(indicator.type, { ...indicator.params, [key]: value }) });
+  };
+
+  const remove = (id: string) => {
+    onChange(indicators.filter((i) => i.id !== id));
+    if (pickingId === id) onPickTime?.(null);
+  };
+
+  const add = () => {
+    if (!pendingType) return;
+    // Oscillators get a pane of their own by default
+    onChange([...indicators, createIndicator(pendingType, { pane: nextPane })]);
+    setPendingType("");
+  };
+
+  const activeCount = indicators.length;
 
   return (
     <div className="space-y-2">
@@ -101,7 +90,7 @@ export default function IndicatorSelector({
           Indicators
         </span>
         {PRESETS.map((preset) => {
-          const isActive = configMatchesPreset(config, preset.id);
+          const isActive = matchesPreset(indicators, preset.id);
           return (
             <Button
               key={preset.id}
@@ -135,58 +124,127 @@ export default function IndicatorSelector({
       {/* Active indicator legend (compact colored dots) */}
       {activeCount > 0 && !expanded && (
         <div className="flex items-center gap-3 flex-wrap">
-          {ALL_INDICATORS.filter((ind) => config[ind.key]).map((ind) => (
-            <span key={ind.key} className="flex items-center gap-1.5 text-xs text-[#a0a0a0] font-ibm">
+          {indicators.map((ind) => (
+            <span key={ind.id} className="flex items-center gap-1.5 text-xs text-[#a0a0a0] font-ibm">
               <span
                 className="w-2 h-2 rounded-full shrink-0"
                 style={{ backgroundColor: ind.color }}
               />
-              {ind.label}
+              {indicatorLabel(ind)}
             </span>
           ))}
         </div>
       )}
 
-      {/* Expanded individual checkboxes */}
+      {/* Expanded editor: one row per instance */}
       {expanded && (
-        <div className="space-y-2 pt-1">
-          <div className="grid grid-cols-2 sm:grid-cols-3 gap-1.5">
-            {ALL_INDICATORS.map((ind) => {
-              const isChecked = config[ind.key];
-              return (
-                <label
-                  key={ind.key}
-                  className={`
-                    flex items-center gap-2 px-2.5 py-2 border cursor-pointer transition-all duration-200
-                    ${isChecked
-                      ? "border-[var(--color-accent-cyan)]/50 bg-[var(--color-accent-cyan)]/5"
-                      : "border-white/[0.06] bg-[#111] hover:border-white/[0.12]"
-                    }
-                    ${disabled ? "opacity-50 cursor-not-allowed" : ""}
-                  `}
-                >
-                  <input
-                    type="checkbox"
-                    checked={isChecked}
-                    onChange={() => handleToggle(ind.key)}
-                    disabled={disabled}
-                    className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)] cursor-pointer"
-                  />
-                  <span
-                    className="w-2 h-2 rounded-full shrink-0"
-                    style={{ backgroundColor: ind.color }}
-                  />
-                  <div className="min-w-0">
-                    <span className="font-chakra text-xs text-white font-medium">
-                      {ind.label}
-                    </span>
-                    <span className="font-manrope text-[10px] text-[#666666] ml-1.5 hidden sm:inline">
-                      {ind.description}
+        <div className="space-y-1.5 pt-1">
+          {indicators.map((ind) => {
+            const def = getIndicatorDefinition(ind.type);
+            return (
+              <div
+                key={ind.id}
+                className={`flex items-center gap-2 flex-wrap px-2.5 py-2 border border-white/[0.06] bg-[#111] ${disabled ? "opacity-50" : ""}`}
+              >
+                <input
+                  type="color"
+                  value={ind.color}
+                  onChange={(e) => update(ind.id, { color: e.target.value })}
+                  disabled={disabled}
+                  className="w-5 h-5 shrink-0 bg-transparent border-0 p-0 cursor-pointer"
+                  title="Colour"
+                />
+                <span className="font-chakra text-xs text-white font-medium w-20 shrink-0">
+                  {def.name}
+                </span>
+
+                {def.params.map((param) => param.kind === "time" ? (
+                  <span key={param.key} className="flex items-center gap-1">
+                    <span className="font-manrope text-[10px] text-[#666666]">{param.label}</span>
+                    <span className="font-ibm text-[11px] text-white">
+                      {formatAnchor(ind.params[param.key] ?? param.default)}
                     </span>
-                  </div>
-                </label>
-              );
-            })}
+                    {onPickTime && (
+                      <button
+                        type="button"
+                        onClick={() => onPickTime(pickingId === ind.id ? null : ind.id)}
+                        disabled={disabled}
+                        className={`font-manrope text-[10px] transition-colors ${
+                          pickingId === ind.id ? "text-[var(--color-accent-cyan)]" : "text-[#666666] hover:text-white"
+                        }`}
+                      >
+                        {pickingId === ind.id ? "Picking…" : "Pick bar"}
+                      </button>
+                    )}
+                  </span>
+                ) : (
+                  <label key={param.key} className="flex items-center gap-1">
+                    <span className="font-manrope text-[10px] text-[#666666]">{param.label}</span>
+                    <input
+                      type="number"
+                      min={param.min}
+                      max={param.max}
+                      step={param.step ?? 1}
+                      value={ind.params[param.key] ?? param.default}
+                      onChange={(e) => updateParam(ind, param.key, parseFloat(e.target.value))}
+                      disabled={disabled}
+                      className={numberInputClass}
+                    />
+                  </label>
+                ))}
+
+                {def.placement === "pane" && (
+                  <label className="flex items-center gap-1">
+                    <span className="font-manrope text-[10px] text-[#666666]">Pane</span>
+                    <select
+                      value={ind.pane}
+                      onChange={(e) => update(ind.id, { pane: parseInt(e.target.value) })}
+                      disabled={disabled}
+                      className={numberInputClass}
+                    >
+                      {[...new Set([...subPanes, nextPane])].map((pane, i) => (
+                        <option key={pane} value={pane}>
+                          {pane === nextPane && !subPanes.includes(pane) ? "New" : i + 1}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => remove(ind.id)}
+                  disabled={disabled}
+                  className="ml-auto text-xs text-[#666666] hover:text-red-400 transition-colors"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+
+          {/* Add another instance of any indicator */}
+          <div className="flex items-center gap-2">
+            <select
+              value={pendingType}
+              onChange={(e) => setPendingType(e.target.value as IndicatorType | "")}
+              disabled={disabled}
+              className="flex-1 bg-[#111] border border-white/[0.08] px-2 py-1.5 font-manrope text-xs text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50"
+            >
+              <option value="">Add indicator…</option>
+              {INDICATOR_TYPES.map((type) => {
+                const def = getIndicatorDefinition(type);
+                return (
+                  <option key={type} value={type}>
+                    {def.name} — {def.description}
+                  </option>
+                );
+              })}
+            </select>
+            <Button variant="ghost" size="xs" onClick={add} disabled={disabled || !pendingType}>
+              Add
+            </Button>
           </div>
         </div>
       )}
@@ -7,10 +7,19 @@ import {
   DEFAULT_MODEL_ID,
   getModel,
   getStorageKey,
+  buildCustomModel,
+  requiresApiKey,
+  CUSTOM_BASE_URL_STORAGE_KEY,
+  CUSTOM_MODEL_ID_STORAGE_KEY,
+  DEFAULT_CUSTOM_BASE_URL,
   type ModelConfig,
   type Provider,
 } from '../lib/models';
 import { DEFAULT_SYSTEM_PROMPT } from '../lib/formatData';
+import SpendHistory from './SpendHistory';
+import { useKeyVault } from '../hooks/useKeyVault';
+import { hasCredentials } from '../lib/keyVault';
+import FallbackSettings from './FallbackSettings';
 
 interface ModelSettingsProps {
   onSettingsChange: (model: ModelConfig, apiKey: string, systemPrompt: string, fmpApiKey: string) => void;
@@ -22,9 +31,15 @@ interface UsageInfo {
   limit?: number | null;
   rateLimit?: string | null;
   keyValid?: boolean;
+  models?: string[];
   error?: string;
 }
 
+function resolveModel(id: string, customBaseUrl: string, customModelId: string): ModelConfig {
+  const m = getModel(id);
+  return m.provider === 'custom' ? buildCustomModel(customBaseUrl, customModelId) : m;
+}
+
 export default function ModelSettings({ onSettingsChange }: ModelSettingsProps) {
   const [modelId, setModelId] = useState(DEFAULT_MODEL_ID);
   const [apiKey, setApiKey] = useState('');
@@ -36,23 +51,38 @@ export default function ModelSettings({ onSettingsChange }: ModelSettingsProps)
   const [promptExpanded, setPromptExpanded] = useState(false);
   const [customPrompt, setCustomPrompt] = useState(DEFAULT_SYSTEM_PROMPT);
   const [promptDirty, setPromptDirty] = useState(false);
+  const [historyExpanded, setHistoryExpanded] = useState(false);
+  const [fallbackExpanded, setFallbackExpanded] = useState(false);
+  const [customBaseUrl, setCustomBaseUrl] = useState(DEFAULT_CUSTOM_BASE_URL);
+  const [customModelId, setCustomModelId] = useState('');
 
-  const model = getModel(modelId);
+  const vault = useKeyVault();
+  const model = resolveModel(modelId, customBaseUrl, customModelId);
+  const isCustom = model.provider === 'custom';
   const provider = PROVIDERS[model.provider];
   const customPromptRef = useRef(customPrompt);
   const fmpKeyRef = useRef(fmpKey);
+  const vaultRef = useRef(vault);
   useEffect(() => { customPromptRef.current = customPrompt; }, [customPrompt]);
   useEffect(() => { fmpKeyRef.current = fmpKey; }, [fmpKey]);
 
+  // In key vault mode the server holds every key; never pass browser keys on
   const notifyParent = useCallback(
     (m: ModelConfig, key: string, prompt?: string, fmp?: string) => {
-      onSettingsChange(m, key, prompt ?? customPromptRef.current, fmp ?? fmpKeyRef.current);
+      const serverKeys = vaultRef.current.enabled;
+      onSettingsChange(
+        m,
+        serverKeys ? '' : key,
+        prompt ?? customPromptRef.current,
+        serverKeys ? '' : fmp ?? fmpKeyRef.current,
+      );
     },
     [onSettingsChange]
   );
 
-  const fetchUsage = useCallback(async (providerName: string, key: string) => {
-    if (!key) {
+  const fetchUsage = useCallback(async (m: ModelConfig, key: string) => {
+    const serverKeys = vaultRef.current.enabled;
+    if (!serverKeys && !key && requiresApiKey(m.provider)) {
       setUsage(null);
       return;
     }
@@ -61,7 +91,7 @@ export default function ModelSettings({ onSettingsChange }: ModelSettingsProps)
       const res = await fetch('/api/usage', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ provider: providerName, apiKey: key }),
+        body: JSON.stringify({ provider: m.provider, apiKey: serverKeys ? '' : key, baseUrl: m.baseUrl }),
       });
       const data = await res.json();
       if (!res.ok) {
@@ -79,7 +109,11 @@ export default function ModelSettings({ onSettingsChange }: ModelSettingsProps)
   useEffect(() => {
     const savedModelId = localStorage.getItem('llm-selected-model') || DEFAULT_MODEL_ID;
     setModelId(savedModelId);
-    const m = getModel(savedModelId);
+    const savedBaseUrl = localStorage.getItem(CUSTOM_BASE_URL_STORAGE_KEY) || DEFAULT_CUSTOM_BASE_URL;
+    const savedCustomModelId = localStorage.getItem(CUSTOM_MODEL_ID_STORAGE_KEY) || '';
+    setCustomBaseUrl(savedBaseUrl);
+    setCustomModelId(savedCustomModelId);
+    const m = resolveModel(savedModelId, savedBaseUrl, savedCustomModelId);
     const savedKey = localStorage.getItem(getStorageKey(m.provider)) || '';
     setApiKey(savedKey);
     const savedPrompt = localStorage.getItem('llm-system-prompt') || DEFAULT_SYSTEM_PROMPT;
@@ -87,19 +121,38 @@ export default function ModelSettings({ onSettingsChange }: ModelSettingsProps)
     const savedFmpKey = localStorage.getItem('fmp-api-key') || '';
     setFmpKey(savedFmpKey);
     notifyParent(m, savedKey, savedPrompt, savedFmpKey);
-    if (savedKey) fetchUsage(m.provider, savedKey);
+    if (savedKey) fetchUsage(m, savedKey);
   }, [notifyParent, fetchUsage]);
 
+  // Re-announce settings once the vault status is known
+  useEffect(() => {
+    vaultRef.current = vault;
+    if (vault.enabled) notifyParent(resolveModel(modelId, customBaseUrl, customModelId), '');
+  }, [vault, notifyParent, modelId, customBaseUrl, customModelId]);
+
   const handleModelChange = (newModelId: string) => {
     setModelId(newModelId);
     localStorage.setItem('llm-selected-model', newModelId);
-    const m = getModel(newModelId);
+    const m = resolveModel(newModelId, customBaseUrl, customModelId);
     const savedKey = localStorage.getItem(getStorageKey(m.provider)) || '';
     setApiKey(savedKey);
     setVisible(false);
     setUsage(null);
     notifyParent(m, savedKey);
-    if (savedKey) fetchUsage(m.provider, savedKey);
+    if (savedKey) fetchUsage(m, savedKey);
+  };
+
+  const handleCustomBaseUrlChange = (value: string) => {
+    setCustomBaseUrl(value);
+    localStorage.setItem(CUSTOM_BASE_URL_STORAGE_KEY, value);
+    setUsage(null);
+    notifyParent(buildCustomModel(value, customModelId), apiKey);
+  };
+
+  const handleCustomModelIdChange = (value: string) => {
+    setCustomModelId(value);
+    localStorage.setItem(CUSTOM_MODEL_ID_STORAGE_KEY, value);
+    notifyParent(buildCustomModel(customBaseUrl, value), apiKey);
   };
 
   const handleKeyChange = (value: string) => {
@@ -110,9 +163,11 @@ export default function ModelSettings({ onSettingsChange }: ModelSettingsProps)
   };
 
   const handleCheckUsage = () => {
-    if (apiKey) fetchUsage(model.provider, apiKey);
+    if (apiKey || isCustom || vault.enabled) fetchUsage(model, apiKey);
   };
 
+  const serverHasKey = hasCredentials(model, '', vault);
+
   const handleFmpKeyChange = (value: string) => {
     setFmpKey(value);
     localStorage.setItem('fmp-api-key', value);
@@ -172,71 +227,185 @@ export default function ModelSettings({ onSettingsChange }: ModelSettingsProps)
         </select>
       </div>
 
-      <div>
-        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-          {provider.name} API Key
-        </label>
-        <div className="flex gap-2">
-          <input
-            type={visible ? 'text' : 'password'}
-            value={apiKey}
-            onChange={(e) => handleKeyChange(e.target.value)}
-            placeholder={provider.placeholder}
-            className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-          />
-          <button
-            type="button"
-            onClick={() => setVisible(!visible)}
-            className="shrink-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-          >
-            {visible ? 'Hide' : 'Show'}
-          </button>
+      {isCustom && (
+        <div className="space-y-3">
+          {!vault.enabled && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Base URL
+              </label>
+              <input
+                type="url"
+                value={customBaseUrl}
+                onChange={(e) => handleCustomBaseUrlChange(e.target.value)}
+                placeholder={DEFAULT_CUSTOM_BASE_URL}
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <p className="mt-1.5 text-xs text-gray-500">
+                OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM)
+              </p>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Model ID
+            </label>
+            <input
+              type="text"
+              value={customModelId}
+              onChange={(e) => handleCustomModelIdChange(e.target.value)}
+              placeholder="e.g. llama3.1:8b"
+              list="custom-model-options"
+              className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <datalist id="custom-model-options">
+              {usage?.models?.map((id) => <option key={id} value={id} />)}
+            </datalist>
+          </div>
         </div>
-        <div className="mt-1.5 flex items-center justify-between">
-          <p className="text-xs text-gray-500">
-            {apiKey ? 'Key saved to browser' : `Get a key at ${provider.url}`}
+      )}
+
+      {vault.enabled ? (
+        <div className="rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 space-y-1">
+          <p className="text-xs text-gray-700 dark:text-gray-300">
+            {serverHasKey
+              ? `${provider.name} is configured on the server`
+              : isCustom
+                ? 'No custom model endpoint is configured on the server'
+                : `No ${provider.name} key is configured on the server`}
           </p>
-          {apiKey && (
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">API keys are managed by the server</p>
+            {serverHasKey && (
+              <button
+                type="button"
+                onClick={handleCheckUsage}
+                disabled={usageLoading}
+                className="text-xs text-blue-500 hover:text-blue-400 disabled:opacity-50"
+              >
+                {usageLoading ? 'Checking...' : isCustom ? 'Test connection' : 'Check usage'}
+              </button>
+            )}
+          </div>
+          {vault.error && <p className="text-xs text-red-500">{vault.error}</p>}
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {provider.name} API Key{isCustom ? ' (optional)' : ''}
+          </label>
+          <div className="flex gap-2">
+            <input
+              type={visible ? 'text' : 'password'}
+              value={apiKey}
+              onChange={(e) => handleKeyChange(e.target.value)}
+              placeholder={provider.placeholder}
+              className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
             <button
               type="button"
-              onClick={handleCheckUsage}
-              disabled={usageLoading}
-              className="text-xs text-blue-500 hover:text-blue-400 disabled:opacity-50"
+              onClick={() => setVisible(!visible)}
+              className="shrink-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
             >
-              {usageLoading ? 'Checking...' : 'Check usage'}
+              {visible ? 'Hide' : 'Show'}
             </button>
-          )}
+          </div>
+          <div className="mt-1.5 flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              {apiKey
+                ? 'Key saved to browser'
+                : isCustom
+                  ? 'Leave empty if your server needs no key'
+                  : `Get a key at ${provider.url}`}
+            </p>
+            {(apiKey || (isCustom && customBaseUrl)) && (
+              <button
+                type="button"
+                onClick={handleCheckUsage}
+                disabled={usageLoading}
+                className="text-xs text-blue-500 hover:text-blue-400 disabled:opacity-50"
+              >
+                {usageLoading ? 'Checking...' : isCustom ? 'Test connection' : 'Check usage'}
+              </button>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {usage && (
         <UsageDisplay info={usage} providerName={model.provider} />
       )}
 
       {/* FMP API Key */}
-      <div>
-        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-          Financial Modeling Prep API Key
-        </label>
-        <div className="flex gap-2">
-          <input
-            type={fmpVisible ? 'text' : 'password'}
-            value={fmpKey}
-            onChange={(e) => handleFmpKeyChange(e.target.value)}
-            placeholder="Your FMP API key"
-            className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-          />
-          <button
-            type="button"
-            onClick={() => setFmpVisible(!fmpVisible)}
-            className="shrink-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-          >
-            {fmpVisible ? 'Hide' : 'Show'}
-          </button>
-        </div>
-        <p className="mt-1.5 text-xs text-gray-500">
-          {fmpKey ? 'Key saved to browser' : 'Free key at financialmodelingprep.com — used for fundamental data'}
+      {vault.enabled ? (
+        <p className="text-xs text-gray-500">
+          {vault.fmp
+            ? 'Fundamental data via Financial Modeling Prep (server key)'
+            : 'Fundamental data via Yahoo Finance'}
         </p>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Financial Modeling Prep API Key
+          </label>
+          <div className="flex gap-2">
+            <input
+              type={fmpVisible ? 'text' : 'password'}
+              value={fmpKey}
+              onChange={(e) => handleFmpKeyChange(e.target.value)}
+              placeholder="Your FMP API key"
+              className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => setFmpVisible(!fmpVisible)}
+              className="shrink-0 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              {fmpVisible ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          <p className="mt-1.5 text-xs text-gray-500">
+            {fmpKey ? 'Key saved to browser' : 'Free key at financialmodelingprep.com — used for fundamental data'}
+          </p>
+        </div>
+      )}
+
+      {/* Retries & Fallbacks */}
+      <div className="border-t border-gray-200 dark:border-gray-800 pt-3">
+        <button
+          type="button"
+          onClick={() => setFallbackExpanded(!fallbackExpanded)}
+          className="flex items-center justify-between w-full text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          <span>Retries &amp; Fallbacks</span>
+          <svg
+            className={`h-4 w-4 transition-transform ${fallbackExpanded ? 'rotate-180' : ''}`}
+            fill="none" viewBox="0 0 24 24" stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+
+        {fallbackExpanded && <FallbackSettings model={model} />}
+      </div>
+
+      {/* Usage History & Budgets */}
+      <div className="border-t border-gray-200 dark:border-gray-800 pt-3">
+        <button
+          type="button"
+          onClick={() => setHistoryExpanded(!historyExpanded)}
+          className="flex items-center justify-between w-full text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          <span>Usage History &amp; Budgets</span>
+          <svg
+            className={`h-4 w-4 transition-transform ${historyExpanded ? 'rotate-180' : ''}`}
+            fill="none" viewBox="0 0 24 24" stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+
+        {historyExpanded && <SpendHistory provider={model.provider} />}
       </div>
 
       {/* System Prompt */}
@@ -336,6 +505,14 @@ function UsageDisplay({ info, providerName }: { info: UsageInfo; providerName: s
     );
   }
 
+  if (info.keyValid && providerName === 'custom') {
+    return (
+      <div className="rounded-md border border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 px-3 py-2 text-xs text-green-600 dark:text-green-400">
+        Connected &mdash; {info.models?.length ?? 0} model{info.models?.length === 1 ? '' : 's'} available
+      </div>
+    );
+  }
+
   if (info.keyValid) {
     return (
       <div className="rounded-md border border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/20 px-3 py-2 text-xs text-green-600 dark:text-green-400">
@@ -1,11 +1,30 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import type { ModelConfig } from "../lib/models";
-import type { CandleData, FundamentalsData, AnalystId, ConsensusResult } from "../lib/types";
+import {
+  requiresApiKey,
+  isModelConfigured,
+  supportsTools,
+  supportsVision,
+  type ModelConfig,
+} from "../lib/models";
+import { hasCredentials } from "../lib/keyVault";
+import { useKeyVault } from "../hooks/useKeyVault";
+import type { AnalystRun, CandleData, ComparisonSeries, FundamentalsData, PromptWindow, TimeframeData, AnalystId, ConsensusResult, ExtractedSignals, TokenUsage } from "../lib/types";
 import { DEFAULT_ANALYSTS, getAnalyst } from "../lib/analystPrompts";
 import { useMultiAnalystAnalysis } from "../hooks/useMultiAnalystAnalysis";
-import { extractSignalsFromText, calculateConsensus } from "../lib/consensusAnalysis";
+import { signalsForAnalysis, calculateConsensus } from "../lib/consensusAnalysis";
+import { buildInitialUserMessage } from "../lib/formatData";
+import { loadDrawings } from "../lib/drawings";
+import { loadPromptWindow, savePromptWindow, promptTokenBudget, PROMPT_CANDLE_OPTIONS } from "../lib/promptWindow";
+import {
+  estimateAnalystRun,
+  calculateCost,
+  addUsage,
+  formatCost,
+  type RunCostEstimate,
+} from "../lib/tokenEstimator";
+import { checkBudget, type BudgetCheck } from "../lib/spendLedger";
 import AnalystSelector from "./AnalystSelector";
 import AnalystResultSection from "./AnalystResultSection";
 import ConsensusPanel from "./ConsensusPanel";
@@ -19,6 +38,11 @@ interface MultiAnalystPanelProps {
   fundamentals: FundamentalsData | null;
   model: ModelConfig | null;
   apiKey: string;
+  takeChartSnapshot?: () => string | null;  // PNG data URL of the chart, when it is rendered
+  comparisons?: ComparisonSeries[];  // Symbols compared on the chart
+  timeframes?: TimeframeData[];  // Multi-timeframe bundle, including the chart timeframe
+  onSignalsChange?: (signals: ExtractedSignals[], run: AnalystRun | null) => void;  // Signals of the completed analyses, and the run they came from
+  replay?: boolean;  // Chart replay: `candles` end at the replay cut-off
 }
 
 export default function MultiAnalystPanel({
@@ -27,6 +51,11 @@ export default function MultiAnalystPanel({
   fundamentals,
   model,
   apiKey,
+  takeChartSnapshot,
+  comparisons = [],
+  timeframes = [],
+  onSignalsChange,
+  replay = false,
 }: MultiAnalystPanelProps) {
   // Load selected analysts from localStorage
   const [selectedAnalysts, setSelectedAnalysts] = useState<Set<AnalystId>>(() => {
@@ -43,11 +72,45 @@ export default function MultiAnalystPanel({
     return new Set(DEFAULT_ANALYSTS);
   });
 
+  // Structured mode: analysts return a validated signals block for consensus
+  const [structuredMode, setStructuredMode] = useState<boolean>(() => {
+    if (typeof window === "undefined") return true;
+    return localStorage.getItem("llm-structured-signals") !== "false";
+  });
+
+  // Data tools: analysts may fetch more candles, indicators or fundamentals mid-analysis
+  const [toolsMode, setToolsMode] = useState<boolean>(() => {
+    if (typeof window === "undefined") return false;
+    return localStorage.getItem("llm-analyst-tools") === "true";
+  });
+
+  // Vision mode: attach a snapshot of the chart to the initial message
+  const [visionMode, setVisionMode] = useState<boolean>(() => {
+    if (typeof window === "undefined") return false;
+    return localStorage.getItem("llm-analyst-vision") === "true";
+  });
+
+  // Drawings mode: describe the user's chart drawings for this symbol in the prompt
+  const [drawingsMode, setDrawingsMode] = useState<boolean>(() => {
+    if (typeof window === "undefined") return false;
+    return localStorage.getItem("llm-analyst-drawings") === "true";
+  });
+
+  // How many candles the prompt lists, and whether older ones are summarized
+  const [promptWindow, setPromptWindow] = useState<PromptWindow>(loadPromptWindow);
+
+  // The current run; its cut-off places replay calls on the bar the analysts saw
+  const [run, setRun] = useState<AnalystRun | null>(null);
+
   // Active tab (consensus or specific analyst ID)
   const [activeTab, setActiveTab] = useState<"consensus" | AnalystId>("consensus");
 
-  // Token warning modal
+  // Token warning modal + the estimate for the current run
   const [showTokenWarning, setShowTokenWarning] = useState(false);
+  const [runEstimate, setRunEstimate] = useState<RunCostEstimate | null>(null);
+  const [budgetCheck, setBudgetCheck] = useState<BudgetCheck | null>(null);
+  // Follow-up waiting on the budget warning; null when the warning is for a new run
+  const [pendingFollowUp, setPendingFollowUp] = useState<AnalystId | null>(null);
 
   // Multi-analyst analysis hook
   const {
@@ -55,6 +118,8 @@ export default function MultiAnalystPanel({
     isAnalyzing,
     analyzeMultiple,
     followUp,
+    cancel,
+    cancelAll,
     reset,
     getAnalysis,
     isAnyLoading,
@@ -69,32 +134,94 @@ export default function MultiAnalystPanel({
     localStorage.setItem("llm-selected-analysts", JSON.stringify(Array.from(selectedAnalysts)));
   }, [selectedAnalysts]);
 
-  // Calculate consensus from completed analyses
-  const consensus: ConsensusResult | null = useMemo(() => {
-    const completedAnalyses = getCompletedAnalyses();
-    if (completedAnalyses.length < 2) return null;
+  useEffect(() => {
+    localStorage.setItem("llm-structured-signals", String(structuredMode));
+  }, [structuredMode]);
 
-    // Extract signals from each analyst's response
-    const signals = completedAnalyses.map((analysis) => {
-      // Get the assistant's last message
-      const assistantMessages = analysis.messages.filter((m) => m.role === "assistant");
-      const lastMessage = assistantMessages[assistantMessages.length - 1];
-      const text = lastMessage?.content || "";
+  useEffect(() => {
+    localStorage.setItem("llm-analyst-tools", String(toolsMode));
+  }, [toolsMode]);
 
-      return extractSignalsFromText(analysis.analystId, text);
-    });
+  useEffect(() => {
+    localStorage.setItem("llm-analyst-vision", String(visionMode));
+  }, [visionMode]);
+
+  useEffect(() => {
+    localStorage.setItem("llm-analyst-drawings", String(drawingsMode));
+  }, [drawingsMode]);
+
+  useEffect(() => {
+    savePromptWindow(promptWindow);
+  }, [promptWindow]);
+
+  // Signals of completed analyses: structured when available, keyword-extracted otherwise.
+  // `analyses` changes on every streamed chunk, so they are keyed by their content and
+  // only become a new array when an analysis completes or its signals change
+  const signalsKey = JSON.stringify(getCompletedAnalyses().map(signalsForAnalysis));
+  const completedSignals = useMemo(() => JSON.parse(signalsKey) as ExtractedSignals[], [signalsKey]);
 
-    return calculateConsensus(signals);
+  // Share them with the chart, which can plot each analyst's levels
+  useEffect(() => {
+    onSignalsChange?.(completedSignals, run);
+  }, [completedSignals, run, onSignalsChange]);
+
+  // Calculate consensus from completed analyses
+  const consensus: ConsensusResult | null = useMemo(
+    () => (completedSignals.length < 2 ? null : calculateConsensus(completedSignals)),
+    [completedSignals],
+  );
+
+  // Whether every analyst in the consensus provided structured signals
+  const consensusIsStructured = useMemo(() => {
+    const completedAnalyses = getCompletedAnalyses();
+    return completedAnalyses.length > 0 && completedAnalyses.every((a) => !!a.signals);
   }, [getCompletedAnalyses]);
 
+  // Model is usable: configured, and has a key unless it is self-hosted
+  const vault = useKeyVault();
+  const modelReady = !!model && isModelConfigured(model) && hasCredentials(model, apiKey, vault);
+  const modelSupportsTools = !!model && supportsTools(model);
+  const modelSupportsVision = !!model && supportsVision(model);
+  const attachChart = visionMode && modelSupportsVision && !!takeChartSnapshot;
+
+  // Extra context for the initial message. A replay leaves out everything that
+  // could reveal bars after the cut-off: fundamentals, other symbols and timeframes,
+  // drawings and data tools
+  const runFundamentals = replay ? null : fundamentals;
+  const runTools = toolsMode && modelSupportsTools && !replay;
+  const promptContext = () => ({
+    ...(!replay && {
+      comparisons,
+      timeframes,
+      drawings: drawingsMode ? loadDrawings(symbol) : [],
+    }),
+    window: promptWindow,
+    tokenBudget: model ? promptTokenBudget(model) : undefined,
+  });
+
   // Handle analyze button click
   const handleAnalyze = () => {
-    if (!model || !apiKey || selectedAnalysts.size === 0 || candles.length === 0) {
+    if (!model || !modelReady || selectedAnalysts.size === 0 || candles.length === 0) {
       return;
     }
 
+    const estimate = estimateAnalystRun(
+      model,
+      Array.from(selectedAnalysts),
+      buildInitialUserMessage(symbol, candles, runFundamentals, promptContext()),
+      structuredMode,
+      attachChart ? 1 : 0,
+    );
+    setRunEstimate(estimate);
+
+    // Budget caps: blocked runs never start, warnings always go through the dialog
+    const budget = checkBudget(model.provider, estimate.totalCost);
+    setBudgetCheck(budget);
+    if (budget.status === "block") return;
+
     // Show token warning for multi-analyst (2+) if not dismissed
-    if (selectedAnalysts.size >= 2 && shouldShowTokenWarning()) {
+    if (budget.status === "warn" || (selectedAnalysts.size >= 2 && shouldShowTokenWarning())) {
+      setPendingFollowUp(null);
       setShowTokenWarning(true);
       return;
     }
@@ -104,11 +231,32 @@ export default function MultiAnalystPanel({
 
   // Start the actual analysis
   const startAnalysis = () => {
-    if (!model || !apiKey) return;
+    if (!model || !modelReady) return;
 
     reset();
+    const startedAt = Math.floor(Date.now() / 1000);
+    setRun({
+      id: `${symbol}-${startedAt}-${Math.random().toString(36).slice(2, 6)}`,
+      symbol,
+      model: model.name,
+      startedAt,
+      cutoff: candles.at(-1)?.time ?? null,
+      replay: !!replay,
+    });
     const analystIds = Array.from(selectedAnalysts);
-    analyzeMultiple(analystIds, model, apiKey, symbol, candles, fundamentals);
+    const chartImage = attachChart ? takeChartSnapshot() : null;
+    analyzeMultiple(
+      analystIds,
+      model,
+      apiKey,
+      symbol,
+      candles,
+      runFundamentals,
+      structuredMode,
+      runTools,
+      chartImage,
+      promptContext(),
+    );
 
     // Set active tab to first analyst or consensus
     if (selectedAnalysts.size >= 2) {
@@ -118,12 +266,36 @@ export default function MultiAnalystPanel({
     }
   };
 
-  // Handle follow-up for specific analyst
+  // Handle follow-up for specific analyst; the whole conversation is sent again, so it
+  // is estimated and checked against the budgets like a new run
   const handleFollowUp = (analystId: AnalystId) => {
     const input = followUpInputs.get(analystId);
-    if (!input || !input.trim() || !model || !apiKey) return;
+    if (!input || !input.trim() || !model || !modelReady) return;
+
+    const messages = getAnalysis(analystId)?.messages ?? [];
+    const conversation = [...messages.map((m) => m.content), input.trim()].join("\n\n");
+    const images = messages.reduce((sum, m) => sum + (m.images?.length ?? 0), 0);
+    const estimate = estimateAnalystRun(model, [analystId], conversation, structuredMode, images);
+    setRunEstimate(estimate);
+
+    const budget = checkBudget(model.provider, estimate.totalCost);
+    setBudgetCheck(budget);
+    if (budget.status === "block") return;
+    if (budget.status === "warn") {
+      setPendingFollowUp(analystId);
+      setShowTokenWarning(true);
+      return;
+    }
+
+    sendFollowUp(analystId);
+  };
 
-    followUp(analystId, model, apiKey, input.trim());
+  const sendFollowUp = (analystId: AnalystId) => {
+    const input = followUpInputs.get(analystId);
+    if (!input || !input.trim() || !model || !modelReady) return;
+
+    // Data tools could read past the cut-off of a run started in replay, even once it has ended
+    followUp(analystId, model, apiKey, input.trim(), runTools && !run?.replay);
 
     // Clear input
     setFollowUpInputs((prev) => {
@@ -154,7 +326,16 @@ export default function MultiAnalystPanel({
   }, [analyses]);
 
   // Check if we can analyze
-  const canAnalyze = model && apiKey && selectedAnalysts.size > 0 && candles.length > 0 && !isAnalyzing;
+  const canAnalyze = modelReady && selectedAnalysts.size > 0 && candles.length > 0 && !isAnalyzing;
+
+  // Actual provider-reported usage across the run (initial analyses + follow-ups)
+  const runUsage = useMemo(() => {
+    let total: TokenUsage | null = null;
+    for (const analysis of analyses.values()) {
+      total = addUsage(total, analysis.usage);
+    }
+    return total;
+  }, [analyses]);
 
   const hasAnalyses = analyses.size > 0;
   const showConsensusTab = selectedAnalysts.size >= 2;
@@ -181,19 +362,113 @@ export default function MultiAnalystPanel({
         />
       </div>
 
+      {/* Structured mode toggle */}
+      <label className="mb-3 shrink-0 flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={structuredMode}
+          onChange={(e) => setStructuredMode(e.target.checked)}
+          disabled={isAnalyzing}
+          className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)]"
+        />
+        <span className="font-manrope text-xs text-[#a0a0a0]">
+          Structured signals (JSON levels & sentiment for consensus)
+        </span>
+      </label>
+
+      {/* Data tools toggle */}
+      <label className="mb-3 shrink-0 flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={toolsMode && modelSupportsTools}
+          onChange={(e) => setToolsMode(e.target.checked)}
+          disabled={isAnalyzing || !modelSupportsTools}
+          className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)]"
+        />
+        <span className="font-manrope text-xs text-[#a0a0a0]">
+          {modelSupportsTools
+            ? "Data tools (analysts may fetch other timeframes, symbols, indicators & fundamentals)"
+            : "Data tools are not available for this model"}
+        </span>
+      </label>
+
+      {/* Vision mode toggle */}
+      <label className="mb-3 shrink-0 flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={visionMode && modelSupportsVision}
+          onChange={(e) => setVisionMode(e.target.checked)}
+          disabled={isAnalyzing || !modelSupportsVision}
+          className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)]"
+        />
+        <span className="font-manrope text-xs text-[#a0a0a0]">
+          {modelSupportsVision
+            ? "Chart image (send a snapshot of the chart & indicators for pattern reading)"
+            : "Chart images are not supported by this model"}
+        </span>
+      </label>
+
+      {/* Drawings toggle */}
+      <label className="mb-3 shrink-0 flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={drawingsMode}
+          onChange={(e) => setDrawingsMode(e.target.checked)}
+          disabled={isAnalyzing}
+          className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)]"
+        />
+        <span className="font-manrope text-xs text-[#a0a0a0]">
+          My drawings (describe your trend lines, levels & zones so you can ask about them)
+        </span>
+      </label>
+
+      {/* Prompt window */}
+      <div className="mb-3 shrink-0 flex items-center gap-2 flex-wrap">
+        <span className="font-manrope text-xs text-[#a0a0a0]">Candles in prompt</span>
+        <select
+          value={promptWindow.candles}
+          onChange={(e) => setPromptWindow((w) => ({ ...w, candles: parseInt(e.target.value) }))}
+          disabled={isAnalyzing}
+          className="bg-[#111] border border-white/[0.08] px-2 py-1 font-manrope text-xs text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50"
+        >
+          {PROMPT_CANDLE_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={promptWindow.compress}
+            onChange={(e) => setPromptWindow((w) => ({ ...w, compress: e.target.checked }))}
+            disabled={isAnalyzing}
+            className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)]"
+          />
+          <span className="font-manrope text-xs text-[#a0a0a0]">
+            Compress older history (weekly/monthly bars, swings, 52-week range)
+          </span>
+        </label>
+      </div>
+
       {/* Analyze Button */}
-      <div className="mb-4 shrink-0">
+      <div className="mb-4 shrink-0 flex gap-2">
         <Button
           variant="primary"
           onClick={handleAnalyze}
           disabled={!canAnalyze}
           loading={isAnalyzing}
-          className="w-full"
+          className="flex-1"
         >
           {isAnalyzing
             ? "Analyzing..."
             : `Analyze with ${selectedAnalysts.size} Analyst${selectedAnalysts.size !== 1 ? "s" : ""}`}
         </Button>
+        {loadingAnalysts.size > 0 && (
+          <Button variant="danger" onClick={cancelAll}>
+            Stop all
+          </Button>
+        )}
       </div>
 
       {/* Validation Messages */}
@@ -202,18 +477,63 @@ export default function MultiAnalystPanel({
           <Message variant="warning">Please select a model in the settings.</Message>
         </div>
       )}
-      {!apiKey && model && (
+      {model && !isModelConfigured(model) && (
+        <div className="mb-3 shrink-0">
+          <Message variant="warning">
+            Please set a base URL and model ID for your self-hosted model in the settings.
+          </Message>
+        </div>
+      )}
+      {!vault.enabled && !apiKey && model && requiresApiKey(model.provider) && (
         <div className="mb-3 shrink-0">
           <Message variant="warning">
             Please enter an API key for {model.provider} in the settings.
           </Message>
         </div>
       )}
+      {vault.enabled && model && !hasCredentials(model, apiKey, vault) && (
+        <div className="mb-3 shrink-0">
+          <Message variant="warning">
+            {model.provider === "custom"
+              ? "No self-hosted model endpoint is configured on the server."
+              : `No API key for ${model.provider} is configured on the server.`}
+          </Message>
+        </div>
+      )}
+      {budgetCheck?.status === "block" && (
+        <div className="mb-3 shrink-0">
+          <Message variant="error">
+            <strong>Budget exceeded — run blocked.</strong>
+            {budgetCheck.messages.map((m) => (
+              <div key={m} className="text-xs mt-1">{m}</div>
+            ))}
+          </Message>
+        </div>
+      )}
       {selectedAnalysts.size === 0 && (
         <div className="mb-3 shrink-0">
           <Message variant="info">Select at least one analyst to begin.</Message>
         </div>
       )}
+      {replay && (
+        <div className="mb-3 shrink-0">
+          <Message variant="info">
+            Replay: analysts see only the {candles.length} candles up to the cut-off, without fundamentals, comparisons, other timeframes, drawings or data tools. Their calls are recorded in the replay.
+          </Message>
+        </div>
+      )}
+
+      {/* Run cost: actual vs. estimated */}
+      {hasAnalyses && model && (runUsage || runEstimate) && (
+        <div className="mb-3 shrink-0 flex items-center justify-between font-ibm text-xs text-[#666666]">
+          <span>
+            {runUsage
+              ? `${runUsage.inputTokens.toLocaleString()} in / ${runUsage.outputTokens.toLocaleString()} out · ${formatCost(calculateCost(model, runUsage))}`
+              : "Usage pending..."}
+          </span>
+          {runEstimate && <span>est. {formatCost(runEstimate.totalCost)}</span>}
+        </div>
+      )}
 
       {/* Tabs */}
       {hasAnalyses && (
@@ -252,27 +572,36 @@ export default function MultiAnalystPanel({
         )}
 
         {hasAnalyses && activeTab === "consensus" && showConsensusTab && (
-          <ConsensusPanel consensus={consensus} loading={isAnyLoading()} />
+          <ConsensusPanel
+            consensus={consensus}
+            loading={isAnyLoading()}
+            structured={consensusIsStructured}
+          />
         )}
 
         {hasAnalyses && activeTab !== "consensus" && (
           <AnalystTabContent
             analystId={activeTab as AnalystId}
             analysis={getAnalysis(activeTab as AnalystId)}
+            model={model}
             followUpInput={followUpInputs.get(activeTab as AnalystId) || ""}
             onFollowUpChange={(value) => setFollowUpInput(activeTab as AnalystId, value)}
             onFollowUpSubmit={() => handleFollowUp(activeTab as AnalystId)}
+            onCancel={() => cancel(activeTab as AnalystId)}
           />
         )}
       </div>
 
       {/* Token Warning Modal */}
-      {showTokenWarning && (
+      {showTokenWarning && model && runEstimate && (
         <TokenCostModal
-          analystCount={selectedAnalysts.size}
+          modelName={model.name}
+          estimate={runEstimate}
+          budgetWarnings={budgetCheck?.status === "warn" ? budgetCheck.messages : []}
           onConfirm={() => {
             setShowTokenWarning(false);
-            startAnalysis();
+            if (pendingFollowUp) sendFollowUp(pendingFollowUp);
+            else startAnalysis();
           }}
           onCancel={() => setShowTokenWarning(false)}
         />
@@ -311,15 +640,19 @@ function TabButton({
 function AnalystTabContent({
   analystId,
   analysis,
+  model,
   followUpInput,
   onFollowUpChange,
   onFollowUpSubmit,
+  onCancel,
 }: {
   analystId: AnalystId;
   analysis: any;
+  model: ModelConfig | null;
   followUpInput: string;
   onFollowUpChange: (value: string) => void;
   onFollowUpSubmit: () => void;
+  onCancel: () => void;
 }) {
   if (!analysis) return null;
 
@@ -336,6 +669,13 @@ function AnalystTabContent({
           streamingText={analysis.streamingText}
           loading={analysis.isLoading}
           error={analysis.error}
+          usage={analysis.usage}
+          // Fallback calls are priced against the model that served them in the ledger
+          cost={model && analysis.usage && !analysis.servedBy ? calculateCost(model, analysis.usage) : null}
+          servedBy={analysis.servedBy}
+          interrupted={analysis.interrupted}
+          finishReason={analysis.finishReason}
+          toolCalls={analysis.toolCalls}
         />
       </div>
 
@@ -355,14 +695,20 @@ function AnalystTabContent({
             disabled={analysis.isLoading}
             className="flex-1 min-w-0 border bg-[#141414] font-ibm text-white placeholder-[#666666] focus:outline-none focus:ring-1 border-white/[0.08] focus:border-[var(--color-accent-cyan)] focus:ring-[var(--color-accent-cyan)] px-3 py-2 text-sm transition-all duration-200 disabled:opacity-50"
           />
-          <Button
-            type="submit"
-            disabled={analysis.isLoading || !followUpInput.trim()}
-            variant="primary"
-            size="md"
-          >
-            Send
-          </Button>
+          {analysis.isLoading ? (
+            <Button type="button" onClick={onCancel} variant="danger" size="md">
+              Stop
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!followUpInput.trim()}
+              variant="primary"
+              size="md"
+            >
+              Send
+            </Button>
+          )}
         </form>
       )}
     </div>
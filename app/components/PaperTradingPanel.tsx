@@ -0,0 +1,335 @@
+"use client";
+
+import { useState } from "react";
+import type { AnalystRun, CandleData, ExtractedSignals } from "../lib/types";
+import { getAnalyst } from "../lib/analystPrompts";
+import { formatDollar } from "../lib/formatters";
+import {
+  DEFAULT_STARTING_CASH,
+  PAPER_ORDER_TYPES,
+  paperTradeLink,
+  reviewAnalystCalls,
+  summarizePaperAccount,
+  type PaperOrderSide,
+  type PaperOrderType,
+} from "../lib/paperTrading";
+import { usePaperTrading } from "../hooks/usePaperTrading";
+import { Button } from "./ui/Button";
+
+interface PaperTradingPanelProps {
+  symbol: string;  // Default symbol of the order ticket
+  lastBarTime: CandleData["time"] | null;  // Latest loaded candle of that symbol
+  analystRun: AnalystRun | null;  // Latest analyst run, which orders can be linked to
+  analystSignals: ExtractedSignals[];
+}
+
+const MAX_BLOTTER_ROWS = 100;
+
+const inputClass =
+  "bg-[#0a0a0a] border border-white/[0.08] px-1.5 py-0.5 font-ibm text-[11px] text-white focus:outline-none focus:border-[var(--color-accent-cyan)]/50";
+
+function formatTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace("T", " ").slice(0, 16);
+}
+
+function pnlClass(value: number): string {
+  return value >= 0 ? "text-[var(--color-gain)]" : "text-[var(--color-loss)]";
+}
+
+function linkSummary(link: { model: string; calls: { sentiment: ExtractedSignals["sentiment"] }[] }): string {
+  const count = (sentiment: ExtractedSignals["sentiment"]) => link.calls.filter((c) => c.sentiment === sentiment).length;
+  return `${link.model}: ${count("bullish")} bullish, ${count("bearish")} bearish, ${count("neutral")} neutral`;
+}
+
+export default function PaperTradingPanel({ symbol, lastBarTime, analystRun, analystSignals }: PaperTradingPanelProps) {
+  const { account, positions, prices, placeOrder, cancelOrder, resetAccount } = usePaperTrading();
+
+  // Order ticket; the symbol follows the chart until one is typed
+  const [ticketSymbol, setTicketSymbol] = useState("");
+  const [side, setSide] = useState<PaperOrderSide>("buy");
+  const [type, setType] = useState<PaperOrderType>("market");
+  const [quantity, setQuantity] = useState("10");
+  const [price, setPrice] = useState("");
+  const [linkRun, setLinkRun] = useState(true);
+
+  const orderSymbol = (ticketSymbol || symbol).trim().toUpperCase();
+  const runMatches = !!analystRun && analystRun.symbol.toUpperCase() === orderSymbol && analystSignals.length > 0;
+  // A run on other or past bars (another symbol, a replay, or before newer data loaded) is not advice on a live order
+  const runIsCurrent = !!analystRun && !analystRun.replay
+    && analystRun.symbol.toUpperCase() === symbol.toUpperCase() && analystRun.cutoff === lastBarTime;
+  const linkable = runMatches && runIsCurrent;
+
+  const summary = summarizePaperAccount(account, positions, prices);
+  const reviews = reviewAnalystCalls(account, positions, prices);
+  const openOrders = account.orders.filter((o) => o.status === "open");
+  const held = positions.filter((p) => p.quantity > 0 || p.realizedPnl !== 0);
+  const blotter = account.orders.filter((o) => o.status !== "open").slice(-MAX_BLOTTER_ROWS).reverse();
+
+  const handlePlace = () => {
+    const parsedPrice = parseFloat(price);
+    placeOrder({
+      symbol: orderSymbol,
+      side,
+      type,
+      quantity: parseFloat(quantity),
+      price: Number.isFinite(parsedPrice) ? parsedPrice : null,
+      link: linkable && linkRun && analystRun ? paperTradeLink(analystRun, analystSignals) : undefined,
+    });
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Reset the paper account? All orders, fills and positions will be removed.")) {
+      resetAccount(DEFAULT_STARTING_CASH);
+    }
+  };
+
+  const stats: { label: string; value: string; tone?: number }[] = [
+    { label: "Equity", value: formatDollar(summary.equity) },
+    { label: "Cash", value: formatDollar(summary.cash) },
+    { label: "Unrealized", value: formatDollar(summary.unrealizedPnl), tone: summary.unrealizedPnl },
+    { label: "Realized", value: formatDollar(summary.realizedPnl), tone: summary.realizedPnl },
+    { label: "Return", value: `${summary.returnPct > 0 ? "+" : ""}${summary.returnPct.toFixed(2)}%`, tone: summary.returnPct },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Account */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="border border-white/[0.08] bg-[#1a1a1a] px-3 py-2">
+            <div className="font-manrope text-[10px] text-[#666666] uppercase tracking-wider">{stat.label}</div>
+            <div className={`font-ibm text-sm font-semibold ${stat.tone === undefined ? "text-white" : pnlClass(stat.tone)}`}>
+              {stat.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Order ticket */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <input
+            value={ticketSymbol}
+            onChange={(e) => setTicketSymbol(e.target.value.toUpperCase())}
+            placeholder={symbol || "Symbol"}
+            className={`${inputClass} w-20`}
+          />
+          <select value={side} onChange={(e) => setSide(e.target.value as PaperOrderSide)} className={inputClass}>
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+          <select value={type} onChange={(e) => setType(e.target.value as PaperOrderType)} className={inputClass}>
+            {(Object.keys(PAPER_ORDER_TYPES) as PaperOrderType[]).map((t) => (
+              <option key={t} value={t}>
+                {PAPER_ORDER_TYPES[t]}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            <span className="font-manrope text-[10px] text-[#666666]">Qty</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className={`${inputClass} w-16`}
+            />
+          </label>
+          {type !== "market" && (
+            <label className="flex items-center gap-1">
+              <span className="font-manrope text-[10px] text-[#666666]">{PAPER_ORDER_TYPES[type]} price</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                placeholder={prices[orderSymbol]?.toFixed(2) ?? ""}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          )}
+          <Button variant="primary" size="xs" onClick={handlePlace} disabled={!orderSymbol}>
+            Place order
+          </Button>
+        </div>
+        {linkable && analystRun && (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={linkRun}
+              onChange={(e) => setLinkRun(e.target.checked)}
+              className="w-3.5 h-3.5 accent-[var(--color-accent-cyan)]"
+            />
+            <span className="font-manrope text-xs text-[#a0a0a0]">
+              Link to the latest analyst run ({linkSummary({ model: analystRun.model, calls: analystSignals })})
+            </span>
+          </label>
+        )}
+        {runMatches && !runIsCurrent && analystRun && (
+          <p className="font-manrope text-[10px] text-[#666666]">
+            The latest analyst run {analystRun.replay ? "was made in replay" : "did not see the latest bar"}, so orders can&apos;t be linked to it
+          </p>
+        )}
+        <p className="font-manrope text-[10px] text-[#666666]">
+          Long only · fills on bars starting after the order: market at the next open, limit/stop when traded through
+        </p>
+      </div>
+
+      {/* Open orders */}
+      {openOrders.length > 0 && (
+        <div className="space-y-1">
+          <span className="font-chakra text-xs font-bold text-[#a0a0a0] tracking-wider uppercase">
+            Open orders ({openOrders.length})
+          </span>
+          {openOrders.map((o) => (
+            <div key={o.id} className="flex items-center justify-between font-ibm text-[11px] text-white">
+              <span>
+                {o.side === "buy" ? "Buy" : "Sell"} {o.quantity} {o.symbol} {PAPER_ORDER_TYPES[o.type].toLowerCase()}
+                {o.price !== null && ` @ ${o.price.toFixed(2)}`}
+                <span className="ml-2 text-[#666666]">{formatTime(o.createdAt)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => cancelOrder(o.id)}
+                className="font-manrope text-xs text-[#666666] hover:text-red-400 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Positions */}
+      {held.length > 0 && (
+        <div className="border border-white/[0.08]">
+          <table className="w-full font-ibm text-[11px]">
+            <thead className="bg-[#1a1a1a] text-[#666666]">
+              <tr>
+                <th className="text-left px-2 py-1 font-normal">Symbol</th>
+                <th className="text-right px-2 py-1 font-normal">Qty</th>
+                <th className="text-right px-2 py-1 font-normal">Avg cost</th>
+                <th className="text-right px-2 py-1 font-normal">Last</th>
+                <th className="text-right px-2 py-1 font-normal">Unrealized</th>
+                <th className="text-right px-2 py-1 font-normal">Realized</th>
+              </tr>
+            </thead>
+            <tbody>
+              {held.map((p) => {
+                const last = prices[p.symbol] ?? null;
+                const unrealized = last === null ? 0 : p.quantity * (last - p.avgCost);
+                return (
+                  <tr key={p.symbol} className="border-t border-white/[0.04] text-white">
+                    <td className="px-2 py-1">{p.symbol}</td>
+                    <td className="px-2 py-1 text-right">{p.quantity}</td>
+                    <td className="px-2 py-1 text-right">{p.quantity > 0 ? p.avgCost.toFixed(2) : "—"}</td>
+                    <td className="px-2 py-1 text-right">{last?.toFixed(2) ?? "—"}</td>
+                    <td className={`px-2 py-1 text-right ${pnlClass(unrealized)}`}>{unrealized.toFixed(2)}</td>
+                    <td className={`px-2 py-1 text-right ${pnlClass(p.realizedPnl)}`}>{p.realizedPnl.toFixed(2)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Blotter */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="font-chakra text-xs font-bold text-[#a0a0a0] tracking-wider uppercase">
+            Blotter ({account.orders.length - openOrders.length})
+          </span>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="font-manrope text-xs text-[#666666] hover:text-red-400 transition-colors"
+          >
+            Reset account
+          </button>
+        </div>
+        {blotter.length === 0 ? (
+          <p className="font-manrope text-xs text-[#666666]">No filled, cancelled or rejected orders yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto border border-white/[0.08]">
+            <table className="w-full font-ibm text-[11px]">
+              <thead className="sticky top-0 bg-[#1a1a1a] text-[#666666]">
+                <tr>
+                  <th className="text-left px-2 py-1 font-normal">Time</th>
+                  <th className="text-left px-2 py-1 font-normal">Order</th>
+                  <th className="text-right px-2 py-1 font-normal">Fill</th>
+                  <th className="text-right px-2 py-1 font-normal">Realized</th>
+                  <th className="text-left px-2 py-1 font-normal">Analyst run</th>
+                </tr>
+              </thead>
+              <tbody>
+                {blotter.map((o) => {
+                  const fill = account.fills.find((f) => f.orderId === o.id);
+                  return (
+                    <tr key={o.id} className="border-t border-white/[0.04] text-white">
+                      <td className="px-2 py-1">{formatTime(o.filledAt ?? o.createdAt)}</td>
+                      <td className="px-2 py-1">
+                        {o.side === "buy" ? "Buy" : "Sell"} {o.quantity} {o.symbol} {PAPER_ORDER_TYPES[o.type].toLowerCase()}
+                        {o.price !== null && ` @ ${o.price.toFixed(2)}`}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {o.status === "filled"
+                          ? o.fillPrice?.toFixed(2)
+                          : <span className="text-[#666666]" title={o.rejectReason}>{o.status}</span>}
+                      </td>
+                      <td className={`px-2 py-1 text-right ${fill && fill.side === "sell" ? pnlClass(fill.realizedPnl) : "text-[#666666]"}`}>
+                        {fill && fill.side === "sell" ? fill.realizedPnl.toFixed(2) : "—"}
+                      </td>
+                      <td className="px-2 py-1 text-[#a0a0a0]" title={o.link ? formatTime(o.link.startedAt) : undefined}>
+                        {o.link ? linkSummary(o.link) : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Analyst review */}
+      {reviews.length > 0 && (
+        <div className="space-y-2">
+          <span className="font-chakra text-xs font-bold text-[#a0a0a0] tracking-wider uppercase">
+            Analyst review (linked buys, realized + unrealized)
+          </span>
+          <div className="border border-white/[0.08]">
+            <table className="w-full font-ibm text-[11px]">
+              <thead className="bg-[#1a1a1a] text-[#666666]">
+                <tr>
+                  <th className="text-left px-2 py-1 font-normal">Analyst</th>
+                  <th className="text-right px-2 py-1 font-normal">Bullish → bought</th>
+                  <th className="text-right px-2 py-1 font-normal">Won</th>
+                  <th className="text-right px-2 py-1 font-normal">P&L</th>
+                  <th className="text-right px-2 py-1 font-normal">Bought against</th>
+                  <th className="text-right px-2 py-1 font-normal">P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map((r) => (
+                  <tr key={r.analystId} className="border-t border-white/[0.04] text-white">
+                    <td className="px-2 py-1">{getAnalyst(r.analystId).name}</td>
+                    <td className="px-2 py-1 text-right">{r.followed}</td>
+                    <td className="px-2 py-1 text-right">{r.followed > 0 ? `${r.followedWins}/${r.followed}` : "—"}</td>
+                    <td className={`px-2 py-1 text-right ${pnlClass(r.followedPnl)}`}>{r.followedPnl.toFixed(2)}</td>
+                    <td className="px-2 py-1 text-right">{r.against}</td>
+                    <td className={`px-2 py-1 text-right ${r.against > 0 ? pnlClass(r.againstPnl) : "text-[#666666]"}`}>
+                      {r.against > 0 ? r.againstPnl.toFixed(2) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
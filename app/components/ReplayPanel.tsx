@@ -0,0 +1,145 @@
+"use client";
+
+import type { ReplayCall, ReplayDirection, ReplayOutcome } from "../lib/types";
+import { getAnalyst } from "../lib/analystPrompts";
+import { REPLAY_HORIZON, type ReplayScore } from "../lib/replay";
+import { Button } from "./ui/Button";
+
+interface ReplayPanelProps {
+  barLabel: string;  // Time of the last visible bar
+  bar: number;  // 1-based position of the last visible bar
+  totalBars: number;
+  playing: boolean;
+  revealed: boolean;
+  calls: ReplayCall[];
+  outcomes: ReplayOutcome[];
+  scores: ReplayScore[];
+  onStep: () => void;
+  onTogglePlay: () => void;
+  onCall: (direction: ReplayDirection, kind: ReplayCall["kind"]) => void;
+  onReveal: () => void;
+  onExit: () => void;
+}
+
+function sourceName(source: ReplayCall["source"]): string {
+  return source === "you" ? "You" : getAnalyst(source).name;
+}
+
+function signed(value: number, digits = 2, suffix = ""): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}${suffix}`;
+}
+
+const EXIT_LABELS: Record<ReplayOutcome["exitReason"], string> = {
+  target: "target hit",
+  stop: "stopped out",
+  horizon: `after ${REPLAY_HORIZON} bars`,
+  end: "data ended",
+};
+
+export default function ReplayPanel({
+  barLabel,
+  bar,
+  totalBars,
+  playing,
+  revealed,
+  calls,
+  outcomes,
+  scores,
+  onStep,
+  onTogglePlay,
+  onCall,
+  onReveal,
+  onExit,
+}: ReplayPanelProps) {
+  const atEnd = bar >= totalBars;
+
+  return (
+    <div className="mb-3 border border-[var(--color-accent-cyan)]/30 bg-[var(--color-accent-cyan)]/5 p-2 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-chakra text-xs font-bold text-[var(--color-accent-cyan)] tracking-wider uppercase shrink-0">
+          Replay
+        </span>
+        <span className="font-ibm text-xs text-[#a0a0a0]">
+          {revealed ? `Revealed · ${totalBars} bars` : `Bar ${bar} / ${totalBars} · ${barLabel}`}
+        </span>
+        {!revealed && (
+          <>
+            <Button variant="secondary" size="xs" onClick={onTogglePlay} disabled={atEnd} title="Play or pause (Space)">
+              {playing ? "Pause" : "Play"}
+            </Button>
+            <Button variant="secondary" size="xs" onClick={onStep} disabled={atEnd} title="Show the next bar (→)">
+              Step
+            </Button>
+            <span className="w-px h-4 bg-white/[0.08]" />
+            <Button variant="ghost" size="xs" onClick={() => onCall("bullish", "call")} title={`Bullish over the next ${REPLAY_HORIZON} bars (B)`}>
+              Bullish
+            </Button>
+            <Button variant="ghost" size="xs" onClick={() => onCall("bearish", "call")} title={`Bearish over the next ${REPLAY_HORIZON} bars (S)`}>
+              Bearish
+            </Button>
+            <Button variant="ghost" size="xs" onClick={() => onCall("bullish", "entry")} title="Simulated long at the next open, 1.5 ATR stop, 2R target">
+              Buy
+            </Button>
+            <Button variant="ghost" size="xs" onClick={() => onCall("bearish", "entry")} title="Simulated short at the next open, 1.5 ATR stop, 2R target">
+              Sell short
+            </Button>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {!revealed && (
+            <Button variant="primary" size="xs" onClick={onReveal} title="Show the rest of the history and score the calls">
+              Reveal
+            </Button>
+          )}
+          <button
+            type="button"
+            onClick={onExit}
+            className="font-manrope text-xs text-[#666666] hover:text-white transition-colors"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+
+      {!revealed && (
+        <p className="font-manrope text-[10px] text-[#666666]">
+          {calls.length === 0
+            ? "Later bars are hidden. Step forward, make calls, then reveal to see how they did. Analyses run now see only the visible bars, and their calls are recorded here."
+            : `${calls.length} call${calls.length === 1 ? "" : "s"} recorded: ${calls.map((c) => `${sourceName(c.source)} ${c.direction}${c.kind === "entry" ? " entry" : ""}`).join(", ")}`}
+        </p>
+      )}
+
+      {revealed && (
+        outcomes.length === 0 ? (
+          <p className="font-manrope text-xs text-[#666666]">No calls were made before the reveal.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {scores.map((s) => (
+                <div key={s.source} className="border border-white/[0.08] bg-[#1a1a1a] px-3 py-2">
+                  <div className="font-manrope text-[10px] text-[#666666] uppercase tracking-wider">{sourceName(s.source)}</div>
+                  <div className={`font-ibm text-sm font-semibold ${s.hitRate >= 50 ? "text-[var(--color-gain)]" : "text-[var(--color-loss)]"}`}>
+                    {s.correct}/{s.calls} right ({s.hitRate.toFixed(0)}%)
+                  </div>
+                  <div className="font-ibm text-[10px] text-[#a0a0a0]">
+                    avg {signed(s.avgReturnPct, 2, "%")}{s.totalR !== null && ` · ${signed(s.totalR, 1, "R")}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <ul className="space-y-0.5">
+              {outcomes.map((o) => (
+                <li key={o.call.id} className="font-ibm text-[10px] text-[#a0a0a0]">
+                  <span className={o.correct ? "text-[var(--color-gain)]" : "text-[var(--color-loss)]"}>{o.correct ? "✓" : "✗"}</span>
+                  {" "}{sourceName(o.call.source)} · {o.call.direction} {o.call.kind === "entry" ? "entry" : "call"} at {o.entryPrice.toFixed(2)}
+                  {" → "}{o.exitPrice.toFixed(2)} ({EXIT_LABELS[o.exitReason]}): {signed(o.returnPct, 2, "%")}
+                  {o.rMultiple !== null && `, ${signed(o.rMultiple, 2, "R")}`}
+                </li>
+              ))}
+            </ul>
+          </>
+        )
+      )}
+    </div>
+  );
+}
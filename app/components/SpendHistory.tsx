@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PROVIDERS, type Provider } from '../lib/models';
+import { getAnalyst } from '../lib/analystPrompts';
+import { formatCost } from '../lib/tokenEstimator';
+import {
+  loadLedger,
+  loadBudgets,
+  saveBudgets,
+  clearLedger,
+  summarizeLedger,
+  LEDGER_UPDATED_EVENT,
+  type LedgerEntry,
+  type BudgetSettings,
+  type ProviderBudget,
+} from '../lib/spendLedger';
+
+interface SpendHistoryProps {
+  provider: Provider;
+}
+
+const RECENT_ENTRIES = 15;
+
+const DEFAULT_BUDGET: ProviderBudget = { daily: null, monthly: null, mode: 'warn' };
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-xs text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export default function SpendHistory({ provider }: SpendHistoryProps) {
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [budgets, setBudgets] = useState<BudgetSettings>({});
+
+  // Load on mount and refresh whenever a call is recorded
+  useEffect(() => {
+    const refresh = () => {
+      setLedger(loadLedger());
+      setBudgets(loadBudgets());
+    };
+    refresh();
+    window.addEventListener(LEDGER_UPDATED_EVENT, refresh);
+    return () => window.removeEventListener(LEDGER_UPDATED_EVENT, refresh);
+  }, []);
+
+  const budget = budgets[provider] ?? DEFAULT_BUDGET;
+  const summary = summarizeLedger(ledger);
+  const recent = ledger.slice(-RECENT_ENTRIES).reverse();
+
+  const updateBudget = (patch: Partial<ProviderBudget>) => {
+    saveBudgets({ ...budgets, [provider]: { ...budget, ...patch } });
+  };
+
+  const parseCap = (value: string): number | null => {
+    const n = parseFloat(value);
+    return Number.isFinite(n) && n >= 0 ? n : null;
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear all recorded usage history?')) clearLedger();
+  };
+
+  return (
+    <div className="mt-2 space-y-3">
+      {/* Budget for the current provider */}
+      <div className="space-y-1.5">
+        <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+          {PROVIDERS[provider].name} budget (USD)
+        </p>
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={budget.daily ?? ''}
+            onChange={(e) => updateBudget({ daily: parseCap(e.target.value) })}
+            placeholder="Daily"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={budget.monthly ?? ''}
+            onChange={(e) => updateBudget({ monthly: parseCap(e.target.value) })}
+            placeholder="Monthly"
+            className={inputClass}
+          />
+          <select
+            value={budget.mode}
+            onChange={(e) => updateBudget({ mode: e.target.value as ProviderBudget['mode'] })}
+            className={inputClass}
+          >
+            <option value="warn">Warn</option>
+            <option value="block">Block</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Per-provider totals */}
+      {summary.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-200 dark:border-gray-800">
+              <th className="text-left py-1 font-medium">Provider</th>
+              <th className="text-right py-1 font-medium">Today</th>
+              <th className="text-right py-1 font-medium">Month</th>
+              <th className="text-right py-1 font-medium">Calls</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-800 dark:text-gray-200">
+            {summary.map((row) => (
+              <tr key={row.provider} className="border-b border-gray-100 dark:border-gray-800/50">
+                <td className="py-1">{PROVIDERS[row.provider]?.name ?? row.provider}</td>
+                <td className="py-1 text-right">{formatCost(row.today)}</td>
+                <td className="py-1 text-right">{formatCost(row.month)}</td>
+                <td className="py-1 text-right">{row.calls}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Recent calls */}
+      {recent.length > 0 ? (
+        <div className="space-y-1 max-h-60 overflow-y-auto">
+          {recent.map((e) => (
+            <div
+              key={e.id}
+              className="rounded-md border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-800/50 px-2 py-1.5 text-xs"
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-800 dark:text-gray-200 truncate">
+                  {e.symbol ?? '—'}
+                  {e.analystId ? ` · ${getAnalyst(e.analystId)?.name ?? e.analystId}` : ''}
+                </span>
+                <span className="text-gray-800 dark:text-gray-200 shrink-0 ml-2">
+                  {formatCost(e.cost)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-gray-500">
+                <span className="truncate">{e.modelName}</span>
+                <span className="shrink-0 ml-2">
+                  {e.inputTokens.toLocaleString()}/{e.outputTokens.toLocaleString()}
+                  {e.estimated ? ' est.' : ''}
+                </span>
+              </div>
+              <div className="text-gray-400">{new Date(e.timestamp).toLocaleString()}</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No analyses recorded yet.</p>
+      )}
+
+      {ledger.length > 0 && (
+        <button
+          type="button"
+          onClick={handleClear}
+          className="text-xs text-red-500 hover:text-red-400"
+        >
+          Clear history
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { useRangeSelector } from "../hooks/useRangeSelector";
 import { TickerSearch } from "./ui/TickerSearch";
-import type { StockQuery } from "../lib/types";
+import { BUNDLE_INTERVALS, INTERVAL_LABELS, loadBundleIntervals, saveBundleIntervals } from "../lib/multiTimeframe";
+import type { Interval, StockQuery } from "../lib/types";
 
 interface SymbolInputProps {
   symbol: string;
@@ -26,6 +28,18 @@ export default function SymbolInput({
     defaultInterval: "1d",
   });
 
+  // Extra timeframes summarized for the analysts alongside the chart's
+  const [bundle, setBundle] = useState<Interval[]>(loadBundleIntervals);
+  useEffect(() => {
+    saveBundleIntervals(bundle);
+  }, [bundle]);
+
+  const toggleBundle = (value: Interval) => {
+    setBundle((prev) =>
+      prev.includes(value) ? prev.filter((i) => i !== value) : BUNDLE_INTERVALS.filter((i) => i === value || prev.includes(i)),
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!symbol.trim()) return;
@@ -34,6 +48,7 @@ export default function SymbolInput({
       symbol: symbol.trim().toUpperCase(),
       range,
       interval,
+      bundle,
     });
   };
 
@@ -62,6 +77,7 @@ export default function SymbolInput({
                 symbol: symbol.trim().toUpperCase(),
                 range,
                 interval,
+                bundle,
               })
             }
             className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
@@ -78,6 +94,32 @@ export default function SymbolInput({
           </button>
         </div>
       </div>
+
+      <div className="mt-2 flex items-center gap-1.5 flex-wrap">
+        <span className="text-xs text-gray-500 dark:text-gray-400" title="Summarize these timeframes too, so analysts can check trend alignment">
+          Also analyze:
+        </span>
+        {BUNDLE_INTERVALS.map((value) => {
+          const isChart = value === interval;
+          const active = isChart || bundle.includes(value);
+          return (
+            <button
+              key={value}
+              type="button"
+              disabled={isChart}
+              onClick={() => toggleBundle(value)}
+              title={isChart ? "The chart's own timeframe is always included" : undefined}
+              className={`rounded-md border px-2 py-0.5 text-xs transition-colors disabled:cursor-default ${
+                active
+                  ? "border-blue-500/60 bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400"
+                  : "border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              }`}
+            >
+              {INTERVAL_LABELS[value]}
+            </button>
+          );
+        })}
+      </div>
     </form>
   );
 }
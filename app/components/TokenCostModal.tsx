@@ -1,10 +1,15 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "./ui/Button";
+import { Message } from "./ui/Message";
+import { getAnalyst } from "../lib/analystPrompts";
+import { formatCost, type RunCostEstimate } from "../lib/tokenEstimator";
 
 interface TokenCostModalProps {
-  analystCount: number;
+  modelName: string;
+  estimate: RunCostEstimate;
+  budgetWarnings?: string[];
   onConfirm: () => void;
   onCancel: () => void;
 }
@@ -12,39 +17,14 @@ interface TokenCostModalProps {
 const STORAGE_KEY = "llm-token-warning-dismissed";
 
 export default function TokenCostModal({
-  analystCount,
+  modelName,
+  estimate,
+  budgetWarnings = [],
   onConfirm,
   onCancel,
 }: TokenCostModalProps) {
   const [dontShowAgain, setDontShowAgain] = useState(false);
-
-  // Estimate tokens (rough approximation)
-  const estimateTokens = () => {
-    // Rough estimates:
-    // - System prompt: ~800 tokens per analyst
-    // - OHLC data (60 candles): ~1200 tokens
-    // - Output: ~2000 tokens per analyst (conservative estimate)
-    const inputTokensPerAnalyst = 800 + 1200; // 2000
-    const outputTokensPerAnalyst = 2000;
-
-    return {
-      inputTokens: inputTokensPerAnalyst * analystCount,
-      outputTokens: outputTokensPerAnalyst * analystCount,
-      total: (inputTokensPerAnalyst + outputTokensPerAnalyst) * analystCount,
-    };
-  };
-
-  const tokens = estimateTokens();
-
-  // Calculate rough cost estimate (using GPT-4o pricing as example)
-  // Actual cost depends on the model selected
-  const estimateCost = () => {
-    // Example pricing (GPT-4o): $2.50 per 1M input tokens, $10 per 1M output tokens
-    // This is just an estimate - actual pricing varies by model
-    const inputCost = (tokens.inputTokens / 1_000_000) * 2.5;
-    const outputCost = (tokens.outputTokens / 1_000_000) * 10;
-    return (inputCost + outputCost).toFixed(4);
-  };
+  const analystCount = estimate.analysts.length;
 
   const handleConfirm = () => {
     if (dontShowAgain) {
@@ -55,54 +35,78 @@ export default function TokenCostModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80">
-      <div className="bg-[#141414] border border-white/[0.08] max-w-md w-full p-6 space-y-4">
+      <div className="bg-[#141414] border border-white/[0.08] max-w-lg w-full p-6 space-y-4">
         {/* Header */}
         <div>
           <h2 className="font-chakra text-xl font-bold text-white tracking-wider uppercase">
             Multi-Analyst Analysis
           </h2>
           <p className="font-manrope text-sm text-[#666666] mt-2">
-            You are about to analyze the chart with {analystCount} analysts simultaneously.
+            You are about to analyze the chart with {analystCount} analysts simultaneously
+            using {modelName}.
           </p>
         </div>
 
-        {/* Token Estimates */}
+        {/* Budget warnings */}
+        {budgetWarnings.length > 0 && (
+          <Message variant="warning">
+            {budgetWarnings.map((w) => (
+              <div key={w} className="text-xs">{w}</div>
+            ))}
+          </Message>
+        )}
+
+        {/* Per-analyst estimates */}
         <div className="border border-white/[0.08] bg-[#0a0a0a] p-4 space-y-3">
           <h3 className="font-chakra text-xs font-bold text-[#666666] tracking-wider uppercase">
-            Estimated Token Usage
+            Estimated Cost per Analyst
           </h3>
 
-          <div className="grid grid-cols-2 gap-3">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-white/[0.08] text-[#666666] font-chakra uppercase tracking-wider">
+                <th className="text-left py-1.5">Analyst</th>
+                <th className="text-right py-1.5">Input</th>
+                <th className="text-right py-1.5">Output</th>
+                <th className="text-right py-1.5">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="font-ibm text-white">
+              {estimate.analysts.map((a) => (
+                <tr key={a.analystId} className="border-b border-white/[0.05]">
+                  <td className="py-1.5 font-manrope">{getAnalyst(a.analystId).name}</td>
+                  <td className="py-1.5 text-right">
+                    {a.inputTokens.toLocaleString()}
+                    <span className="block text-[10px] text-[#666666]">{formatCost(a.inputCost)}</span>
+                  </td>
+                  <td className="py-1.5 text-right">
+                    ~{a.outputTokens.toLocaleString()}
+                    <span className="block text-[10px] text-[#666666]">{formatCost(a.outputCost)}</span>
+                  </td>
+                  <td className="py-1.5 text-right">{formatCost(a.totalCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="border-t border-white/[0.08] pt-3 flex items-end justify-between">
             <div>
-              <div className="font-ibm text-sm text-[#666666]">Input Tokens</div>
-              <div className="font-ibm text-lg font-bold text-white">
-                {tokens.inputTokens.toLocaleString()}
+              <div className="font-ibm text-sm text-[#666666]">Total Estimated</div>
+              <div className="font-manrope text-xs text-[#666666] mt-1">
+                {estimate.inputTokens.toLocaleString()} in / ~{estimate.outputTokens.toLocaleString()} out
               </div>
             </div>
-            <div>
-              <div className="font-ibm text-sm text-[#666666]">Output Tokens</div>
-              <div className="font-ibm text-lg font-bold text-white">
-                {tokens.outputTokens.toLocaleString()}
-              </div>
-            </div>
-          </div>
-
-          <div className="border-t border-white/[0.08] pt-3">
-            <div className="font-ibm text-sm text-[#666666]">Total Estimated</div>
             <div className="font-ibm text-xl font-bold text-[var(--color-accent-cyan)]">
-              {tokens.total.toLocaleString()}
-            </div>
-            <div className="font-manrope text-xs text-[#666666] mt-1">
-              ~${estimateCost()} USD (varies by model)
+              {formatCost(estimate.totalCost)}
             </div>
           </div>
         </div>
 
-        {/* Comparison */}
+        {/* Note */}
         <div className="font-manrope text-xs text-[#666666]">
-          <strong>Note:</strong> This is approximately {analystCount}x the token usage of a
-          single analyst analysis. The actual cost depends on your selected model and
-          provider pricing.
+          <strong>Note:</strong> Input tokens are counted from each analyst&apos;s system prompt
+          plus the chart data; output is an estimate of a typical full response. Actual
+          provider-reported usage is shown once the run completes.
         </div>
 
         {/* Don't show again checkbox */}
@@ -1,22 +1,69 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback, useMemo } from "react";
-import { createChart, CandlestickSeries, LineSeries, HistogramSeries } from "lightweight-charts";
-import type { IChartApi } from "lightweight-charts";
-import type { CandleData, IndicatorConfig } from "../../lib/types";
+import { useEffect, useRef, useState, useCallback, useMemo, type RefObject } from "react";
+import { createChart, createSeriesMarkers, CandlestickSeries, LineSeries, HistogramSeries, PriceScaleMode } from "lightweight-charts";
+import type { IChartApi, IPriceLine, ISeriesApi, MouseEventParams, SeriesMarker, Time } from "lightweight-charts";
+import type { CandleData, ComparisonMode, ComparisonSeries, Drawing, DrawingTool, ExtractedSignals, IndicatorInstance, ReplayCall, ReplayDirection } from "../../lib/types";
 import {
-  calculateSMA,
-  calculateEMA,
-  calculateBollingerBands,
-  calculateRSI,
-  calculateMACD,
-} from "../../lib/indicators";
+  assignPanes,
+  getIndicatorDefinition,
+  lineColor,
+  loadIndicators,
+  saveIndicators,
+} from "../../lib/indicatorRegistry";
+import { timeToSeconds } from "../../lib/indicators";
+import { detectCandlestickPatterns, formatPatternName } from "../../lib/candlestickPatterns";
 import IndicatorSelector from "../IndicatorSelector";
+import ComparisonSelector from "../ComparisonSelector";
+import DrawingToolbar from "../DrawingToolbar";
+import ReplayPanel from "../ReplayPanel";
+import {
+  barTimeline,
+  createDrawing,
+  DEFAULT_DRAWING_COLOR,
+  DRAWING_TOOLS,
+  loadDrawings,
+  saveDrawings,
+} from "../../lib/drawings";
+import { closesOnBaseBars, loadedComparisons, relativeStrength } from "../../lib/comparison";
+import { ANALYST_COLORS, analystLevelLabel, analystLevels, clusterAnalystLevels, type AnalystLevel, type AnalystLevelCluster } from "../../lib/analystLevels";
+import {
+  analystReplayCalls,
+  createReplayCall,
+  MIN_REPLAY_BARS,
+  REPLAY_PLAY_INTERVAL,
+  scoreReplay,
+  scoreReplayCall,
+} from "../../lib/replay";
+import { useIndicatorResults } from "../../hooks/useIndicatorResults";
+import { analyzeMarketStructure, formatChartPatternName } from "../../lib/chartPatterns";
+import { CloudPrimitive, DrawingsPrimitive, LevelClustersPrimitive, VolumeProfilePrimitive, ZonesPrimitive } from "./chartPrimitives";
 
 interface ChartProps {
   data: CandleData[];
   symbol: string;
   dark?: boolean;
+  /** Receives a function that renders the current chart (all panes) as a PNG data URL */
+  snapshotRef?: RefObject<(() => string | null) | null>;
+  /** Other symbols drawn against this one, with the same range and interval */
+  comparisons?: ComparisonSeries[];
+  onComparisonsChange?: (symbols: string[]) => void;
+  /** Signals of completed analyses, whose levels and targets can be plotted */
+  analystSignals?: ExtractedSignals[];
+  /** Time of the last candle those analyses saw; in replay, their calls are recorded at that bar */
+  analystCutoff?: CandleData["time"] | null;
+  /** Receives the visible candles while a replay hides later ones, null otherwise */
+  onReplayChange?: (visible: CandleData[] | null) => void;
+}
+
+/** A replay of the loaded data: bars after the cursor stay hidden until revealed */
+interface ReplaySession {
+  data: CandleData[];  // The data the replay was started on; new data ends it
+  start: number;
+  cursor: number;
+  playing: boolean;
+  revealed: boolean;
+  calls: ReplayCall[];
 }
 
 const DARK_THEME = {
@@ -36,60 +83,333 @@ const LIGHT_THEME = {
 const ZOOM_STEP = 0.2;
 const PAN_STEP = 10;
 
-const STORAGE_KEY = "chart-indicator-config";
-
-const DEFAULT_CONFIG: IndicatorConfig = {
-  sma20: false,
-  sma50: false,
-  sma200: false,
-  ema12: false,
-  ema26: false,
-  bollingerBands: false,
-  rsi: false,
-  macd: false,
-};
+const SUB_PANE_HEIGHT = 120;
+
+// Bars in view when a replay starts
+const REPLAY_VIEW_BARS = 120;
 
-function loadIndicatorConfig(): IndicatorConfig {
-  if (typeof window === "undefined") return DEFAULT_CONFIG;
+const PATTERNS_STORAGE_KEY = "chart-candle-patterns";
+const STRUCTURE_STORAGE_KEY = "chart-structure";
+const COMPARISON_MODE_STORAGE_KEY = "chart-comparison-mode";
+const ANALYST_LEVELS_STORAGE_KEY = "chart-analyst-levels";
+
+function loadToggle(key: string): boolean {
+  if (typeof window === "undefined") return true;
   try {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) return { ...DEFAULT_CONFIG, ...JSON.parse(saved) };
+    const saved = localStorage.getItem(key);
+    if (saved) return JSON.parse(saved) === true;
   } catch { /* ignore */ }
-  return DEFAULT_CONFIG;
+  return true;
+}
+
+function loadComparisonMode(): ComparisonMode {
+  if (typeof window === "undefined") return "percent";
+  return localStorage.getItem(COMPARISON_MODE_STORAGE_KEY) === "ratio" ? "ratio" : "percent";
+}
+
+const NO_COMPARISONS: ComparisonSeries[] = [];
+const NO_SIGNALS: ExtractedSignals[] = [];
+
+const PATTERN_COLORS = { bullish: "#22c55e", bearish: "#ef4444", neutral: "#f59e0b" };
+
+/** Analyst levels drawn on the candlestick series, replaced whenever the signals change */
+interface AnalystLayer {
+  series: ISeriesApi<"Candlestick">;
+  clusters: LevelClustersPrimitive;
+  lines: IPriceLine[];
+}
+
+type AnalystOverlay = { levels: AnalystLevel[]; clusters: AnalystLevelCluster[] } | null;
+
+// Dashed support/resistance, dotted targets, one colour per analyst
+function drawAnalystOverlay(layer: AnalystLayer, overlay: AnalystOverlay) {
+  for (const line of layer.lines) layer.series.removePriceLine(line);
+  layer.lines = (overlay?.levels ?? []).map((level) =>
+    layer.series.createPriceLine({
+      price: level.price,
+      color: ANALYST_COLORS[level.analystId],
+      lineWidth: 1,
+      lineStyle: level.kind.endsWith("target") ? 3 : 2,
+      title: analystLevelLabel(level),
+    }),
+  );
+  layer.clusters.setClusters(overlay?.clusters ?? []);
 }
 
-export default function Chart({ data, symbol, dark = true }: ChartProps) {
+function formatBarTime(time: CandleData["time"]): string {
+  return typeof time === "number" ? new Date(time * 1000).toISOString().slice(0, 16).replace("T", " ") : time;
+}
+
+function toggleClass(active: boolean): string {
+  return `px-2.5 py-1 text-xs rounded-md border transition-colors ${
+    active
+      ? "border-cyan-500/50 text-cyan-600 dark:text-cyan-400 bg-cyan-50 dark:bg-cyan-500/10"
+      : "border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+  }`;
+}
+
+export default function Chart({
+  data: allData,
+  symbol,
+  dark = true,
+  snapshotRef,
+  comparisons = NO_COMPARISONS,
+  onComparisonsChange,
+  analystSignals = NO_SIGNALS,
+  analystCutoff = null,
+  onReplayChange,
+}: ChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
 
-  const [indicatorConfig, setIndicatorConfig] = useState<IndicatorConfig>(loadIndicatorConfig);
+  // Replay: everything below works on the visible bars only
+  const [replay, setReplay] = useState<ReplaySession | null>(null);
+  const [pickingReplay, setPickingReplay] = useState(false);
+  const pickingReplayRef = useRef(false);
+  const replayRangeRef = useRef<{ from: number; to: number } | null>(null);
+  useEffect(() => {
+    pickingReplayRef.current = pickingReplay;
+  }, [pickingReplay]);
+
+  if (replay && replay.data !== allData) {
+    setReplay(null);
+  }
 
-  // Persist indicator config
+  // Bar the analyses were cut off at, if it is in the loaded data
+  const analystCutoffIndex = useMemo(
+    () => (analystCutoff === null ? -1 : allData.findIndex((c) => c.time === analystCutoff)),
+    [allData, analystCutoff],
+  );
+
+  // Record the calls of analyses run on the replay's visible bars as they complete.
+  // The signals only change when an analysis completes, so each set is seen once
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(indicatorConfig));
-  }, [indicatorConfig]);
-
-  // Memoized indicator calculations
-  const sma20Data = useMemo(() => data.length > 0 ? calculateSMA(data, 20) : [], [data]);
-  const sma50Data = useMemo(() => data.length > 0 ? calculateSMA(data, 50) : [], [data]);
-  const sma200Data = useMemo(() => data.length > 0 ? calculateSMA(data, 200) : [], [data]);
-  const ema12Data = useMemo(() => data.length > 0 ? calculateEMA(data, 12) : [], [data]);
-  const ema26Data = useMemo(() => data.length > 0 ? calculateEMA(data, 26) : [], [data]);
-  const bollingerData = useMemo(() => data.length > 0 ? calculateBollingerBands(data, 20, 2) : { upper: [], middle: [], lower: [] }, [data]);
-  const rsiData = useMemo(() => data.length > 0 ? calculateRSI(data, 14) : [], [data]);
-  const macdData = useMemo(() => data.length > 0 ? calculateMACD(data, 12, 26, 9) : { macd: [], signal: [], histogram: [] }, [data]);
+    setReplay((prev) => {
+      if (!prev || prev.revealed || analystCutoffIndex < prev.start || analystCutoffIndex > prev.cursor) return prev;
+      const fresh = analystReplayCalls(analystSignals, analystCutoffIndex).filter(
+        (call) => !prev.calls.some((c) => c.source === call.source && c.index === call.index),
+      );
+      return fresh.length > 0 ? { ...prev, calls: [...prev.calls, ...fresh] } : prev;
+    });
+  }, [analystSignals, analystCutoffIndex]);
 
-  // Calculate dynamic height
-  const hasRsi = indicatorConfig.rsi;
-  const hasMacd = indicatorConfig.macd;
+  const replayCursor = replay && !replay.revealed ? replay.cursor : null;
+  const replayActive = replayCursor !== null;
+  const data = useMemo(
+    () => (replayCursor === null ? allData : allData.slice(0, replayCursor + 1)),
+    [allData, replayCursor],
+  );
+
+  useEffect(() => {
+    onReplayChange?.(replayActive ? data : null);
+  }, [data, replayActive, onReplayChange]);
+
+  const stepReplay = useCallback(() => {
+    setReplay((prev) => {
+      if (!prev || prev.revealed || prev.cursor >= prev.data.length - 1) return prev;
+      const cursor = prev.cursor + 1;
+      return { ...prev, cursor, playing: prev.playing && cursor < prev.data.length - 1 };
+    });
+  }, []);
+
+  const recordCall = useCallback((direction: ReplayDirection, kind: ReplayCall["kind"]) => {
+    setReplay((prev) =>
+      prev && !prev.revealed ? { ...prev, calls: [...prev.calls, createReplayCall(prev.cursor, direction, kind)] } : prev,
+    );
+  }, []);
+
+  const replayPlaying = !!replay?.playing && replayActive;
+  useEffect(() => {
+    if (!replayPlaying) return;
+    const id = setInterval(stepReplay, REPLAY_PLAY_INTERVAL);
+    return () => clearInterval(id);
+  }, [replayPlaying, stepReplay]);
 
+  // Replay keys: Space plays/pauses, → steps, B/S record a bullish/bearish call
+  useEffect(() => {
+    if (!replayActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (document.activeElement && ["INPUT", "TEXTAREA", "SELECT"].includes(document.activeElement.tagName)) return;
+      switch (e.key) {
+        case " ":
+          e.preventDefault();
+          setReplay((prev) => (prev ? { ...prev, playing: !prev.playing } : prev));
+          break;
+        case "ArrowRight":
+          stepReplay();
+          break;
+        case "b":
+        case "B":
+          recordCall("bullish", "call");
+          break;
+        case "s":
+        case "S":
+          recordCall("bearish", "call");
+          break;
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [replayActive, stepReplay, recordCall]);
+
+  // Scored once the rest of the history is revealed
+  const replayOutcomes = useMemo(() => {
+    if (!replay?.revealed) return [];
+    return replay.calls.flatMap((call) => scoreReplayCall(allData, call) ?? []);
+  }, [replay, allData]);
+  const replayScores = useMemo(() => scoreReplay(replayOutcomes), [replayOutcomes]);
+
+  const [indicators, setIndicators] = useState<IndicatorInstance[]>(loadIndicators);
+
+  // Persist indicator instances
+  useEffect(() => {
+    saveIndicators(indicators);
+  }, [indicators]);
+
+  const [showPatterns, setShowPatterns] = useState(() => loadToggle(PATTERNS_STORAGE_KEY));
+  const [showStructure, setShowStructure] = useState(() => loadToggle(STRUCTURE_STORAGE_KEY));
+  const [showAnalystLevels, setShowAnalystLevels] = useState(() => loadToggle(ANALYST_LEVELS_STORAGE_KEY));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PATTERNS_STORAGE_KEY, JSON.stringify(showPatterns));
+      localStorage.setItem(STRUCTURE_STORAGE_KEY, JSON.stringify(showStructure));
+      localStorage.setItem(ANALYST_LEVELS_STORAGE_KEY, JSON.stringify(showAnalystLevels));
+    } catch { /* ignore */ }
+  }, [showPatterns, showStructure, showAnalystLevels]);
+
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(loadComparisonMode);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(COMPARISON_MODE_STORAGE_KEY, comparisonMode);
+    } catch { /* ignore */ }
+  }, [comparisonMode]);
+
+  const comparisonLines = useMemo(() => loadedComparisons(comparisons), [comparisons]);
+
+  // Swings, support/resistance zones and chart patterns
+  const structure = useMemo(
+    () => (showStructure ? analyzeMarketStructure(data) : null),
+    [data, showStructure],
+  );
+
+  // Each analyst's levels and targets, and the zones where several agree
+  // While bars are hidden, only levels of analyses that saw no further than the cursor are shown
+  const analystLevelsHidden = replayCursor !== null && (analystCutoffIndex < 0 || analystCutoffIndex > replayCursor);
+  const analystOverlay = useMemo<AnalystOverlay>(() => {
+    if (!showAnalystLevels || analystLevelsHidden || analystSignals.length === 0) return null;
+    const levels = analystLevels(analystSignals);
+    return { levels, clusters: clusterAnalystLevels(levels) };
+  }, [analystSignals, showAnalystLevels, analystLevelsHidden]);
+  const analystOverlayRef = useRef(analystOverlay);
+  const analystLayerRef = useRef<AnalystLayer | null>(null);
+
+  // Candlestick pattern markers: bullish below the bar, bearish above, neutral (doji, spinning top) as dots
+  const patternMarkers = useMemo<SeriesMarker<Time>[]>(() => {
+    if (!showPatterns) return [];
+    return detectCandlestickPatterns(data).map((p) => {
+      const time = p.time as Time;
+      if (p.direction === "bullish") {
+        return { time, position: "belowBar", shape: "arrowUp", color: "#22c55e", text: formatPatternName(p.name) };
+      }
+      if (p.direction === "bearish") {
+        return { time, position: "aboveBar", shape: "arrowDown", color: "#ef4444", text: formatPatternName(p.name) };
+      }
+      return { time, position: "aboveBar", shape: "circle", color: "#9ca3af", size: 0.5 };
+    });
+  }, [data, showPatterns]);
+
+  // Calls made during the replay; after the reveal, where each one was closed out
+  const replayMarkers = useMemo<SeriesMarker<Time>[]>(() => {
+    if (!replay) return [];
+    const callMarkers = replay.calls.map((call): SeriesMarker<Time> => {
+      const bullish = call.direction === "bullish";
+      const who = call.source === "you" ? "" : `${call.source} `;
+      return {
+        time: allData[call.index].time as Time,
+        position: bullish ? "belowBar" : "aboveBar",
+        shape: bullish ? "arrowUp" : "arrowDown",
+        color: call.source === "you" ? "#38bdf8" : ANALYST_COLORS[call.source],
+        text: `${who}${call.kind === "entry" ? (bullish ? "buy" : "short") : call.direction}`,
+      };
+    });
+    const exitMarkers = replayOutcomes.map((o): SeriesMarker<Time> => ({
+      time: allData[o.exitIndex].time as Time,
+      position: "inBar",
+      shape: "circle",
+      color: o.correct ? "#22c55e" : "#ef4444",
+      text: `${o.returnPct >= 0 ? "+" : ""}${o.returnPct.toFixed(1)}%`,
+    }));
+    return [...callMarkers, ...exitMarkers];
+  }, [replay, replayOutcomes, allData]);
+
+  const markers = useMemo(
+    () => [...patternMarkers, ...replayMarkers].sort((a, b) => timeToSeconds(a.time as string | number) - timeToSeconds(b.time as string | number)),
+    [patternMarkers, replayMarkers],
+  );
+
+  // Indicator waiting for a bar click to set its time parameter (anchored VWAP)
+  const [pickingId, setPickingId] = useState<string | null>(null);
+  const pickingIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    pickingIdRef.current = pickingId;
+  }, [pickingId]);
+
+  // User drawings, stored per symbol; reloaded when another symbol is shown
+  const [drawingState, setDrawingState] = useState(() => ({ symbol, drawings: loadDrawings(symbol) }));
+  if (drawingState.symbol !== symbol) {
+    setDrawingState({ symbol, drawings: loadDrawings(symbol) });
+  }
+  const drawings = drawingState.drawings;
+  const updateDrawings = useCallback((update: (prev: Drawing[]) => Drawing[]) => {
+    setDrawingState((prev) => ({ ...prev, drawings: update(prev.drawings) }));
+  }, []);
+
+  useEffect(() => {
+    saveDrawings(drawingState.symbol, drawingState.drawings);
+  }, [drawingState]);
+
+  // Tool being placed, and the anchors clicked so far
+  const [activeTool, setActiveTool] = useState<DrawingTool | null>(null);
+  const [drawingColor, setDrawingColor] = useState(DEFAULT_DRAWING_COLOR);
+  const activeToolRef = useRef<DrawingTool | null>(null);
+  const drawingColorRef = useRef(drawingColor);
+  const pendingAnchorsRef = useRef<Drawing["anchors"]>([]);
+  const drawingsRef = useRef(drawings);
+  const drawingsPrimitiveRef = useRef<DrawingsPrimitive | null>(null);
+
+  useEffect(() => {
+    activeToolRef.current = activeTool;
+    pendingAnchorsRef.current = [];
+    drawingsPrimitiveRef.current?.setDrawings(drawingsRef.current, null);
+  }, [activeTool]);
+
+  useEffect(() => {
+    drawingColorRef.current = drawingColor;
+  }, [drawingColor]);
+
+  // Indicator results come from a worker; pair them with the current instances so
+  // colours and panes follow edits immediately and removed indicators never linger
+  const computedResults = useIndicatorResults(data, indicators);
+  const indicatorResults = useMemo(() => {
+    const byId = new Map(computedResults.map((entry) => [entry.indicator.id, entry.result]));
+    return indicators.flatMap((indicator) => {
+      const result = byId.get(indicator.id);
+      return result ? [{ indicator, result }] : [];
+    });
+  }, [computedResults, indicators]);
+  const paneByIndicator = useMemo(() => assignPanes(indicators), [indicators]);
+  const indicatorPaneCount = Math.max(0, ...paneByIndicator.values());
+  // Relative-strength ratios get a pane below the indicator panes
+  const ratioPane = comparisonMode === "ratio" && comparisonLines.length > 0 ? indicatorPaneCount + 1 : null;
+  const subPaneCount = ratioPane ?? indicatorPaneCount;
+
+  // Calculate dynamic height
   const getChartHeight = useCallback(() => {
     const base = window.innerWidth < 640 ? 300 : 450;
-    let extra = 0;
-    if (hasRsi) extra += 120;
-    if (hasMacd) extra += 120;
-    return base + extra;
-  }, [hasRsi, hasMacd]);
+    return base + subPaneCount * SUB_PANE_HEIGHT;
+  }, [subPaneCount]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -170,12 +490,18 @@ export default function Chart({ data, symbol, dark = true }: ChartProps) {
           break;
         }
         case "ArrowRight": {
+          if (replayActive) break;  // Steps the replay instead
           timeScale.scrollToPosition(
             timeScale.scrollPosition() + PAN_STEP,
             false,
           );
           break;
         }
+        case "Escape": {
+          setActiveTool(null);
+          setPickingReplay(false);
+          break;
+        }
       }
     };
 
@@ -190,134 +516,211 @@ export default function Chart({ data, symbol, dark = true }: ChartProps) {
       wickUpColor: "#22c55e",
     });
     candleSeries.setData(data as Parameters<typeof candleSeries.setData>[0]);
+    if (markers.length > 0) createSeriesMarkers(candleSeries, markers);
 
-    // SMA overlays
-    if (indicatorConfig.sma20 && sma20Data.length > 0) {
-      const s = chart.addSeries(LineSeries, { color: "#f59e0b", lineWidth: 1, priceScaleId: "right" });
-      s.setData(sma20Data as Parameters<typeof s.setData>[0]);
-    }
-    if (indicatorConfig.sma50 && sma50Data.length > 0) {
-      const s = chart.addSeries(LineSeries, { color: "#3b82f6", lineWidth: 1, priceScaleId: "right" });
-      s.setData(sma50Data as Parameters<typeof s.setData>[0]);
-    }
-    if (indicatorConfig.sma200 && sma200Data.length > 0) {
-      const s = chart.addSeries(LineSeries, { color: "#a855f7", lineWidth: 1, priceScaleId: "right" });
-      s.setData(sma200Data as Parameters<typeof s.setData>[0]);
-    }
+    // --- Market structure: zones, zig-zag swings and chart patterns ---
 
-    // EMA overlays
-    if (indicatorConfig.ema12 && ema12Data.length > 0) {
-      const s = chart.addSeries(LineSeries, { color: "#06b6d4", lineWidth: 1, priceScaleId: "right" });
-      s.setData(ema12Data as Parameters<typeof s.setData>[0]);
-    }
-    if (indicatorConfig.ema26 && ema26Data.length > 0) {
-      const s = chart.addSeries(LineSeries, { color: "#ec4899", lineWidth: 1, priceScaleId: "right" });
-      s.setData(ema26Data as Parameters<typeof s.setData>[0]);
-    }
+    if (structure) {
+      if (structure.zones.length > 0) candleSeries.attachPrimitive(new ZonesPrimitive(structure.zones));
 
-    // Bollinger Bands
-    if (indicatorConfig.bollingerBands && bollingerData.middle.length > 0) {
-      const upperS = chart.addSeries(LineSeries, {
-        color: "rgba(100,149,237,0.5)",
-        lineWidth: 1,
+      const overlayOptions = {
+        lineWidth: 1 as const,
         priceScaleId: "right",
-      });
-      upperS.setData(bollingerData.upper as Parameters<typeof upperS.setData>[0]);
+        lastValueVisible: false,
+        priceLineVisible: false,
+        crosshairMarkerVisible: false,
+      };
 
-      const middleS = chart.addSeries(LineSeries, {
-        color: "rgba(100,149,237,0.8)",
-        lineWidth: 1,
-        priceScaleId: "right",
-        lineStyle: 2, // dashed
-      });
-      middleS.setData(bollingerData.middle as Parameters<typeof middleS.setData>[0]);
+      if (structure.swings.length > 1) {
+        const zigzag = chart.addSeries(LineSeries, {
+          ...overlayOptions,
+          color: "rgba(156,163,175,0.5)",
+          lineStyle: 2,
+        });
+        zigzag.setData(
+          structure.swings.map((s) => ({ time: s.time, value: s.price })) as Parameters<typeof zigzag.setData>[0],
+        );
+      }
 
-      const lowerS = chart.addSeries(LineSeries, {
-        color: "rgba(100,149,237,0.5)",
-        lineWidth: 1,
-        priceScaleId: "right",
-      });
-      lowerS.setData(bollingerData.lower as Parameters<typeof lowerS.setData>[0]);
+      for (const pattern of structure.patterns) {
+        const color = PATTERN_COLORS[pattern.direction];
+        for (const { from, to } of pattern.lines) {
+          if (from.time === to.time) continue;
+          const s = chart.addSeries(LineSeries, { ...overlayOptions, color, lineWidth: 2 });
+          s.setData([
+            { time: from.time, value: from.price },
+            { time: to.time, value: to.price },
+          ] as Parameters<typeof s.setData>[0]);
+        }
+
+        // Levels of patterns still forming
+        if (pattern.status !== "forming") continue;
+        const name = formatChartPatternName(pattern.kind);
+        if (pattern.breakout !== null) {
+          candleSeries.createPriceLine({ price: pattern.breakout, color, lineWidth: 1, lineStyle: 0, title: `${name} breakout` });
+        }
+        if (pattern.target !== null) {
+          candleSeries.createPriceLine({ price: pattern.target, color, lineWidth: 1, lineStyle: 2, title: `${name} target` });
+        }
+      }
     }
 
-    // --- Sub-panes: RSI and MACD ---
-    let nextPane = 1;
+    // --- Analyst levels, kept up to date by their own effect ---
 
-    // RSI pane
-    if (indicatorConfig.rsi && rsiData.length > 0) {
-      const rsiPane = nextPane++;
+    const levelClusters = new LevelClustersPrimitive();
+    candleSeries.attachPrimitive(levelClusters);
+    const analystLayer: AnalystLayer = { series: candleSeries, clusters: levelClusters, lines: [] };
+    drawAnalystOverlay(analystLayer, analystOverlayRef.current);
+    analystLayerRef.current = analystLayer;
 
-      const rsiSeries = chart.addSeries(LineSeries, {
-        color: "#f59e0b",
-        lineWidth: 2,
-        priceScaleId: "right",
-        autoscaleInfoProvider: () => ({
-          priceRange: { minValue: 0, maxValue: 100 },
-        }),
-      }, rsiPane);
-      rsiSeries.setData(rsiData as Parameters<typeof rsiSeries.setData>[0]);
+    // --- Indicators: overlays on pane 0, oscillators in sub-panes ---
 
-      // Overbought line (70)
-      const overboughtData = rsiData.map((p) => ({ time: p.time, value: 70 }));
-      const obSeries = chart.addSeries(LineSeries, {
-        color: "rgba(255,255,255,0.2)",
-        lineWidth: 1,
-        lineStyle: 2,
-        priceScaleId: "right",
-        crosshairMarkerVisible: false,
-      }, rsiPane);
-      obSeries.setData(overboughtData as Parameters<typeof obSeries.setData>[0]);
+    const guidesDrawn = new Set<string>();
 
-      // Oversold line (30)
-      const oversoldData = rsiData.map((p) => ({ time: p.time, value: 30 }));
-      const osSeries = chart.addSeries(LineSeries, {
-        color: "rgba(255,255,255,0.2)",
-        lineWidth: 1,
-        lineStyle: 2,
-        priceScaleId: "right",
-        crosshairMarkerVisible: false,
-      }, rsiPane);
-      osSeries.setData(oversoldData as Parameters<typeof osSeries.setData>[0]);
-    }
+    for (const { indicator, result } of indicatorResults) {
+      const def = getIndicatorDefinition(indicator.type);
+      const pane = paneByIndicator.get(indicator.id) ?? 0;
+      const range = def.range;
 
-    // MACD pane
-    if (indicatorConfig.macd && macdData.macd.length > 0) {
-      const macdPane = nextPane++;
+      if (result.profile) {
+        candleSeries.attachPrimitive(new VolumeProfilePrimitive(result.profile, indicator.color));
+      }
+      if (result.cloud) {
+        candleSeries.attachPrimitive(new CloudPrimitive(result.cloud.spanA, result.cloud.spanB));
+      }
 
-      // MACD line
-      const macdSeries = chart.addSeries(LineSeries, {
-        color: "#3b82f6",
-        lineWidth: 2,
-        priceScaleId: "right",
-      }, macdPane);
-      macdSeries.setData(macdData.macd as Parameters<typeof macdSeries.setData>[0]);
+      for (const line of result.lines) {
+        if (line.points.length === 0) continue;
+
+        if (line.style === "histogram") {
+          const histSeries = chart.addSeries(HistogramSeries, {
+            priceScaleId: "right",
+          }, pane);
+          const histColored = line.points.map((p, i) => ({
+            time: p.time,
+            value: p.value,
+            color: line.colors?.[i] ?? (p.value >= 0 ? "rgba(34,197,94,0.6)" : "rgba(239,68,68,0.6)"),
+          }));
+          histSeries.setData(histColored as Parameters<typeof histSeries.setData>[0]);
+          continue;
+        }
 
-      // Signal line
-      if (macdData.signal.length > 0) {
-        const signalSeries = chart.addSeries(LineSeries, {
-          color: "#ef4444",
+        const s = chart.addSeries(LineSeries, {
+          color: lineColor(line, indicator),
+          lineWidth: pane === 0 ? 1 : 2,
+          lineStyle: line.style === "dashed" ? 2 : 0,
+          ...(line.style === "dots" && {
+            lineVisible: false,
+            pointMarkersVisible: true,
+            pointMarkersRadius: 1.5,
+            crosshairMarkerVisible: false,
+          }),
+          priceScaleId: "right",
+          ...(range && {
+            autoscaleInfoProvider: () => ({
+              priceRange: { minValue: range.min, maxValue: range.max },
+            }),
+          }),
+        }, pane);
+        const lineData = line.colors
+          ? line.points.map((p, i) => ({ ...p, color: line.colors?.[i] }))
+          : line.points;
+        s.setData(lineData as Parameters<typeof s.setData>[0]);
+      }
+
+      // Guide lines (e.g. RSI 70/30), once per pane
+      const times = result.lines[0]?.points.map((p) => p.time) ?? [];
+      for (const level of def.guides ?? []) {
+        const key = `${pane}:${level}`;
+        if (times.length === 0 || guidesDrawn.has(key)) continue;
+        guidesDrawn.add(key);
+
+        const guideSeries = chart.addSeries(LineSeries, {
+          color: "rgba(255,255,255,0.2)",
+          lineWidth: 1,
+          lineStyle: 2,
+          priceScaleId: "right",
+          crosshairMarkerVisible: false,
+        }, pane);
+        guideSeries.setData(times.map((time) => ({ time, value: level })) as Parameters<typeof guideSeries.setData>[0]);
+      }
+    }
+
+    // --- Comparison symbols: percent change on the price pane, or ratios in their own pane ---
+
+    if (comparisonLines.length > 0 && ratioPane === null) {
+      // Percentage mode rebases every series on the price scale to the first visible bar
+      chart.priceScale("right").applyOptions({ mode: PriceScaleMode.Percentage });
+      for (const comparison of comparisonLines) {
+        const s = chart.addSeries(LineSeries, {
+          color: comparison.color,
           lineWidth: 2,
           priceScaleId: "right",
-        }, macdPane);
-        signalSeries.setData(macdData.signal as Parameters<typeof signalSeries.setData>[0]);
+          priceLineVisible: false,
+          title: comparison.symbol,
+        });
+        s.setData(closesOnBaseBars(data, comparison.data) as Parameters<typeof s.setData>[0]);
       }
+    }
 
-      // Histogram
-      if (macdData.histogram.length > 0) {
-        const histSeries = chart.addSeries(HistogramSeries, {
+    if (ratioPane !== null) {
+      let times: CandleData["time"][] = [];
+      for (const comparison of comparisonLines) {
+        const points = relativeStrength(data, comparison.data);
+        if (points.length > times.length) times = points.map((p) => p.time);
+        const s = chart.addSeries(LineSeries, {
+          color: comparison.color,
+          lineWidth: 2,
           priceScaleId: "right",
-        }, macdPane);
-        const histColored = macdData.histogram.map((p) => ({
-          time: p.time,
-          value: p.value,
-          color: p.value >= 0 ? "rgba(34,197,94,0.6)" : "rgba(239,68,68,0.6)",
-        }));
-        histSeries.setData(histColored as Parameters<typeof histSeries.setData>[0]);
+          priceLineVisible: false,
+          title: `vs ${comparison.symbol}`,
+        }, ratioPane);
+        s.setData(points as Parameters<typeof s.setData>[0]);
       }
+
+      // Parity with the first shared bar
+      const parity = chart.addSeries(LineSeries, {
+        color: "rgba(255,255,255,0.2)",
+        lineWidth: 1,
+        lineStyle: 2,
+        priceScaleId: "right",
+        crosshairMarkerVisible: false,
+        lastValueVisible: false,
+        priceLineVisible: false,
+      }, ratioPane);
+      parity.setData(times.map((time) => ({ time, value: 100 })) as Parameters<typeof parity.setData>[0]);
     }
 
-    chart.timeScale().fitContent();
+    // --- User drawings, drawn above everything else on the price pane ---
+
+    const timeline = barTimeline(data);
+    const drawingsPrimitive = new DrawingsPrimitive(timeline);
+    candleSeries.attachPrimitive(drawingsPrimitive);
+    drawingsPrimitive.setDrawings(drawingsRef.current, null);
+    drawingsPrimitiveRef.current = drawingsPrimitive;
+
+    // Chart point under the mouse as a drawing anchor (price pane only)
+    const anchorAt = (param: MouseEventParams) => {
+      if (!param.point || (param.paneIndex ?? 0) !== 0) return null;
+      const logical = chart.timeScale().coordinateToLogical(param.point.x);
+      const price = candleSeries.coordinateToPrice(param.point.y);
+      return logical === null || price === null ? null : { time: timeline.toTime(logical), price };
+    };
+
+    // A replay keeps its view between steps, moving right when the new bar would fall off
+    const saved = replayRangeRef.current;
+    if (!replayActive) {
+      chart.timeScale().fitContent();
+    } else if (saved) {
+      const to = Math.max(saved.to, data.length + 2);
+      chart.timeScale().setVisibleLogicalRange({ from: saved.from + to - saved.to, to });
+    } else {
+      chart.timeScale().setVisibleLogicalRange({ from: data.length - REPLAY_VIEW_BARS, to: data.length + 10 });
+    }
     chartRef.current = chart;
+    if (snapshotRef) {
+      snapshotRef.current = () => chart.takeScreenshot().toDataURL("image/png");
+    }
 
     const handleResize = () => {
       if (containerRef.current && chartRef.current) {
@@ -329,19 +732,101 @@ export default function Chart({ data, symbol, dark = true }: ChartProps) {
       }
     };
 
+    // Place the anchors of the active drawing tool; the drawing is saved on its last anchor
+    const placeAnchor = (param: MouseEventParams) => {
+      const tool = activeToolRef.current;
+      const anchor = tool && anchorAt(param);
+      if (!tool || !anchor) return;
+
+      const anchors = [...pendingAnchorsRef.current, anchor];
+      if (anchors.length < DRAWING_TOOLS[tool].anchors) {
+        pendingAnchorsRef.current = anchors;
+        return;
+      }
+      pendingAnchorsRef.current = [];
+      const text = tool === "text" ? window.prompt("Note text")?.trim() : undefined;
+      if (tool === "text" && !text) return;
+      updateDrawings((prev) => [...prev, createDrawing(tool, anchors, drawingColorRef.current, text)]);
+      setActiveTool(null);
+    };
+
+    // Rubber-band preview of a two-point drawing after its first click
+    const handleCrosshairMove = (param: MouseEventParams) => {
+      const tool = activeToolRef.current;
+      const [first] = pendingAnchorsRef.current;
+      if (!tool || !first) return;
+      const anchor = anchorAt(param);
+      if (!anchor) return;
+      drawingsPrimitive.setDrawings(drawingsRef.current, {
+        id: "preview",
+        tool,
+        anchors: [first, anchor],
+        color: drawingColorRef.current,
+      });
+    };
+    chart.subscribeCrosshairMove(handleCrosshairMove);
+
+    // Set the time parameter of the indicator being anchored to the clicked bar
+    const handleClick = (param: MouseEventParams) => {
+      if (activeToolRef.current) {
+        placeAnchor(param);
+        return;
+      }
+      // Start a replay with the clicked bar as the last one shown
+      if (pickingReplayRef.current) {
+        if (param.logical === undefined) return;
+        const start = Math.min(Math.max(Math.round(param.logical), MIN_REPLAY_BARS - 1), data.length - 2);
+        if (start < 0) return;
+        replayRangeRef.current = null;
+        setReplay({ data, start, cursor: start, playing: false, revealed: false, calls: [] });
+        setPickingReplay(false);
+        return;
+      }
+      const id = pickingIdRef.current;
+      if (!id || param.logical === undefined) return;
+      const bar = data[Math.round(param.logical)];
+      if (!bar) return;
+
+      const time = timeToSeconds(bar.time);
+      setIndicators((prev) =>
+        prev.map((i) => {
+          const key = getIndicatorDefinition(i.type).params.find((p) => p.kind === "time")?.key;
+          return i.id === id && key ? { ...i, params: { ...i.params, [key]: time } } : i;
+        }),
+      );
+      setPickingId(null);
+    };
+    chart.subscribeClick(handleClick);
+
     window.addEventListener("resize", handleResize);
     window.addEventListener("keydown", handleKeyDown);
 
     return () => {
       window.removeEventListener("resize", handleResize);
       window.removeEventListener("keydown", handleKeyDown);
+      chart.unsubscribeClick(handleClick);
+      chart.unsubscribeCrosshairMove(handleCrosshairMove);
+      drawingsPrimitiveRef.current = null;
+      analystLayerRef.current = null;
+      if (snapshotRef) snapshotRef.current = null;
+      replayRangeRef.current = replayActive ? chart.timeScale().getVisibleLogicalRange() : null;
 
       if (chartRef.current) {
         chartRef.current.remove();
         chartRef.current = null;
       }
     };
-  }, [data, dark, indicatorConfig, sma20Data, sma50Data, sma200Data, ema12Data, ema26Data, bollingerData, rsiData, macdData, getChartHeight]);
+  }, [data, dark, indicatorResults, paneByIndicator, markers, structure, comparisonLines, ratioPane, getChartHeight, snapshotRef, updateDrawings, replayActive]);
+
+  useEffect(() => {
+    drawingsRef.current = drawings;
+    drawingsPrimitiveRef.current?.setDrawings(drawings, null);
+  }, [drawings]);
+
+  useEffect(() => {
+    analystOverlayRef.current = analystOverlay;
+    if (analystLayerRef.current) drawAnalystOverlay(analystLayerRef.current, analystOverlay);
+  }, [analystOverlay]);
 
   const [copied, setCopied] = useState(false);
 
@@ -360,55 +845,158 @@ export default function Chart({ data, symbol, dark = true }: ChartProps) {
           {symbol ? `${symbol} Chart` : "Chart"}
         </h2>
         {data.length > 0 && (
-          <button
-            onClick={handleCopy}
-            className="flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-          >
-            {copied ? (
-              <>
-                <svg
-                  className="w-3.5 h-3.5"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={2}
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M5 13l4 4L19 7"
-                  />
-                </svg>
-                Copied
-              </>
-            ) : (
-              <>
-                <svg
-                  className="w-3.5 h-3.5"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={2}
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-                  />
-                </svg>
-                Copy Data
-              </>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowPatterns(!showPatterns)}
+              className={toggleClass(showPatterns)}
+              title="Mark detected candlestick patterns"
+            >
+              Candles
+            </button>
+            <button
+              onClick={() => setShowStructure(!showStructure)}
+              className={toggleClass(showStructure)}
+              title="Show swings, support/resistance zones and chart patterns"
+            >
+              Structure
+            </button>
+            <button
+              onClick={() => (replay ? setReplay(null) : setPickingReplay(!pickingReplay))}
+              className={toggleClass(!!replay || pickingReplay)}
+              title="Practice without hindsight: hide later bars, step forward and score your calls"
+            >
+              Replay
+            </button>
+            {analystSignals.length > 0 && (
+              <button
+                onClick={() => setShowAnalystLevels(!showAnalystLevels)}
+                className={toggleClass(showAnalystLevels)}
+                title="Plot each analyst's support, resistance and targets; shaded bands mark levels several analysts agree on"
+              >
+                Analysts
+              </button>
             )}
-          </button>
+            <button
+              onClick={handleCopy}
+              className="flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              {copied ? (
+                <>
+                  <svg
+                    className="w-3.5 h-3.5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M5 13l4 4L19 7"
+                    />
+                  </svg>
+                  Copied
+                </>
+              ) : (
+                <>
+                  <svg
+                    className="w-3.5 h-3.5"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                    />
+                  </svg>
+                  Copy Data
+                </>
+              )}
+            </button>
+          </div>
         )}
       </div>
 
       {data.length > 0 && (
         <div className="mb-3">
           <IndicatorSelector
-            config={indicatorConfig}
-            onChange={setIndicatorConfig}
+            indicators={indicators}
+            onChange={setIndicators}
+            pickingId={pickingId}
+            onPickTime={setPickingId}
           />
+          <div className="mt-2">
+            <DrawingToolbar
+              activeTool={activeTool}
+              onToolChange={setActiveTool}
+              color={drawingColor}
+              onColorChange={setDrawingColor}
+              count={drawings.length}
+              onUndo={() => updateDrawings((prev) => prev.slice(0, -1))}
+              onClear={() => {
+                if (window.confirm(`Remove all drawings for ${symbol}?`)) updateDrawings(() => []);
+              }}
+            />
+          </div>
+          {onComparisonsChange && (
+            <div className="mt-2">
+              <ComparisonSelector
+                baseSymbol={symbol}
+                comparisons={comparisons}
+                onChange={onComparisonsChange}
+                mode={comparisonMode}
+                onModeChange={setComparisonMode}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTool && (
+        <div className="mb-2 flex items-center justify-between text-xs text-[var(--color-accent-cyan)] font-manrope">
+          <span>{DRAWING_TOOLS[activeTool].hint}</span>
+          <button onClick={() => setActiveTool(null)} className="text-[#666666] hover:text-white">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {pickingReplay && (
+        <div className="mb-2 flex items-center justify-between text-xs text-[var(--color-accent-cyan)] font-manrope">
+          <span>Click the bar to replay from; the bars after it will be hidden.</span>
+          <button onClick={() => setPickingReplay(false)} className="text-[#666666] hover:text-white">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {replay && (
+        <ReplayPanel
+          barLabel={formatBarTime(allData[replay.cursor].time)}
+          bar={replay.cursor + 1}
+          totalBars={allData.length}
+          playing={replay.playing}
+          revealed={replay.revealed}
+          calls={replay.calls}
+          outcomes={replayOutcomes}
+          scores={replayScores}
+          onStep={stepReplay}
+          onTogglePlay={() => setReplay({ ...replay, playing: !replay.playing })}
+          onCall={recordCall}
+          onReveal={() => setReplay({ ...replay, playing: false, revealed: true })}
+          onExit={() => setReplay(null)}
+        />
+      )}
+
+      {pickingId && (
+        <div className="mb-2 flex items-center justify-between text-xs text-[var(--color-accent-cyan)] font-manrope">
+          <span>Click a bar on the chart to set the anchor.</span>
+          <button onClick={() => setPickingId(null)} className="text-[#666666] hover:text-white">
+            Cancel
+          </button>
         </div>
       )}
 
@@ -0,0 +1,404 @@
+import type {
+  IChartApi,
+  IPrimitivePaneRenderer,
+  IPrimitivePaneView,
+  ISeriesApi,
+  ISeriesPrimitive,
+  Logical,
+  SeriesAttachedParameter,
+  SeriesType,
+  Time,
+} from "lightweight-charts";
+import type { Drawing, IndicatorPoint, SupportResistanceZone, VolumeProfileResult } from "../../lib/types";
+import { withAlpha } from "../../lib/indicatorRegistry";
+import { fibonacciLevels, type BarTimeline } from "../../lib/drawings";
+import type { AnalystLevelCluster } from "../../lib/analystLevels";
+
+/**
+ * Custom drawings for lightweight-charts, attached to the candlestick series
+ * with `series.attachPrimitive()`.
+ */
+
+type RenderTarget = Parameters<IPrimitivePaneRenderer["draw"]>[0];
+
+// Widest profile row, as a share of the pane width
+const PROFILE_MAX_WIDTH = 0.25;
+
+/**
+ * Horizontal volume-by-price bars along the right edge of the price pane.
+ * Rows inside the value area are drawn stronger, the POC row strongest.
+ */
+export class VolumeProfilePrimitive implements ISeriesPrimitive<Time> {
+  private series: ISeriesApi<SeriesType> | null = null;
+  private readonly views: readonly IPrimitivePaneView[];
+
+  constructor(
+    private readonly profile: VolumeProfileResult,
+    private readonly color: string,
+  ) {
+    this.views = [{ zOrder: () => "bottom", renderer: () => this.renderer() }];
+  }
+
+  attached({ series }: SeriesAttachedParameter<Time>) {
+    this.series = series;
+  }
+
+  detached() {
+    this.series = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const series = this.series;
+    if (!series) return null;
+    const { bins, poc, valueAreaLow, valueAreaHigh } = this.profile;
+    const maxVolume = Math.max(...bins.map((b) => b.volume));
+
+    return {
+      draw: (target: RenderTarget) => {
+        target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+          const maxWidth = mediaSize.width * PROFILE_MAX_WIDTH;
+          for (const bin of bins) {
+            const top = series.priceToCoordinate(bin.high);
+            const bottom = series.priceToCoordinate(bin.low);
+            if (top === null || bottom === null || bin.volume === 0) continue;
+
+            const height = Math.max(1, bottom - top - 1);
+            const width = (bin.volume / maxVolume) * maxWidth;
+            const upWidth = (bin.upVolume / bin.volume) * width;
+            const isPoc = poc >= bin.low && poc <= bin.high;
+            const inValueArea = bin.low >= valueAreaLow && bin.high <= valueAreaHigh;
+            const alpha = isPoc ? 0.7 : inValueArea ? 0.45 : 0.2;
+
+            const x = mediaSize.width - width;
+            ctx.fillStyle = withAlpha(this.color, alpha);
+            ctx.fillRect(x, top, upWidth, height);
+            ctx.fillStyle = withAlpha(this.color, alpha / 2);
+            ctx.fillRect(x + upWidth, top, width - upWidth, height);
+          }
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Filled area between two lines of the price pane, green where `spanA` is
+ * above `spanB` and red where below (the Ichimoku cloud).
+ */
+export class CloudPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private readonly views: readonly IPrimitivePaneView[];
+  private readonly pairs: { time: Time; a: number; b: number }[];
+
+  constructor(spanA: IndicatorPoint[], spanB: IndicatorPoint[]) {
+    const bByTime = new Map(spanB.map((p) => [p.time, p.value]));
+    this.pairs = spanA
+      .filter((p) => bByTime.has(p.time))
+      .map((p) => ({ time: p.time as Time, a: p.value, b: bByTime.get(p.time) as number }));
+    this.views = [{ zOrder: () => "bottom", renderer: () => this.renderer() }];
+  }
+
+  attached({ chart, series }: SeriesAttachedParameter<Time>) {
+    this.chart = chart;
+    this.series = series;
+  }
+
+  detached() {
+    this.chart = null;
+    this.series = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const { chart, series } = this;
+    if (!chart || !series) return null;
+    const timeScale = chart.timeScale();
+
+    return {
+      draw: (target: RenderTarget) => {
+        target.useMediaCoordinateSpace(({ context: ctx }) => {
+          let prev: { x: number; a: number; b: number; up: boolean } | null = null;
+          for (const pair of this.pairs) {
+            const x = timeScale.timeToCoordinate(pair.time);
+            const a = series.priceToCoordinate(pair.a);
+            const b = series.priceToCoordinate(pair.b);
+            if (x === null || a === null || b === null) {
+              prev = null;
+              continue;
+            }
+            const current = { x, a, b, up: pair.a >= pair.b };
+            if (prev) {
+              ctx.fillStyle = current.up ? "rgba(34,197,94,0.15)" : "rgba(239,68,68,0.15)";
+              ctx.beginPath();
+              ctx.moveTo(prev.x, prev.a);
+              ctx.lineTo(current.x, current.a);
+              ctx.lineTo(current.x, current.b);
+              ctx.lineTo(prev.x, prev.b);
+              ctx.closePath();
+              ctx.fill();
+            }
+            prev = current;
+          }
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Support/resistance zones as translucent bands across the price pane
+ */
+export class ZonesPrimitive implements ISeriesPrimitive<Time> {
+  private series: ISeriesApi<SeriesType> | null = null;
+  private readonly views: readonly IPrimitivePaneView[];
+
+  constructor(private readonly zones: SupportResistanceZone[]) {
+    this.views = [{ zOrder: () => "bottom", renderer: () => this.renderer() }];
+  }
+
+  attached({ series }: SeriesAttachedParameter<Time>) {
+    this.series = series;
+  }
+
+  detached() {
+    this.series = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const series = this.series;
+    if (!series) return null;
+
+    return {
+      draw: (target: RenderTarget) => {
+        target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+          for (const zone of this.zones) {
+            const top = series.priceToCoordinate(zone.high);
+            const bottom = series.priceToCoordinate(zone.low);
+            if (top === null || bottom === null) continue;
+
+            // Stronger zones (more touches) are drawn more opaque
+            const alpha = Math.min(0.25, 0.06 + zone.touches * 0.03);
+            ctx.fillStyle = zone.kind === "support" ? `rgba(34,197,94,${alpha})` : `rgba(239,68,68,${alpha})`;
+            ctx.fillRect(0, top, mediaSize.width, Math.max(2, bottom - top));
+          }
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Bands where several analysts' levels agree, labelled with how many did.
+ * Like the drawings it outlives its inputs, so new analyst signals update it
+ * without rebuilding the chart.
+ */
+export class LevelClustersPrimitive implements ISeriesPrimitive<Time> {
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private clusters: AnalystLevelCluster[] = [];
+  private readonly views: readonly IPrimitivePaneView[];
+
+  constructor() {
+    this.views = [{ zOrder: () => "bottom", renderer: () => this.renderer() }];
+  }
+
+  attached({ series, requestUpdate }: SeriesAttachedParameter<Time>) {
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached() {
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  setClusters(clusters: AnalystLevelCluster[]) {
+    this.clusters = clusters;
+    this.requestUpdate?.();
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const series = this.series;
+    if (!series) return null;
+
+    return {
+      draw: (target: RenderTarget) => {
+        target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+          ctx.font = "10px sans-serif";
+          for (const cluster of this.clusters) {
+            const top = series.priceToCoordinate(cluster.high);
+            const bottom = series.priceToCoordinate(cluster.low);
+            if (top === null || bottom === null) continue;
+
+            // Pad thin clusters so a band is always visible
+            const height = Math.max(6, bottom - top);
+            const y = (top + bottom - height) / 2;
+            ctx.fillStyle = `rgba(251,191,36,${Math.min(0.3, 0.08 * cluster.analysts.length)})`;
+            ctx.fillRect(0, y, mediaSize.width, height);
+            ctx.fillStyle = "rgba(251,191,36,0.9)";
+            ctx.fillText(`${cluster.analysts.length} analysts`, 4, y - 2);
+          }
+        });
+      },
+    };
+  }
+}
+
+/**
+ * User drawings (trend lines, rays, levels, Fibonacci, zones, notes). Unlike
+ * the other primitives it outlives its inputs: the chart hands it new
+ * drawings, and the one being placed, as they change.
+ */
+export class DrawingsPrimitive implements ISeriesPrimitive<Time> {
+  private chart: IChartApi | null = null;
+  private series: ISeriesApi<SeriesType> | null = null;
+  private requestUpdate: (() => void) | null = null;
+  private drawings: Drawing[] = [];
+  private preview: Drawing | null = null;
+  private readonly views: readonly IPrimitivePaneView[];
+
+  constructor(private readonly timeline: BarTimeline) {
+    this.views = [{ zOrder: () => "top", renderer: () => this.renderer() }];
+  }
+
+  attached({ chart, series, requestUpdate }: SeriesAttachedParameter<Time>) {
+    this.chart = chart;
+    this.series = series;
+    this.requestUpdate = requestUpdate;
+  }
+
+  detached() {
+    this.chart = null;
+    this.series = null;
+    this.requestUpdate = null;
+  }
+
+  paneViews() {
+    return this.views;
+  }
+
+  setDrawings(drawings: Drawing[], preview: Drawing | null) {
+    this.drawings = drawings;
+    this.preview = preview;
+    this.requestUpdate?.();
+  }
+
+  private renderer(): IPrimitivePaneRenderer | null {
+    const { chart, series } = this;
+    if (!chart || !series) return null;
+    const timeScale = chart.timeScale();
+    const toPoint = ({ time, price }: Drawing["anchors"][number]) => {
+      const x = timeScale.logicalToCoordinate(this.timeline.toLogical(time) as Logical);
+      const y = series.priceToCoordinate(price);
+      return x === null || y === null ? null : { x, y };
+    };
+    const drawings = this.preview ? [...this.drawings, this.preview] : this.drawings;
+
+    return {
+      draw: (target: RenderTarget) => {
+        target.useMediaCoordinateSpace(({ context: ctx, mediaSize }) => {
+          ctx.font = "11px sans-serif";
+          for (const drawing of drawings) {
+            const points = drawing.anchors.map(toPoint);
+            if (points.some((p) => p === null)) continue;
+            const [a, b] = points as { x: number; y: number }[];
+            ctx.globalAlpha = drawing === this.preview ? 0.6 : 1;
+            ctx.strokeStyle = drawing.color;
+            ctx.fillStyle = drawing.color;
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash([]);
+
+            switch (drawing.tool) {
+              case "trendline":
+              case "ray": {
+                let end = b;
+                if (drawing.tool === "ray" && b.x !== a.x) {
+                  // Extend through the second point to the right edge
+                  const dir = b.x > a.x ? 1 : -1;
+                  const edge = dir > 0 ? mediaSize.width : 0;
+                  end = { x: edge, y: a.y + ((b.y - a.y) / (b.x - a.x)) * (edge - a.x) };
+                }
+                ctx.beginPath();
+                ctx.moveTo(a.x, a.y);
+                ctx.lineTo(end.x, end.y);
+                ctx.stroke();
+                for (const p of [a, b]) {
+                  ctx.beginPath();
+                  ctx.arc(p.x, p.y, 2.5, 0, Math.PI * 2);
+                  ctx.fill();
+                }
+                break;
+              }
+              case "horizontal": {
+                ctx.beginPath();
+                ctx.moveTo(0, a.y);
+                ctx.lineTo(mediaSize.width, a.y);
+                ctx.stroke();
+                ctx.fillText(drawing.anchors[0].price.toFixed(2), 4, a.y - 3);
+                break;
+              }
+              case "fibonacci": {
+                const left = Math.min(a.x, b.x);
+                ctx.lineWidth = 1;
+                for (const level of fibonacciLevels(drawing.anchors[0].price, drawing.anchors[1].price)) {
+                  const y = series.priceToCoordinate(level.price);
+                  if (y === null) continue;
+                  ctx.setLineDash(level.kind === "extension" ? [4, 3] : []);
+                  ctx.beginPath();
+                  ctx.moveTo(left, y);
+                  ctx.lineTo(mediaSize.width, y);
+                  ctx.stroke();
+                  ctx.fillText(`${level.label} (${level.price.toFixed(2)})`, left + 4, y - 3);
+                }
+                // The measured move
+                ctx.setLineDash([2, 3]);
+                ctx.beginPath();
+                ctx.moveTo(a.x, a.y);
+                ctx.lineTo(b.x, b.y);
+                ctx.stroke();
+                break;
+              }
+              case "rectangle": {
+                const x = Math.min(a.x, b.x);
+                const y = Math.min(a.y, b.y);
+                const w = Math.abs(b.x - a.x);
+                const h = Math.abs(b.y - a.y);
+                ctx.fillStyle = withAlpha(drawing.color, 0.12);
+                ctx.fillRect(x, y, w, h);
+                ctx.strokeRect(x, y, w, h);
+                break;
+              }
+              case "text": {
+                ctx.font = "12px sans-serif";
+                ctx.fillText(drawing.text ?? "", a.x + 4, a.y - 4);
+                ctx.beginPath();
+                ctx.arc(a.x, a.y, 2.5, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.font = "11px sans-serif";
+                break;
+              }
+            }
+          }
+          ctx.globalAlpha = 1;
+          ctx.setLineDash([]);
+        });
+      },
+    };
+  }
+}
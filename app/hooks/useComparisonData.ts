@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { fetchStockData } from '../lib/yahoo';
+import { comparisonColor } from '../lib/comparison';
+import type { CandleData, ComparisonSeries, StockQuery } from '../lib/types';
+
+/**
+ * Candles for the comparison symbols, fetched with the main query's range and
+ * interval. Shares the stock data cache, so a comparison that was the main
+ * symbol before (or becomes it) is not fetched twice.
+ */
+export function useComparisonData(symbols: string[], query: StockQuery | null): ComparisonSeries[] {
+  // Stable per symbol list, so the combined array only changes when a query does
+  const combine = useCallback(
+    (results: UseQueryResult<CandleData[]>[]): ComparisonSeries[] =>
+      symbols.map((symbol, i) => ({
+        symbol,
+        color: comparisonColor(i),
+        data: results[i]?.data ?? [],
+        loading: results[i]?.isLoading ?? false,
+        error: results[i]?.error?.message ?? null,
+      })),
+    [symbols],
+  );
+
+  return useQueries({
+    queries: symbols.map((symbol) => ({
+      queryKey: ['stockData', symbol, query?.range, query?.interval],
+      queryFn: () => fetchStockData({ symbol, range: query!.range, interval: query!.interval }),
+      enabled: !!query,
+      staleTime: 2 * 60 * 1000,
+    })),
+    combine,
+  });
+}
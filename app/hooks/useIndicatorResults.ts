@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CandleData, IndicatorInstance } from '../lib/types';
+import type { IndicatorResult } from '../lib/indicatorRegistry';
+import {
+  applyResultPatch,
+  createIndicatorEngine,
+  publishIndicatorResults,
+  type IndicatorEngine,
+  type IndicatorResultEntry,
+} from '../lib/indicatorEngine';
+import type { IndicatorWorkerRequest, IndicatorWorkerResponse } from '../workers/indicatorWorker';
+
+/** Index of the first bar of `data` not already sent as `sent`, or null when the series was replaced */
+function firstChangedBar(sent: CandleData[] | null, data: CandleData[]): number | null {
+  if (!sent || sent.length === 0 || data.length < sent.length) return null;
+  if (data[0].time !== sent[0].time || data[sent.length - 1].time !== sent[sent.length - 1].time) return null;
+  return sent.length - 1;  // The last bar sent may have been revised
+}
+
+/**
+ * Indicator results for the chart, computed in a Web Worker. The worker keeps
+ * the series, so a live update posts only the new or revised bars and gets
+ * back only the changed tail of each result, applied here to a mirror of the
+ * worker's results. The previous results stay in place until the new ones
+ * arrive, so the chart never flashes empty; when workers are unavailable or
+ * the worker fails, the engine runs on the main thread. Results are published to the shared cache
+ * for the prompt builder.
+ */
+export function useIndicatorResults(data: CandleData[], indicators: IndicatorInstance[]): IndicatorResultEntry[] {
+  const [entries, setEntries] = useState<IndicatorResultEntry[]>([]);
+  const workerRef = useRef<Worker | null>(null);
+  const fallbackRef = useRef<IndicatorEngine | null>(null);
+  const requestIdRef = useRef(0);
+  // The latest request, the series the worker holds, and its results by indicator id
+  const latestRef = useRef({ data, indicators });
+  const sentRef = useRef<CandleData[] | null>(null);
+  const mirrorRef = useRef(new Map<string, IndicatorResult>());
+
+  const computeHere = useCallback((data: CandleData[], indicators: IndicatorInstance[]) => {
+    fallbackRef.current ??= createIndicatorEngine();
+    // Copy the entries so React sees a change even when results were extended in place
+    const result = fallbackRef.current.computeAll(data, indicators).map((entry) => ({ ...entry }));
+    publishIndicatorResults(data, result);
+    setEntries(result);
+  }, []);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/indicatorWorker.ts', import.meta.url));
+    } catch {
+      return;
+    }
+    sentRef.current = null;
+    mirrorRef.current = new Map();
+
+    // Every reply is applied, in order, to keep the mirror in step with the worker;
+    // only the latest is shown
+    const handleMessage = (event: MessageEvent<IndicatorWorkerResponse>) => {
+      const { id, patches } = event.data;
+      const latest = id === requestIdRef.current;
+      if (!patches) {
+        sentRef.current = null;  // The worker's series may be off; start over next time
+        if (latest) computeHere(latestRef.current.data, latestRef.current.indicators);
+        return;
+      }
+
+      const mirror = new Map<string, IndicatorResult>();
+      try {
+        for (const patch of patches) {
+          mirror.set(patch.indicatorId, applyResultPatch(mirrorRef.current.get(patch.indicatorId), patch));
+        }
+      } catch {
+        sentRef.current = null;
+        if (latest) computeHere(latestRef.current.data, latestRef.current.indicators);
+        return;
+      }
+      mirrorRef.current = mirror;
+      if (!latest) return;
+
+      const { data, indicators } = latestRef.current;
+      const result = indicators.flatMap((indicator) => {
+        const r = mirror.get(indicator.id);
+        // Fresh line objects so React sees a change when the points were extended in place
+        return r ? [{ indicator, result: { ...r, lines: r.lines.map((line) => ({ ...line })) } }] : [];
+      });
+      publishIndicatorResults(data, result);
+      setEntries(result);
+    };
+
+    // The worker failed to load, threw, or sent a reply that could not be read:
+    // its replies can no longer be trusted, so drop it and compute here from now on
+    const handleFailure = () => {
+      worker.terminate();
+      workerRef.current = null;
+      sentRef.current = null;
+      mirrorRef.current = new Map();
+      computeHere(latestRef.current.data, latestRef.current.indicators);
+    };
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleFailure);
+    worker.addEventListener('messageerror', handleFailure);
+    workerRef.current = worker;
+    return () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleFailure);
+      worker.removeEventListener('messageerror', handleFailure);
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [computeHere]);
+
+  useEffect(() => {
+    const id = ++requestIdRef.current;
+    latestRef.current = { data, indicators };
+
+    const worker = workerRef.current;
+    if (!worker) {
+      computeHere(data, indicators);
+      return;
+    }
+
+    const from = firstChangedBar(sentRef.current, data);
+    const request: IndicatorWorkerRequest = from === null
+      ? { id, kind: 'reset', data, indicators }
+      : { id, kind: 'update', from, bars: data.slice(from), indicators };
+    worker.postMessage(request);
+    sentRef.current = data;
+  }, [data, indicators, computeHere]);
+
+  return entries;
+}
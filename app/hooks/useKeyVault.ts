@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchKeyVaultStatus, KEY_VAULT_DISABLED, type KeyVaultStatus } from '../lib/keyVault';
+
+export function useKeyVault() {
+  const query = useQuery<KeyVaultStatus>({
+    queryKey: ['keyVault'],
+    queryFn: fetchKeyVaultStatus,
+    staleTime: Infinity,
+  });
+  return query.data ?? KEY_VAULT_DISABLED;
+}
@@ -1,9 +1,18 @@
-import { useState, useRef, useCallback } from "react";
-import { analyzeChart } from "../lib/llm";
-import { buildInitialUserMessage } from "../lib/formatData";
+import { useState, useRef, useCallback, useEffect } from "react";
+import { analyzeChart, isAbortError } from "../lib/llm";
+import { buildInitialUserMessage, CHART_IMAGE_NOTE } from "../lib/formatData";
 import { getAnalyst } from "../lib/analystPrompts";
+import { addUsage } from "../lib/tokenEstimator";
 import type { ModelConfig } from "../lib/models";
-import type { ChatMessage, CandleData, FundamentalsData, AnalystId, AnalystAnalysis } from "../lib/types";
+import type {
+  ChatMessage,
+  CandleData,
+  FundamentalsData,
+  PromptContext,
+  AnalystId,
+  AnalystAnalysis,
+  ToolCallRecord,
+} from "../lib/types";
 
 /**
  * Hook for managing multi-analyst analysis
@@ -15,6 +24,65 @@ export function useMultiAnalystAnalysis() {
   const [analyses, setAnalyses] = useState<Map<AnalystId, AnalystAnalysis>>(new Map());
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const analysesRef = useRef<Map<AnalystId, AnalystAnalysis>>(new Map());
+  const symbolRef = useRef("");  // Symbol of the current run, for ledger context on follow-ups
+  const controllersRef = useRef<Map<AnalystId, AbortController>>(new Map());
+
+  // Stop any in-flight streams when the component using the hook unmounts
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      for (const controller of controllers.values()) controller.abort();
+    };
+  }, []);
+
+  /**
+   * Finalize a cancelled turn, keeping whatever text streamed before the stop
+   */
+  const markInterrupted = useCallback(
+    (analystId: AnalystId, messages: ChatMessage[], partialText: string) => {
+      const finalMessages: ChatMessage[] = partialText
+        ? [...messages, { role: "assistant", content: partialText }]
+        : messages;
+      const patch = {
+        messages: finalMessages,
+        streamingText: null,
+        isLoading: false,
+        error: null,
+        interrupted: true,
+        finishReason: null,
+      };
+
+      setAnalyses((prev) => {
+        const updated = new Map(prev);
+        const current = updated.get(analystId);
+        if (current) updated.set(analystId, { ...current, ...patch });
+        return updated;
+      });
+
+      analysesRef.current = new Map(analysesRef.current);
+      const current = analysesRef.current.get(analystId);
+      if (current) analysesRef.current.set(analystId, { ...current, ...patch });
+    },
+    [],
+  );
+
+  /**
+   * Show a data tool call while the analyst is still working
+   */
+  const appendToolCall = useCallback((analystId: AnalystId, call: ToolCallRecord) => {
+    setAnalyses((prev) => {
+      const updated = new Map(prev);
+      const current = updated.get(analystId);
+      if (current) updated.set(analystId, { ...current, toolCalls: [...(current.toolCalls ?? []), call] });
+      return updated;
+    });
+
+    analysesRef.current = new Map(analysesRef.current);
+    const current = analysesRef.current.get(analystId);
+    if (current) {
+      analysesRef.current.set(analystId, { ...current, toolCalls: [...(current.toolCalls ?? []), call] });
+    }
+  }, []);
 
   /**
    * Analyze chart with multiple analysts in parallel
@@ -27,10 +95,15 @@ export function useMultiAnalystAnalysis() {
       symbol: string,
       candles: CandleData[],
       fundData: FundamentalsData | null,
+      structured = false,
+      tools = false,
+      chartImage: string | null = null,
+      context: PromptContext = {},
     ) => {
       if (analystIds.length === 0) return;
 
       setIsAnalyzing(true);
+      symbolRef.current = symbol;
 
       // Initialize analysis state for each analyst
       const initialAnalyses = new Map<AnalystId, AnalystAnalysis>();
@@ -41,6 +114,7 @@ export function useMultiAnalystAnalysis() {
           streamingText: null,
           isLoading: true,
           error: null,
+          toolCalls: [],
         });
       }
 
@@ -48,20 +122,24 @@ export function useMultiAnalystAnalysis() {
       analysesRef.current = new Map(initialAnalyses);
 
       // Build the initial user message (same OHLC data for all analysts)
-      const userMessage = buildInitialUserMessage(symbol, candles, fundData);
+      const userMessage = buildInitialUserMessage(symbol, candles, fundData, context);
 
       // Launch parallel analyses using Promise.allSettled
       const analysisPromises = analystIds.map(async (analystId) => {
+        const controller = new AbortController();
+        controllersRef.current.set(analystId, controller);
+        const messages: ChatMessage[] = [
+          chartImage
+            ? { role: "user", content: userMessage + CHART_IMAGE_NOTE, images: [chartImage] }
+            : { role: "user", content: userMessage },
+        ];
+        let assistantText = "";
+
         try {
           const analyst = getAnalyst(analystId);
-          const messages: ChatMessage[] = [
-            { role: "user", content: userMessage },
-          ];
-
-          let assistantText = "";
 
           // Stream analysis with real-time updates
-          await analyzeChart(
+          const { signals, usage, servedBy, finishReason, toolCalls } = await analyzeChart(
             model,
             apiKey,
             analyst.systemPrompt,
@@ -91,6 +169,13 @@ export function useMultiAnalystAnalysis() {
                 });
               }
             },
+            {
+              structured,
+              tools,
+              context: { symbol, analystId },
+              signal: controller.signal,
+              onToolCall: (call) => appendToolCall(analystId, call),
+            },
           );
 
           // Analysis complete - finalize this analyst
@@ -98,6 +183,8 @@ export function useMultiAnalystAnalysis() {
             ...messages,
             { role: "assistant", content: assistantText },
           ];
+          const extractedSignals = signals ? { analystId, ...signals } : null;
+          const fallbackName = servedBy === model ? null : servedBy.name;
 
           setAnalyses((prev) => {
             const updated = new Map(prev);
@@ -107,6 +194,11 @@ export function useMultiAnalystAnalysis() {
               streamingText: null,
               isLoading: false,
               error: null,
+              signals: extractedSignals,
+              usage,
+              servedBy: fallbackName,
+              finishReason,
+              toolCalls,
             });
             return updated;
           });
@@ -117,12 +209,25 @@ export function useMultiAnalystAnalysis() {
             streamingText: null,
             isLoading: false,
             error: null,
+            signals: extractedSignals,
+            usage,
+            servedBy: fallbackName,
+            finishReason,
+            toolCalls,
           });
 
           return { analystId, success: true };
         } catch (error) {
-          // Handle error for this analyst
+          if (isAbortError(error)) {
+            markInterrupted(analystId, messages, assistantText);
+            return { analystId, success: false, error: "Cancelled" };
+          }
+
+          // Handle error for this analyst, keeping any text that streamed before it
           const errorMessage = error instanceof Error ? error.message : "Analysis failed";
+          const partialMessages: ChatMessage[] = assistantText
+            ? [...messages, { role: "assistant", content: assistantText }]
+            : [];
 
           setAnalyses((prev) => {
             const updated = new Map(prev);
@@ -130,6 +235,7 @@ export function useMultiAnalystAnalysis() {
             if (current) {
               updated.set(analystId, {
                 ...current,
+                messages: partialMessages,
                 streamingText: null,
                 isLoading: false,
                 error: errorMessage,
@@ -143,6 +249,7 @@ export function useMultiAnalystAnalysis() {
           if (current) {
             analysesRef.current.set(analystId, {
               ...current,
+              messages: partialMessages,
               streamingText: null,
               isLoading: false,
               error: errorMessage,
@@ -150,6 +257,10 @@ export function useMultiAnalystAnalysis() {
           }
 
           return { analystId, success: false, error: errorMessage };
+        } finally {
+          if (controllersRef.current.get(analystId) === controller) {
+            controllersRef.current.delete(analystId);
+          }
         }
       });
 
@@ -158,7 +269,7 @@ export function useMultiAnalystAnalysis() {
 
       setIsAnalyzing(false);
     },
-    [],
+    [markInterrupted, appendToolCall],
   );
 
   /**
@@ -170,6 +281,7 @@ export function useMultiAnalystAnalysis() {
       model: ModelConfig,
       apiKey: string,
       text: string,
+      tools = false,
     ) => {
       const analysis = analysesRef.current.get(analystId);
       if (!analysis) return;
@@ -187,6 +299,8 @@ export function useMultiAnalystAnalysis() {
           streamingText: "",
           isLoading: true,
           error: null,
+          interrupted: false,
+          toolCalls: [],
         });
         return updated;
       });
@@ -197,12 +311,17 @@ export function useMultiAnalystAnalysis() {
         streamingText: "",
         isLoading: true,
         error: null,
+        interrupted: false,
+        toolCalls: [],
       });
 
+      const controller = new AbortController();
+      controllersRef.current.set(analystId, controller);
+      let assistantText = "";
+
       try {
-        let assistantText = "";
 
-        await analyzeChart(
+        const { usage, servedBy, finishReason, toolCalls } = await analyzeChart(
           model,
           apiKey,
           analyst.systemPrompt,
@@ -230,6 +349,12 @@ export function useMultiAnalystAnalysis() {
               });
             }
           },
+          {
+            tools,
+            context: { symbol: symbolRef.current, analystId },
+            signal: controller.signal,
+            onToolCall: (call) => appendToolCall(analystId, call),
+          },
         );
 
         // Follow-up complete
@@ -238,6 +363,10 @@ export function useMultiAnalystAnalysis() {
           { role: "assistant", content: assistantText },
         ];
 
+        // Follow-ups are plain prose; keep the signals from the initial analysis
+        const totalUsage = addUsage(analysis.usage, usage);
+        const fallbackName = servedBy === model ? null : servedBy.name;
+
         setAnalyses((prev) => {
           const updated = new Map(prev);
           updated.set(analystId, {
@@ -246,6 +375,11 @@ export function useMultiAnalystAnalysis() {
             streamingText: null,
             isLoading: false,
             error: null,
+            signals: analysis.signals,
+            usage: totalUsage,
+            servedBy: fallbackName,
+            finishReason,
+            toolCalls,
           });
           return updated;
         });
@@ -256,9 +390,22 @@ export function useMultiAnalystAnalysis() {
           streamingText: null,
           isLoading: false,
           error: null,
+          signals: analysis.signals,
+          usage: totalUsage,
+          servedBy: fallbackName,
+          finishReason,
+          toolCalls,
         });
       } catch (error) {
+        if (isAbortError(error)) {
+          markInterrupted(analystId, fullMessages, assistantText);
+          return;
+        }
+
         const errorMessage = error instanceof Error ? error.message : "Follow-up failed";
+        const partialMessages: ChatMessage[] = assistantText
+          ? [...fullMessages, { role: "assistant", content: assistantText }]
+          : fullMessages;
 
         setAnalyses((prev) => {
           const updated = new Map(prev);
@@ -266,6 +413,7 @@ export function useMultiAnalystAnalysis() {
           if (current) {
             updated.set(analystId, {
               ...current,
+              messages: partialMessages,
               streamingText: null,
               isLoading: false,
               error: errorMessage,
@@ -278,24 +426,44 @@ export function useMultiAnalystAnalysis() {
         if (current) {
           analysesRef.current.set(analystId, {
             ...current,
+            messages: partialMessages,
             streamingText: null,
             isLoading: false,
             error: errorMessage,
           });
         }
+      } finally {
+        if (controllersRef.current.get(analystId) === controller) {
+          controllersRef.current.delete(analystId);
+        }
       }
     },
-    [],
+    [markInterrupted, appendToolCall],
   );
 
+  /**
+   * Stop a single analyst's in-flight analysis or follow-up
+   */
+  const cancel = useCallback((analystId: AnalystId) => {
+    controllersRef.current.get(analystId)?.abort();
+  }, []);
+
+  /**
+   * Stop every in-flight analysis
+   */
+  const cancelAll = useCallback(() => {
+    for (const controller of controllersRef.current.values()) controller.abort();
+  }, []);
+
   /**
    * Reset all analyses
    */
   const reset = useCallback(() => {
+    cancelAll();
     setAnalyses(new Map());
     analysesRef.current = new Map();
     setIsAnalyzing(false);
-  }, []);
+  }, [cancelAll]);
 
   /**
    * Get analysis for a specific analyst
@@ -328,6 +496,8 @@ export function useMultiAnalystAnalysis() {
     isAnalyzing,
     analyzeMultiple,
     followUp,
+    cancel,
+    cancelAll,
     reset,
     getAnalysis,
     isAnyLoading,
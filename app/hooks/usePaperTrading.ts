@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { fetchStockData } from '../lib/yahoo';
+import {
+  cancelPaperOrder,
+  createPaperAccount,
+  loadPaperAccount,
+  matchPaperOrders,
+  paperPositions,
+  paperPriceQuery,
+  placePaperOrder,
+  savePaperAccount,
+  type PaperAccount,
+  type PaperOrderDraft,
+} from '../lib/paperTrading';
+import type { CandleData } from '../lib/types';
+
+// Paper fills and prices follow the market, so their candles refresh on their own
+const PRICE_REFRESH_MS = 60 * 1000;
+
+/**
+ * The local paper-trading account. Candles are fetched for every symbol with
+ * an open order or position, over a range reaching back to its oldest open
+ * order; open orders are matched whenever they update.
+ */
+export function usePaperTrading() {
+  const [account, setAccount] = useState<PaperAccount>(loadPaperAccount);
+
+  useEffect(() => {
+    savePaperAccount(account);
+  }, [account]);
+
+  const positions = useMemo(() => paperPositions(account.fills), [account.fills]);
+
+  // Symbols to price, each with the range and interval its oldest open order needs
+  const priced = useMemo(() => {
+    const since = new Map<string, number | null>();
+    for (const p of positions) if (p.quantity > 0) since.set(p.symbol, null);
+    for (const o of account.orders) {
+      if (o.status !== 'open') continue;
+      const prev = since.get(o.symbol);
+      since.set(o.symbol, prev == null ? o.createdAt : Math.min(prev, o.createdAt));
+    }
+    return [...since.entries()].map(([symbol, from]) => ({ symbol, ...paperPriceQuery(from) }));
+  }, [positions, account.orders]);
+
+  const combine = useCallback(
+    (results: UseQueryResult<CandleData[]>[]): Record<string, CandleData[]> =>
+      Object.fromEntries(priced.map(({ symbol }, i) => [symbol, results[i]?.data ?? []])),
+    [priced],
+  );
+
+  const candles = useQueries({
+    queries: priced.map((q) => ({
+      queryKey: ['stockData', q.symbol, q.range, q.interval],
+      queryFn: () => fetchStockData(q),
+      staleTime: PRICE_REFRESH_MS,
+      refetchInterval: PRICE_REFRESH_MS,
+    })),
+    combine,
+  });
+
+  useEffect(() => {
+    setAccount((prev) => matchPaperOrders(prev, candles));
+  }, [candles]);
+
+  const prices = useMemo(
+    () => Object.fromEntries(Object.entries(candles).map(([symbol, data]) => [symbol, data.at(-1)?.close ?? null])),
+    [candles],
+  );
+
+  const placeOrder = useCallback((draft: PaperOrderDraft) => {
+    setAccount((prev) => placePaperOrder(prev, draft));
+  }, []);
+
+  const cancelOrder = useCallback((orderId: string) => {
+    setAccount((prev) => cancelPaperOrder(prev, orderId));
+  }, []);
+
+  const resetAccount = useCallback((startingCash?: number) => {
+    setAccount(createPaperAccount(startingCash));
+  }, []);
+
+  return { account, positions, prices, placeOrder, cancelOrder, resetAccount };
+}
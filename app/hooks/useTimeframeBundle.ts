@@ -0,0 +1,38 @@
+import { useCallback, useMemo } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { fetchStockData } from '../lib/yahoo';
+import { BUNDLE_RANGES } from '../lib/multiTimeframe';
+import type { CandleData, Interval, StockQuery, TimeframeData } from '../lib/types';
+
+/**
+ * Candles for the extra timeframes of a multi-timeframe bundle, each over
+ * its own range. The chart's interval is already loaded and is skipped.
+ */
+export function useTimeframeBundle(query: StockQuery | null): TimeframeData[] {
+  const intervals = useMemo<Interval[]>(
+    () => (query?.bundle ?? []).filter((interval) => interval !== query?.interval),
+    [query],
+  );
+
+  const combine = useCallback(
+    (results: UseQueryResult<CandleData[]>[]): TimeframeData[] =>
+      intervals.map((interval, i) => ({
+        interval,
+        range: BUNDLE_RANGES[interval],
+        data: results[i]?.data ?? [],
+        loading: results[i]?.isLoading ?? false,
+        error: results[i]?.error?.message ?? null,
+      })),
+    [intervals],
+  );
+
+  return useQueries({
+    queries: intervals.map((interval) => ({
+      queryKey: ['stockData', query?.symbol, BUNDLE_RANGES[interval], interval],
+      queryFn: () => fetchStockData({ symbol: query!.symbol, range: BUNDLE_RANGES[interval], interval }),
+      enabled: !!query?.symbol,
+      staleTime: 2 * 60 * 1000,
+    })),
+    combine,
+  });
+}
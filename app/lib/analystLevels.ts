@@ -0,0 +1,84 @@
+import type { AnalystId, ExtractedSignals } from "./types";
+import { getAnalyst } from "./analystPrompts";
+
+/**
+ * Analyst Levels
+ *
+ * The support, resistance and target prices each analyst named, as chart
+ * lines, and the zones where levels from several analysts agree.
+ */
+
+export const ANALYST_COLORS: Record<AnalystId, string> = {
+  bulkowski: "#60a5fa",
+  murphy: "#f472b6",
+  nison: "#fbbf24",
+  pring: "#a78bfa",
+  "edwards-magee": "#34d399",
+};
+
+export type AnalystLevelKind = "support" | "resistance" | "upside target" | "downside target";
+
+export interface AnalystLevel {
+  analystId: AnalystId;
+  kind: AnalystLevelKind;
+  price: number;
+}
+
+export interface AnalystLevelCluster {
+  low: number;
+  high: number;
+  analysts: AnalystId[];
+  levels: AnalystLevel[];
+}
+
+// Levels within this distance of each other agree (as in the consensus level check)
+const CLUSTER_TOLERANCE = 0.02;
+
+export function analystLevels(signals: ExtractedSignals[]): AnalystLevel[] {
+  return signals.flatMap((s) => {
+    const levels: AnalystLevel[] = [
+      ...s.keyLevels.support.map((price) => ({ analystId: s.analystId, kind: "support" as const, price })),
+      ...s.keyLevels.resistance.map((price) => ({ analystId: s.analystId, kind: "resistance" as const, price })),
+    ];
+    if (s.priceTargets.upside !== undefined) {
+      levels.push({ analystId: s.analystId, kind: "upside target", price: s.priceTargets.upside });
+    }
+    if (s.priceTargets.downside !== undefined) {
+      levels.push({ analystId: s.analystId, kind: "downside target", price: s.priceTargets.downside });
+    }
+    return levels.filter((l) => Number.isFinite(l.price) && l.price > 0);
+  });
+}
+
+/**
+ * Zones where levels from at least two different analysts fall within 2% of
+ * each other, most analysts first. Levels are grouped by walking them in
+ * price order, so a zone never spans more than 2% from its lowest level.
+ */
+export function clusterAnalystLevels(levels: AnalystLevel[]): AnalystLevelCluster[] {
+  const sorted = [...levels].sort((a, b) => a.price - b.price);
+  const clusters: AnalystLevelCluster[] = [];
+
+  let group: AnalystLevel[] = [];
+  const flush = () => {
+    const analysts = [...new Set(group.map((l) => l.analystId))];
+    if (analysts.length >= 2) {
+      clusters.push({ low: group[0].price, high: group[group.length - 1].price, analysts, levels: group });
+    }
+    group = [];
+  };
+  for (const level of sorted) {
+    if (group.length > 0 && level.price > group[0].price * (1 + CLUSTER_TOLERANCE)) flush();
+    group.push(level);
+  }
+  if (group.length > 0) flush();
+
+  return clusters.sort((a, b) => b.analysts.length - a.analysts.length);
+}
+
+/** Label on the chart's price axis, e.g. "Murphy R" or "Nison T↑" */
+export function analystLevelLabel(level: AnalystLevel): string {
+  const surname = getAnalyst(level.analystId).name.split(" ").slice(-1)[0];
+  const tag = { support: "S", resistance: "R", "upside target": "T↑", "downside target": "T↓" }[level.kind];
+  return `${surname} ${tag}`;
+}
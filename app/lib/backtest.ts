@@ -0,0 +1,330 @@
+import type {
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSettings,
+  BacktestStrategyType,
+  BacktestTrade,
+  CandleData,
+  IndicatorPoint,
+} from "./types";
+import type { IndicatorParamDef } from "./indicatorRegistry";
+import {
+  calculateBollingerBands,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  calculateSupertrend,
+  medianSpacing,
+} from "./indicators";
+
+/**
+ * Strategy Backtester
+ *
+ * Runs long-only, rule-based strategies over the loaded candles. Signals are
+ * evaluated on a bar's close and filled at the next bar's open, so no
+ * strategy can trade on information it would not have had. Every fill pays
+ * slippage against the trade plus a percentage commission, and the whole
+ * equity is invested on each entry.
+ */
+
+/** Per-bar action decided on that bar's close */
+type Signal = "enter" | "exit" | null;
+
+export interface BacktestStrategyDefinition {
+  type: BacktestStrategyType;
+  name: string;
+  description: string;
+  params: IndicatorParamDef[];
+  signals: (data: CandleData[], params: Record<string, number>) => Signal[];
+}
+
+/** Indicator values by bar index (NaN before the indicator starts) */
+function alignByIndex(data: CandleData[], points: IndicatorPoint[]): number[] {
+  const byTime = new Map(points.map((p) => [p.time, p.value]));
+  return data.map((c) => byTime.get(c.time) ?? NaN);
+}
+
+/** Enter when `a` crosses above `b`, exit when it crosses below */
+function crossSignals(a: number[], b: number[]): Signal[] {
+  return a.map((value, i) => {
+    if (i === 0 || [value, b[i], a[i - 1], b[i - 1]].some(isNaN)) return null;
+    if (a[i - 1] <= b[i - 1] && value > b[i]) return "enter";
+    if (a[i - 1] >= b[i - 1] && value < b[i]) return "exit";
+    return null;
+  });
+}
+
+export const BACKTEST_STRATEGIES: Record<BacktestStrategyType, BacktestStrategyDefinition> = {
+  "sma-cross": {
+    type: "sma-cross",
+    name: "SMA crossover",
+    description: "Buy when the fast SMA crosses above the slow SMA, sell on the cross back",
+    params: [
+      { key: "fast", label: "Fast", default: 20, min: 2, max: 200 },
+      { key: "slow", label: "Slow", default: 50, min: 3, max: 400 },
+    ],
+    signals: (data, { fast, slow }) =>
+      crossSignals(
+        alignByIndex(data, calculateSMA(data, fast)),
+        alignByIndex(data, calculateSMA(data, Math.max(slow, fast + 1))),
+      ),
+  },
+  "rsi-reversion": {
+    type: "rsi-reversion",
+    name: "RSI mean reversion",
+    description: "Buy when RSI climbs back above oversold, sell when it rises above overbought",
+    params: [
+      { key: "period", label: "Period", default: 14, min: 2, max: 100 },
+      { key: "oversold", label: "Oversold", default: 30, min: 5, max: 50 },
+      { key: "overbought", label: "Overbought", default: 70, min: 50, max: 95 },
+    ],
+    signals: (data, { period, oversold, overbought }) => {
+      const rsi = alignByIndex(data, calculateRSI(data, period));
+      return rsi.map((value, i) => {
+        const prev = rsi[i - 1];
+        if (i === 0 || isNaN(value) || isNaN(prev)) return null;
+        if (prev <= oversold && value > oversold) return "enter";
+        if (prev <= overbought && value > overbought) return "exit";
+        return null;
+      });
+    },
+  },
+  "macd-cross": {
+    type: "macd-cross",
+    name: "MACD signal cross",
+    description: "Buy when MACD crosses above its signal line, sell on the cross back",
+    params: [
+      { key: "fast", label: "Fast", default: 12, min: 2, max: 100 },
+      { key: "slow", label: "Slow", default: 26, min: 3, max: 200 },
+      { key: "signal", label: "Signal", default: 9, min: 2, max: 100 },
+    ],
+    signals: (data, { fast, slow, signal }) => {
+      const macd = calculateMACD(data, fast, Math.max(slow, fast + 1), signal);
+      return crossSignals(alignByIndex(data, macd.macd), alignByIndex(data, macd.signal));
+    },
+  },
+  "bollinger-reversion": {
+    type: "bollinger-reversion",
+    name: "Bollinger reversion",
+    description: "Buy when price closes back inside the lower band, sell at the middle band",
+    params: [
+      { key: "period", label: "Period", default: 20, min: 2, max: 200 },
+      { key: "stdDev", label: "Std dev", default: 2, min: 0.5, max: 5, step: 0.1 },
+    ],
+    signals: (data, { period, stdDev }) => {
+      const bands = calculateBollingerBands(data, period, stdDev);
+      const lower = alignByIndex(data, bands.lower);
+      const middle = alignByIndex(data, bands.middle);
+      return data.map((c, i) => {
+        if (i === 0 || isNaN(lower[i]) || isNaN(lower[i - 1])) return null;
+        if (data[i - 1].close < lower[i - 1] && c.close >= lower[i]) return "enter";
+        if (c.close >= middle[i]) return "exit";
+        return null;
+      });
+    },
+  },
+  supertrend: {
+    type: "supertrend",
+    name: "Supertrend",
+    description: "Hold while price is above the Supertrend line",
+    params: [
+      { key: "period", label: "ATR", default: 10, min: 2, max: 100 },
+      { key: "multiplier", label: "Mult", default: 3, min: 0.5, max: 10, step: 0.1 },
+    ],
+    signals: (data, { period, multiplier }) => {
+      const line = alignByIndex(data, calculateSupertrend(data, period, multiplier));
+      return data.map((c, i) => {
+        if (isNaN(line[i])) return null;
+        return c.close >= line[i] ? "enter" : "exit";
+      });
+    },
+  },
+};
+
+export const BACKTEST_STRATEGY_TYPES = Object.keys(BACKTEST_STRATEGIES) as BacktestStrategyType[];
+
+export const DEFAULT_BACKTEST_SETTINGS: BacktestSettings = {
+  strategy: "sma-cross",
+  params: {},
+  initialCapital: 10000,
+  commissionPct: 0.05,
+  slippagePct: 0.05,
+};
+
+/** Strategy parameters with defaults filled in and values clamped */
+export function resolveStrategyParams(
+  type: BacktestStrategyType,
+  params: Record<string, number> = {},
+): Record<string, number> {
+  return Object.fromEntries(
+    BACKTEST_STRATEGIES[type].params.map((p) => {
+      const value = params[p.key];
+      const valid = typeof value === "number" && Number.isFinite(value);
+      return [p.key, valid ? Math.max(p.min, Math.min(p.max, value)) : p.default];
+    }),
+  );
+}
+
+/** Bars per year, for annualizing the Sharpe ratio */
+function periodsPerYear(data: CandleData[]): number {
+  const spacing = medianSpacing(data);
+  if (spacing <= 0) return 252;
+  // Intraday: a 6.5-hour US session per trading day
+  if (spacing < 86400) return 252 * Math.max(1, (6.5 * 3600) / spacing);
+  if (spacing <= 3 * 86400) return 252;
+  return (365.25 * 86400) / spacing;
+}
+
+export function runBacktest(data: CandleData[], settings: BacktestSettings): BacktestResult {
+  const strategy = BACKTEST_STRATEGIES[settings.strategy];
+  const signals = strategy.signals(data, resolveStrategyParams(settings.strategy, settings.params));
+  const commission = settings.commissionPct / 100;
+  const slippage = settings.slippagePct / 100;
+
+  const trades: BacktestTrade[] = [];
+  const equity: IndicatorPoint[] = [];
+  let cash = settings.initialCapital;
+  let shares = 0;
+  let entry: { index: number; price: number; cost: number } | null = null;
+  let barsInMarket = 0;
+
+  const closeTrade = (index: number, price: number, open: boolean) => {
+    if (!entry) return;
+    const proceeds = shares * price * (1 - (open ? 0 : commission));
+    const pnl = proceeds - entry.cost;
+    trades.push({
+      entryTime: data[entry.index].time,
+      entryPrice: entry.price,
+      exitTime: data[index].time,
+      exitPrice: price,
+      shares,
+      pnl,
+      returnPct: (pnl / entry.cost) * 100,
+      bars: index - entry.index,
+      open,
+    });
+    return proceeds;
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    const bar = data[i];
+    // Act on the previous bar's signal at this bar's open
+    const signal = i > 0 ? signals[i - 1] : null;
+
+    if (signal === "enter" && !entry) {
+      const price = bar.open * (1 + slippage);
+      shares = cash / (price * (1 + commission));
+      entry = { index: i, price, cost: cash };
+      cash = 0;
+    } else if (signal === "exit" && entry) {
+      const price = bar.open * (1 - slippage);
+      cash = closeTrade(i, price, false) ?? cash;
+      shares = 0;
+      entry = null;
+    }
+
+    if (entry) barsInMarket++;
+    equity.push({ time: bar.time, value: cash + shares * bar.close });
+  }
+
+  // Mark a position still held at the last close
+  if (entry && data.length > 0) closeTrade(data.length - 1, data[data.length - 1].close, true);
+
+  const drawdown: IndicatorPoint[] = [];
+  let peak = -Infinity;
+  for (const point of equity) {
+    peak = Math.max(peak, point.value);
+    drawdown.push({ time: point.time, value: peak > 0 ? ((point.value - peak) / peak) * 100 : 0 });
+  }
+
+  return {
+    trades,
+    equity,
+    drawdown,
+    metrics: computeMetrics(data, settings, trades, equity, drawdown, barsInMarket),
+  };
+}
+
+function computeMetrics(
+  data: CandleData[],
+  settings: BacktestSettings,
+  trades: BacktestTrade[],
+  equity: IndicatorPoint[],
+  drawdown: IndicatorPoint[],
+  barsInMarket: number,
+): BacktestMetrics {
+  const finalEquity = equity[equity.length - 1]?.value ?? settings.initialCapital;
+  const first = data[0];
+  const last = data[data.length - 1];
+
+  const wins = trades.filter((t) => t.pnl > 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = -trades.filter((t) => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0);
+
+  // Per-bar returns of the equity curve
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1].value > 0) returns.push(equity[i].value / equity[i - 1].value - 1);
+  }
+  const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(1, returns.length - 1);
+  const sd = Math.sqrt(variance);
+
+  return {
+    totalReturnPct: (finalEquity / settings.initialCapital - 1) * 100,
+    buyHoldReturnPct: first && last ? (last.close / first.open - 1) * 100 : 0,
+    maxDrawdownPct: -Math.min(0, ...drawdown.map((d) => d.value)),
+    winRatePct: trades.length > 0 ? (wins.length / trades.length) * 100 : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    sharpe: sd > 0 ? (mean / sd) * Math.sqrt(periodsPerYear(data)) : null,
+    trades: trades.length,
+    exposurePct: data.length > 0 ? (barsInMarket / data.length) * 100 : 0,
+    finalEquity,
+  };
+}
+
+// --- Export ---
+
+function formatTime(time: string | number): string {
+  return typeof time === "number" ? new Date(time * 1000).toISOString() : time;
+}
+
+export function tradesToCsv(trades: BacktestTrade[]): string {
+  const header = "entry_time,entry_price,exit_time,exit_price,shares,pnl,return_pct,bars,open";
+  const rows = trades.map((t) =>
+    [
+      formatTime(t.entryTime),
+      t.entryPrice.toFixed(4),
+      formatTime(t.exitTime),
+      t.exitPrice.toFixed(4),
+      t.shares.toFixed(6),
+      t.pnl.toFixed(2),
+      t.returnPct.toFixed(2),
+      t.bars,
+      t.open,
+    ].join(","),
+  );
+  return [header, ...rows].join("\n");
+}
+
+// --- Persistence ---
+
+const STORAGE_KEY = "backtest-settings";
+
+export function loadBacktestSettings(): BacktestSettings {
+  if (typeof window === "undefined") return DEFAULT_BACKTEST_SETTINGS;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = { ...DEFAULT_BACKTEST_SETTINGS, ...JSON.parse(saved) } as BacktestSettings;
+      if (parsed.strategy in BACKTEST_STRATEGIES) return parsed;
+    }
+  } catch { /* ignore */ }
+  return DEFAULT_BACKTEST_SETTINGS;
+}
+
+export function saveBacktestSettings(settings: BacktestSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch { /* ignore */ }
+}
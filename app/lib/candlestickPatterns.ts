@@ -0,0 +1,219 @@
+import type { CandleData, CandlestickPattern, CandlestickPatternName, TrendContext } from "./types";
+import { calculateATR } from "./indicators";
+
+/**
+ * Candlestick Pattern Detection
+ *
+ * Rule-based recognition of the classic single, two and three-bar
+ * candlestick patterns. Reversal patterns only count in the trend they
+ * reverse (a hammer needs a prior decline), so each detection carries the
+ * trend context it was found in. Results are drawn as chart markers and
+ * listed in the analyst prompt, so models interpret verified detections
+ * instead of reading patterns off a text table.
+ */
+
+// Bars of price change used to judge the trend before a pattern
+const TREND_LOOKBACK = 10;
+const ATR_PERIOD = 14;
+
+interface Shape {
+  body: number;
+  range: number;
+  upper: number;  // Upper shadow
+  lower: number;  // Lower shadow
+  bullish: boolean;
+  bearish: boolean;
+  top: number;  // Top of the body
+  bottom: number;  // Bottom of the body
+  mid: number;  // Body midpoint
+}
+
+function shape(c: CandleData): Shape {
+  const top = Math.max(c.open, c.close);
+  const bottom = Math.min(c.open, c.close);
+  return {
+    body: top - bottom,
+    range: c.high - c.low,
+    upper: c.high - top,
+    lower: bottom - c.low,
+    bullish: c.close > c.open,
+    bearish: c.close < c.open,
+    top,
+    bottom,
+    mid: (top + bottom) / 2,
+  };
+}
+
+const PATTERN_DIRECTION: Record<CandlestickPatternName, CandlestickPattern["direction"]> = {
+  "doji": "neutral",
+  "long-legged doji": "neutral",
+  "dragonfly doji": "bullish",
+  "gravestone doji": "bearish",
+  "spinning top": "neutral",
+  "hammer": "bullish",
+  "hanging man": "bearish",
+  "inverted hammer": "bullish",
+  "shooting star": "bearish",
+  "bullish marubozu": "bullish",
+  "bearish marubozu": "bearish",
+  "bullish engulfing": "bullish",
+  "bearish engulfing": "bearish",
+  "bullish harami": "bullish",
+  "bearish harami": "bearish",
+  "piercing line": "bullish",
+  "dark cloud cover": "bearish",
+  "tweezer bottom": "bullish",
+  "tweezer top": "bearish",
+  "morning star": "bullish",
+  "evening star": "bearish",
+  "three white soldiers": "bullish",
+  "three black crows": "bearish",
+};
+
+/**
+ * Detect candlestick patterns on every bar. A bar may complete more than one
+ * pattern (e.g. a bullish engulfing that also finishes a morning star); all
+ * are returned, keyed to their last bar and ordered by bar.
+ */
+export function detectCandlestickPatterns(data: CandleData[]): CandlestickPattern[] {
+  if (data.length < 3) return [];
+
+  const shapes = data.map(shape);
+  const atr = new Array<number>(data.length).fill(NaN);
+  const atrPoints = calculateATR(data, ATR_PERIOD);
+  atrPoints.forEach((p, j) => { atr[j + ATR_PERIOD - 1] = p.value; });
+
+  // Average range as a fallback scale before the ATR is available
+  const avgRange = shapes.reduce((sum, s) => sum + s.range, 0) / shapes.length;
+  const scale = (i: number) => (isNaN(atr[i]) ? avgRange : atr[i]) || 1;
+
+  /** Trend of the closes leading into bar `end` (exclusive) */
+  const trendBefore = (end: number): TrendContext => {
+    const last = end - 1;
+    const first = last - TREND_LOOKBACK;
+    if (first < 0) return "none";
+    const change = data[last].close - data[first].close;
+    if (change > scale(last)) return "up";
+    if (change < -scale(last)) return "down";
+    return "none";
+  };
+
+  const patterns: CandlestickPattern[] = [];
+  const add = (i: number, name: CandlestickPatternName, bars: 1 | 2 | 3, trend: TrendContext) => {
+    patterns.push({ time: data[i].time, index: i, name, bars, direction: PATTERN_DIRECTION[name], trend });
+  };
+
+  for (let i = 0; i < data.length; i++) {
+    const c = data[i];
+    const s = shapes[i];
+    if (s.range === 0) continue;
+
+    const size = scale(i);
+    const trend1 = trendBefore(i);
+
+    // --- Single-bar patterns ---
+
+    const isDoji = s.body <= s.range * 0.1;
+    if (isDoji) {
+      if (s.lower >= s.range * 0.7 && s.upper <= s.range * 0.1) add(i, "dragonfly doji", 1, trend1);
+      else if (s.upper >= s.range * 0.7 && s.lower <= s.range * 0.1) add(i, "gravestone doji", 1, trend1);
+      else if (s.range >= size * 1.2) add(i, "long-legged doji", 1, trend1);
+      else add(i, "doji", 1, trend1);
+    } else {
+      const smallBody = s.body <= s.range * 0.35;
+      if (smallBody && s.lower >= s.body * 2 && s.upper <= s.body * 0.5) {
+        if (trend1 === "down") add(i, "hammer", 1, trend1);
+        else if (trend1 === "up") add(i, "hanging man", 1, trend1);
+      } else if (smallBody && s.upper >= s.body * 2 && s.lower <= s.body * 0.5) {
+        if (trend1 === "down") add(i, "inverted hammer", 1, trend1);
+        else if (trend1 === "up") add(i, "shooting star", 1, trend1);
+      } else if (s.body <= s.range * 0.25 && s.upper >= s.body * 1.5 && s.lower >= s.body * 1.5 && trend1 !== "none") {
+        // Only meaningful as a pause in a trend; in a range they are everywhere
+        add(i, "spinning top", 1, trend1);
+      } else if (s.body >= s.range * 0.9 && s.range >= size) {
+        add(i, s.bullish ? "bullish marubozu" : "bearish marubozu", 1, trend1);
+      }
+    }
+
+    // --- Two-bar patterns ---
+
+    if (i < 1) continue;
+    const p = shapes[i - 1];
+    const prev = data[i - 1];
+    const trend2 = trendBefore(i - 1);
+
+    if (trend2 === "down" && p.bearish && s.bullish) {
+      if (s.top > p.top && s.bottom < p.bottom) {
+        add(i, "bullish engulfing", 2, trend2);
+      } else if (s.top < p.top && s.bottom > p.bottom && p.body >= size * 0.5) {
+        add(i, "bullish harami", 2, trend2);
+      } else if (c.open < prev.close && c.close > p.mid && c.close < prev.open) {
+        add(i, "piercing line", 2, trend2);
+      }
+    }
+    if (trend2 === "up" && p.bullish && s.bearish) {
+      if (s.top > p.top && s.bottom < p.bottom) {
+        add(i, "bearish engulfing", 2, trend2);
+      } else if (s.top < p.top && s.bottom > p.bottom && p.body >= size * 0.5) {
+        add(i, "bearish harami", 2, trend2);
+      } else if (c.open > prev.close && c.close < p.mid && c.close > prev.open) {
+        add(i, "dark cloud cover", 2, trend2);
+      }
+    }
+    const tolerance = size * 0.05;
+    if (trend2 === "down" && p.bearish && !s.bearish && Math.abs(c.low - prev.low) <= tolerance) {
+      add(i, "tweezer bottom", 2, trend2);
+    }
+    if (trend2 === "up" && p.bullish && !s.bullish && Math.abs(c.high - prev.high) <= tolerance) {
+      add(i, "tweezer top", 2, trend2);
+    }
+
+    // --- Three-bar patterns ---
+
+    if (i < 2) continue;
+    const first = shapes[i - 2];
+    const trend3 = trendBefore(i - 2);
+    const smallMiddle = p.body <= first.body * 0.5;
+
+    if (
+      trend3 === "down" && first.bearish && first.body >= size * 0.5 && smallMiddle
+      && p.top <= first.bottom + tolerance && s.bullish && data[i].close > first.mid
+    ) {
+      add(i, "morning star", 3, trend3);
+    }
+    if (
+      trend3 === "up" && first.bullish && first.body >= size * 0.5 && smallMiddle
+      && p.bottom >= first.top - tolerance && s.bearish && data[i].close < first.mid
+    ) {
+      add(i, "evening star", 3, trend3);
+    }
+
+    const three = [first, p, s];
+    const closes = [data[i - 2].close, prev.close, c.close];
+    const opens = [data[i - 2].open, prev.open, c.open];
+    const solidBodies = three.every((b) => b.body >= b.range * 0.5 && b.body >= size * 0.3);
+    if (
+      solidBodies && three.every((b) => b.bullish)
+      && closes[1] > closes[0] && closes[2] > closes[1]
+      && opens[1] > three[0].bottom && opens[1] < closes[0]
+      && opens[2] > three[1].bottom && opens[2] < closes[1]
+    ) {
+      add(i, "three white soldiers", 3, trend3);
+    }
+    if (
+      solidBodies && three.every((b) => b.bearish)
+      && closes[1] < closes[0] && closes[2] < closes[1]
+      && opens[1] < three[0].top && opens[1] > closes[0]
+      && opens[2] < three[1].top && opens[2] > closes[1]
+    ) {
+      add(i, "three black crows", 3, trend3);
+    }
+  }
+
+  return patterns;
+}
+
+/** Title-case a pattern name for display ("bullish engulfing" → "Bullish Engulfing") */
+export function formatPatternName(name: CandlestickPatternName): string {
+  return name.replace(/(^|\s|-)([a-z])/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+}
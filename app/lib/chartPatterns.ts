@@ -0,0 +1,434 @@
+import type {
+  CandleData,
+  ChartPattern,
+  ChartPatternKind,
+  MarketStructure,
+  PricePoint,
+  SupportResistanceZone,
+  SwingPoint,
+} from "./types";
+import { calculateATR } from "./indicators";
+
+/**
+ * Market Structure Detection
+ *
+ * A local engine for the structure analysts otherwise read off a text table:
+ * zig-zag swing highs/lows, support/resistance zones clustered from those
+ * swings, and the classic Edwards & Magee / Bulkowski chart patterns (double
+ * tops/bottoms, head & shoulders, triangles, channels, flags) with breakout,
+ * target and invalidation levels. All distances are measured in ATRs, so the
+ * same rules work on 5-minute and weekly charts.
+ */
+
+const ATR_PERIOD = 14;
+// A swing needs a reversal of this many ATRs
+const SWING_ATR_MULTIPLE = 2;
+// Patterns are looked for among the most recent swings only
+const RECENT_SWINGS = 10;
+const MAX_ZONES = 6;
+const MAX_FLAG_BARS = 25;
+
+/** Median ATR over the data — the unit every tolerance is expressed in */
+function atrUnit(data: CandleData[]): number {
+  const values = calculateATR(data, ATR_PERIOD).map((p) => p.value).sort((a, b) => a - b);
+  if (values.length > 0) return values[Math.floor(values.length / 2)] || 1;
+  const avgRange = data.reduce((sum, c) => sum + (c.high - c.low), 0) / Math.max(1, data.length);
+  return avgRange || 1;
+}
+
+/**
+ * Zig-zag swing points: a high is confirmed once price falls `threshold`
+ * below it, a low once price rises `threshold` above it. The last extreme
+ * is included unconfirmed.
+ */
+export function findSwings(data: CandleData[], threshold: number): SwingPoint[] {
+  if (data.length < 2) return [];
+
+  const swings: SwingPoint[] = [];
+  const push = (index: number, type: SwingPoint["type"], confirmed: boolean) => {
+    const price = type === "high" ? data[index].high : data[index].low;
+    swings.push({ index, time: data[index].time, price, type, confirmed });
+  };
+
+  let direction: 1 | -1 | 0 = 0;  // 1 = rising (tracking a high), -1 = falling
+  let hi = 0;
+  let lo = 0;
+
+  for (let i = 1; i < data.length; i++) {
+    if (direction === 0) {
+      if (data[i].high > data[hi].high) hi = i;
+      if (data[i].low < data[lo].low) lo = i;
+      if (data[hi].high - data[lo].low >= threshold) {
+        if (hi > lo) {
+          push(lo, "low", true);
+          direction = 1;
+        } else {
+          push(hi, "high", true);
+          direction = -1;
+        }
+      }
+    } else if (direction === 1) {
+      if (data[i].high >= data[hi].high) {
+        hi = i;
+      } else if (data[hi].high - data[i].low >= threshold) {
+        push(hi, "high", true);
+        direction = -1;
+        lo = i;
+      }
+    } else {
+      if (data[i].low <= data[lo].low) {
+        lo = i;
+      } else if (data[i].high - data[lo].low >= threshold) {
+        push(lo, "low", true);
+        direction = 1;
+        hi = i;
+      }
+    }
+  }
+
+  if (direction === 1) push(hi, "high", false);
+  else if (direction === -1) push(lo, "low", false);
+  return swings;
+}
+
+/**
+ * Cluster swing prices lying within `tolerance` of each other into zones.
+ * Zones touched at least twice are kept, nearest to the last close first.
+ */
+export function findSupportResistanceZones(
+  swings: SwingPoint[],
+  lastClose: number,
+  tolerance: number,
+): SupportResistanceZone[] {
+  const sorted = [...swings].sort((a, b) => a.price - b.price);
+  const clusters: SwingPoint[][] = [];
+
+  for (const swing of sorted) {
+    const cluster = clusters[clusters.length - 1];
+    const mean = cluster ? cluster.reduce((sum, s) => sum + s.price, 0) / cluster.length : NaN;
+    if (cluster && Math.abs(swing.price - mean) <= tolerance) cluster.push(swing);
+    else clusters.push([swing]);
+  }
+
+  return clusters
+    .filter((cluster) => cluster.length >= 2)
+    .map((cluster) => {
+      const prices = cluster.map((s) => s.price);
+      const low = Math.min(...prices);
+      const high = Math.max(...prices);
+      const mid = (low + high) / 2;
+      const latest = cluster.reduce((a, b) => (b.index > a.index ? b : a));
+      return {
+        low,
+        high,
+        touches: cluster.length,
+        kind: mid < lastClose ? "support" : "resistance",
+        lastTouch: latest.time,
+      } satisfies SupportResistanceZone;
+    })
+    .sort((a, b) => Math.abs((a.low + a.high) / 2 - lastClose) - Math.abs((b.low + b.high) / 2 - lastClose))
+    .slice(0, MAX_ZONES);
+}
+
+// --- Pattern detection ---
+
+/** Straight line through two swings, evaluated at any bar index */
+interface TrendLine {
+  at: (index: number) => number;
+  slope: number;  // Price change per bar
+}
+
+function lineThrough(a: SwingPoint, b: SwingPoint): TrendLine {
+  const slope = (b.price - a.price) / (b.index - a.index || 1);
+  return { at: (index) => a.price + slope * (index - a.index), slope };
+}
+
+interface Context {
+  data: CandleData[];
+  unit: number;  // One ATR
+  last: number;  // Index of the last bar
+}
+
+function point(ctx: Context, index: number, price: number): PricePoint {
+  return { time: ctx.data[index].time, price };
+}
+
+function segment(ctx: Context, fromIndex: number, fromPrice: number, toIndex: number, toPrice: number) {
+  return { from: point(ctx, fromIndex, fromPrice), to: point(ctx, toIndex, toPrice) };
+}
+
+/**
+ * Walk the bars after a pattern completes: the first close through the
+ * breakout confirms it, the first trade through the invalidation level fails it.
+ * Returns the status and the bar where it was decided (or the last bar).
+ */
+function resolveStatus(
+  ctx: Context,
+  from: number,
+  bullish: boolean,
+  breakoutAt: (index: number) => number,
+  invalidationAt: (index: number) => number,
+): { status: ChartPattern["status"]; until: number } {
+  for (let i = from + 1; i <= ctx.last; i++) {
+    const c = ctx.data[i];
+    if (bullish ? c.close > breakoutAt(i) : c.close < breakoutAt(i)) return { status: "confirmed", until: i };
+    if (bullish ? c.low < invalidationAt(i) : c.high > invalidationAt(i)) return { status: "failed", until: i };
+  }
+  return { status: "forming", until: ctx.last };
+}
+
+function detectDouble(ctx: Context, s: SwingPoint[]): ChartPattern | null {
+  const [first, middle, second] = s;
+  if (first.type !== second.type || second.index - first.index < 5) return null;
+
+  const top = first.type === "high";
+  const extreme = top ? Math.max(first.price, second.price) : Math.min(first.price, second.price);
+  const depth = Math.abs(extreme - middle.price);
+  if (Math.abs(first.price - second.price) > ctx.unit || depth < ctx.unit * 2) return null;
+
+  const neckline = middle.price;
+  const { status, until } = resolveStatus(ctx, second.index, !top, () => neckline, () => extreme);
+  return {
+    kind: top ? "double top" : "double bottom",
+    direction: top ? "bearish" : "bullish",
+    status,
+    start: first.time,
+    end: second.time,
+    lines: [
+      segment(ctx, first.index, first.price, middle.index, middle.price),
+      segment(ctx, middle.index, middle.price, second.index, second.price),
+      segment(ctx, middle.index, neckline, until, neckline),
+    ],
+    breakout: neckline,
+    target: top ? neckline - depth : neckline + depth,
+    invalidation: extreme,
+  };
+}
+
+function detectHeadAndShoulders(ctx: Context, s: SwingPoint[]): ChartPattern | null {
+  const [leftShoulder, leftTrough, head, rightTrough, rightShoulder] = s;
+  const top = head.type === "high";
+  const sign = top ? 1 : -1;
+
+  // Head beyond both shoulders, shoulders roughly level
+  if ((head.price - leftShoulder.price) * sign < ctx.unit) return null;
+  if ((head.price - rightShoulder.price) * sign < ctx.unit) return null;
+  if (Math.abs(leftShoulder.price - rightShoulder.price) > ctx.unit * 1.5) return null;
+
+  const neckline = lineThrough(leftTrough, rightTrough);
+  const height = Math.abs(head.price - neckline.at(head.index));
+  const { status, until } = resolveStatus(ctx, rightShoulder.index, !top, neckline.at, () => head.price);
+  const breakout = neckline.at(until);
+
+  return {
+    kind: top ? "head and shoulders" : "inverse head and shoulders",
+    direction: top ? "bearish" : "bullish",
+    status,
+    start: leftShoulder.time,
+    end: rightShoulder.time,
+    lines: [
+      ...s.slice(1).map((p, i) => segment(ctx, s[i].index, s[i].price, p.index, p.price)),
+      segment(ctx, leftTrough.index, leftTrough.price, until, breakout),
+    ],
+    breakout,
+    target: breakout - sign * height,
+    invalidation: head.price,
+  };
+}
+
+/** Triangles and channels from the last two swing highs and lows */
+function detectTrendLines(ctx: Context, s: SwingPoint[]): ChartPattern | null {
+  const highs = s.filter((p) => p.type === "high");
+  const lows = s.filter((p) => p.type === "low");
+  if (highs.length !== 2 || lows.length !== 2) return null;
+
+  const start = s[0].index;
+  const end = s[s.length - 1].index;
+  const span = end - start;
+  if (span < 8) return null;
+
+  const upper = lineThrough(highs[0], highs[1]);
+  const lower = lineThrough(lows[0], lows[1]);
+  const trend = (line: TrendLine) => {
+    const move = line.slope * span;
+    return Math.abs(move) <= ctx.unit * 0.75 ? 0 : Math.sign(move);
+  };
+  const upperTrend = trend(upper);
+  const lowerTrend = trend(lower);
+  // Height where both lines are established (the widest part of a triangle)
+  const widest = Math.max(highs[0].index, lows[0].index);
+  const startHeight = upper.at(widest) - lower.at(widest);
+  if (startHeight <= 0 || upper.at(end) <= lower.at(end)) return null;
+
+  let kind: ChartPatternKind;
+  let direction: ChartPattern["direction"];
+  if (upperTrend === 0 && lowerTrend === 1) {
+    kind = "ascending triangle";
+    direction = "bullish";
+  } else if (upperTrend === -1 && lowerTrend === 0) {
+    kind = "descending triangle";
+    direction = "bearish";
+  } else if (upperTrend === -1 && lowerTrend === 1) {
+    kind = "symmetrical triangle";
+    direction = "neutral";
+  } else if (upperTrend === lowerTrend && upperTrend !== 0) {
+    // Channel lines must be roughly parallel
+    const ratio = upper.slope / lower.slope;
+    if (ratio < 0.5 || ratio > 2) return null;
+    kind = upperTrend === 1 ? "ascending channel" : "descending channel";
+    direction = upperTrend === 1 ? "bullish" : "bearish";
+  } else {
+    return null;
+  }
+
+  const isChannel = kind.endsWith("channel");
+  const lines = (until: number) => [
+    segment(ctx, highs[0].index, highs[0].price, until, upper.at(until)),
+    segment(ctx, lows[0].index, lows[0].price, until, lower.at(until)),
+  ];
+
+  if (isChannel) {
+    // A channel holds while price stays inside it; leaving it against the trend ends it
+    const { status } = resolveStatus(
+      ctx, end, direction === "bullish",
+      direction === "bullish" ? () => Infinity : () => -Infinity,
+      direction === "bullish" ? lower.at : upper.at,
+    );
+    if (status === "failed") return null;
+    return {
+      kind,
+      direction,
+      status: "forming",
+      start: ctx.data[start].time,
+      end: ctx.data[end].time,
+      lines: lines(ctx.last),
+      breakout: null,
+      target: null,
+      invalidation: direction === "bullish" ? lower.at(ctx.last) : upper.at(ctx.last),
+    };
+  }
+
+  // Symmetrical triangles can break either way: take whichever side breaks first
+  let bullish = direction !== "bearish";
+  let { status, until } = resolveStatus(ctx, end, bullish, bullish ? upper.at : lower.at, bullish ? lower.at : upper.at);
+  if (direction === "neutral" && status === "failed") {
+    bullish = false;
+    status = "confirmed";
+    direction = "bearish";
+  } else if (direction === "neutral" && status === "confirmed") {
+    direction = "bullish";
+  }
+
+  const breakout = bullish ? upper.at(until) : lower.at(until);
+  return {
+    kind,
+    direction,
+    status,
+    start: ctx.data[start].time,
+    end: ctx.data[end].time,
+    lines: lines(until),
+    breakout,
+    target: bullish ? breakout + startHeight : breakout - startHeight,
+    invalidation: bullish ? lower.at(until) : upper.at(until),
+  };
+}
+
+/**
+ * A flag: a sharp pole between two swings, then a shallow consolidation
+ * (retracing at most half the pole) until price breaks past the pole's end.
+ */
+function detectFlag(ctx: Context, s: SwingPoint[]): ChartPattern | null {
+  const [poleStart, poleEnd] = s;
+  const bull = poleEnd.type === "high";
+  const height = Math.abs(poleEnd.price - poleStart.price);
+  const poleBars = poleEnd.index - poleStart.index;
+  if (height < ctx.unit * 3 || poleBars > 15) return null;
+
+  let low = Infinity;
+  let high = -Infinity;
+  let until = poleEnd.index;
+  let status: ChartPattern["status"] = "forming";
+  for (let i = poleEnd.index + 1; i <= ctx.last && i - poleEnd.index <= MAX_FLAG_BARS; i++) {
+    const c = ctx.data[i];
+    if (bull ? c.close > poleEnd.price : c.close < poleEnd.price) {
+      status = "confirmed";
+      break;
+    }
+    low = Math.min(low, c.low);
+    high = Math.max(high, c.high);
+    until = i;
+  }
+
+  const flagBars = until - poleEnd.index;
+  if (flagBars < 3) return null;
+  // Stale: no breakout within the flag window
+  if (status === "forming" && until < ctx.last) return null;
+  const retrace = bull ? poleEnd.price - low : high - poleEnd.price;
+  if (retrace > height / 2) return null;
+
+  return {
+    kind: bull ? "bull flag" : "bear flag",
+    direction: bull ? "bullish" : "bearish",
+    status,
+    start: poleStart.time,
+    end: ctx.data[until].time,
+    lines: [
+      segment(ctx, poleStart.index, poleStart.price, poleEnd.index, poleEnd.price),
+      segment(ctx, poleEnd.index, high, until, high),
+      segment(ctx, poleEnd.index, low, until, low),
+    ],
+    breakout: poleEnd.price,
+    target: bull ? poleEnd.price + height : poleEnd.price - height,
+    invalidation: bull ? low : high,
+  };
+}
+
+/**
+ * Chart patterns ending at any of the most recent swings
+ */
+export function detectChartPatterns(data: CandleData[], swings: SwingPoint[], unit: number): ChartPattern[] {
+  const ctx: Context = { data, unit, last: data.length - 1 };
+  const patterns: ChartPattern[] = [];
+  const seen = new Set<string>();
+  const add = (pattern: ChartPattern | null) => {
+    if (!pattern) return;
+    const key = `${pattern.kind}:${pattern.start}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    patterns.push(pattern);
+  };
+
+  const firstEnd = Math.max(1, swings.length - RECENT_SWINGS);
+  for (let e = firstEnd; e < swings.length; e++) {
+    const window = (n: number) => (e - n + 1 >= 0 ? swings.slice(e - n + 1, e + 1) : null);
+    const two = window(2);
+    const three = window(3);
+    const four = window(4);
+    const five = window(5);
+    if (two) add(detectFlag(ctx, two));
+    if (three) add(detectDouble(ctx, three));
+    if (four) add(detectTrendLines(ctx, four));
+    if (five) add(detectHeadAndShoulders(ctx, five));
+  }
+  return patterns;
+}
+
+/**
+ * Swings, support/resistance zones and chart patterns for a candle series
+ */
+export function analyzeMarketStructure(data: CandleData[]): MarketStructure {
+  if (data.length < ATR_PERIOD * 2) return { swings: [], zones: [], patterns: [] };
+
+  const unit = atrUnit(data);
+  const swings = findSwings(data, unit * SWING_ATR_MULTIPLE);
+  return {
+    swings,
+    zones: findSupportResistanceZones(swings, data[data.length - 1].close, unit / 2),
+    patterns: detectChartPatterns(data, swings, unit),
+  };
+}
+
+/** Title-case a pattern name for display ("head and shoulders" → "Head and Shoulders") */
+export function formatChartPatternName(kind: ChartPatternKind): string {
+  return kind.replace(/\b(?!and\b)[a-z]/g, (ch) => ch.toUpperCase());
+}
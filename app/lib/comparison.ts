@@ -0,0 +1,135 @@
+import type { CandleData, ComparisonSeries, IndicatorPoint } from "./types";
+
+/**
+ * Symbol Comparison
+ *
+ * Helpers for drawing other symbols (an index, a sector ETF, a competitor)
+ * against the loaded one: aligning their candles by time, rebasing them to
+ * percent change and building the relative-strength ratio. The same readings
+ * go into the analyst prompt, so intermarket comments rest on real numbers.
+ */
+
+export const MAX_COMPARISONS = 4;
+
+export const COMPARISON_COLORS = ["#a78bfa", "#f472b6", "#fbbf24", "#34d399"];
+
+const STORAGE_KEY = "chart-comparisons";
+
+/** Uppercase and strip characters the stock API rejects */
+export function normalizeComparisonSymbol(input: string): string {
+  return input.trim().toUpperCase().replace(/[^A-Z0-9.\-^]/g, "");
+}
+
+export function comparisonColor(index: number): string {
+  return COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+}
+
+export function loadComparisonSymbols(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((s): s is string => typeof s === "string").slice(0, MAX_COMPARISONS);
+      }
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+export function saveComparisonSymbols(symbols: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(symbols));
+  } catch { /* ignore */ }
+}
+
+/**
+ * Closes of both series on the bars they share. Markets keep different
+ * calendars (crypto trades weekends, exchanges have their own holidays), so
+ * only common timestamps are compared.
+ */
+export function alignCloses(base: CandleData[], other: CandleData[]): { time: CandleData["time"]; base: number; other: number }[] {
+  const otherByTime = new Map(other.map((c) => [c.time, c.close]));
+  const aligned: { time: CandleData["time"]; base: number; other: number }[] = [];
+  for (const c of base) {
+    const close = otherByTime.get(c.time);
+    if (close !== undefined && close > 0 && c.close > 0) aligned.push({ time: c.time, base: c.close, other: close });
+  }
+  return aligned;
+}
+
+/** The other symbol's closes on the base symbol's bars, for drawing on the price pane */
+export function closesOnBaseBars(base: CandleData[], other: CandleData[]): IndicatorPoint[] {
+  return alignCloses(base, other).map((p) => ({ time: p.time, value: p.other }));
+}
+
+/**
+ * Relative strength of the base symbol against the other: the ratio of their
+ * closes, rebased to 100 on the first shared bar. Rising means the base is
+ * outperforming.
+ */
+export function relativeStrength(base: CandleData[], other: CandleData[]): IndicatorPoint[] {
+  const aligned = alignCloses(base, other);
+  if (aligned.length === 0) return [];
+  const first = aligned[0].base / aligned[0].other;
+  return aligned.map((p) => ({ time: p.time, value: (p.base / p.other / first) * 100 }));
+}
+
+export interface ComparisonStats {
+  bars: number;
+  baseReturnPct: number;
+  otherReturnPct: number;
+  rsChangePct: number;  // Change of the relative-strength ratio over the recent window
+  correlation: number | null;  // Of bar-to-bar returns
+}
+
+// Bars used for the recent relative-strength trend
+const RS_TREND_BARS = 20;
+
+/** Returns, relative-strength trend and return correlation over the shared bars */
+export function comparisonStats(base: CandleData[], other: CandleData[]): ComparisonStats | null {
+  const aligned = alignCloses(base, other);
+  if (aligned.length < 2) return null;
+
+  const first = aligned[0];
+  const last = aligned[aligned.length - 1];
+  const recent = aligned[Math.max(0, aligned.length - 1 - RS_TREND_BARS)];
+  const ratio = (p: typeof first) => p.base / p.other;
+
+  const baseReturns: number[] = [];
+  const otherReturns: number[] = [];
+  for (let i = 1; i < aligned.length; i++) {
+    baseReturns.push(aligned[i].base / aligned[i - 1].base - 1);
+    otherReturns.push(aligned[i].other / aligned[i - 1].other - 1);
+  }
+
+  return {
+    bars: aligned.length,
+    baseReturnPct: (last.base / first.base - 1) * 100,
+    otherReturnPct: (last.other / first.other - 1) * 100,
+    rsChangePct: (ratio(last) / ratio(recent) - 1) * 100,
+    correlation: correlation(baseReturns, otherReturns),
+  };
+}
+
+function correlation(a: number[], b: number[]): number | null {
+  const n = a.length;
+  if (n < 3) return null;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : null;
+}
+
+/** Comparisons that finished loading with candles */
+export function loadedComparisons(comparisons: ComparisonSeries[]): ComparisonSeries[] {
+  return comparisons.filter((c) => c.data.length > 0);
+}
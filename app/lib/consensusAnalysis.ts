@@ -1,4 +1,4 @@
-import type { AnalystId, ExtractedSignals, ConsensusResult } from "./types";
+import type { AnalystAnalysis, AnalystId, ExtractedSignals, ConsensusResult } from "./types";
 import { ANALYSTS } from "./analystPrompts";
 
 /**
@@ -91,6 +91,17 @@ const NEUTRAL_KEYWORDS = [
 const HIGH_CONFIDENCE = ["strong", "very", "highly", "significant", "clear", "definite"];
 const LOW_CONFIDENCE = ["weak", "slight", "minor", "possible", "potential", "uncertain"];
 
+/**
+ * Signals of a completed analysis: the validated structured output when the
+ * analyst returned one, otherwise keyword extraction from its last reply
+ */
+export function signalsForAnalysis(analysis: AnalystAnalysis): ExtractedSignals {
+  if (analysis.signals) return analysis.signals;
+  const assistantMessages = analysis.messages.filter((m) => m.role === "assistant");
+  const lastMessage = assistantMessages[assistantMessages.length - 1];
+  return extractSignalsFromText(analysis.analystId, lastMessage?.content || "");
+}
+
 /**
  * Extract structured signals from analyst text using keyword matching
  */
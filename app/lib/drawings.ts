@@ -0,0 +1,215 @@
+import type { CandleData, Drawing, DrawingAnchor, DrawingTool } from "./types";
+import { calculateATR, medianSpacing, timeToSeconds } from "./indicators";
+
+/**
+ * Chart Drawings
+ *
+ * User annotations on the price pane: trend lines, rays, horizontal levels,
+ * Fibonacci retracements/extensions, rectangle zones and text notes. They are
+ * stored per symbol and anchored to timestamps, so they stay in place when
+ * the range or interval changes. Between bars (and past the last one) time
+ * is mapped to fractional bar positions, which is also how lines are
+ * measured for the analyst prompt.
+ */
+
+export interface DrawingToolDefinition {
+  name: string;
+  anchors: 1 | 2;
+  hint: string;  // Shown while placing
+}
+
+export const DRAWING_TOOLS: Record<DrawingTool, DrawingToolDefinition> = {
+  trendline: { name: "Trend line", anchors: 2, hint: "Click the start and end of the line." },
+  ray: { name: "Ray", anchors: 2, hint: "Click the start and a second point; the line extends to the right." },
+  horizontal: { name: "Level", anchors: 1, hint: "Click a price to mark a horizontal level." },
+  fibonacci: { name: "Fibonacci", anchors: 2, hint: "Click the start and end of the move to measure." },
+  rectangle: { name: "Zone", anchors: 2, hint: "Click two opposite corners of the zone." },
+  text: { name: "Note", anchors: 1, hint: "Click where the note should go." },
+};
+
+export const DRAWING_TOOL_TYPES = Object.keys(DRAWING_TOOLS) as DrawingTool[];
+
+export const DEFAULT_DRAWING_COLOR = "#38bdf8";
+
+// Retracements of the move A→B, and extensions beyond B
+const FIB_RETRACEMENTS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+const FIB_EXTENSIONS = [1.272, 1.618, 2.618];
+
+export interface FibonacciLevel {
+  ratio: number;
+  label: string;
+  price: number;
+  kind: "retracement" | "extension";
+}
+
+/**
+ * Fibonacci levels of the move from `start` to `end`: retracements back
+ * toward the start (0% at the end, 100% at the start) and extensions
+ * projecting the move beyond its end.
+ */
+export function fibonacciLevels(start: number, end: number): FibonacciLevel[] {
+  const move = end - start;
+  return [
+    ...FIB_RETRACEMENTS.map((ratio) => ({
+      ratio,
+      label: `${(ratio * 100).toFixed(1)}%`,
+      price: end - move * ratio,
+      kind: "retracement" as const,
+    })),
+    ...FIB_EXTENSIONS.map((ratio) => ({
+      ratio,
+      label: `${(ratio * 100).toFixed(1)}%`,
+      price: start + move * ratio,
+      kind: "extension" as const,
+    })),
+  ];
+}
+
+export function createDrawing(tool: DrawingTool, anchors: DrawingAnchor[], color = DEFAULT_DRAWING_COLOR, text?: string): Drawing {
+  return {
+    id: `${tool}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    tool,
+    anchors,
+    color,
+    ...(text !== undefined && { text }),
+  };
+}
+
+// --- Time ↔ bar position ---
+
+export interface BarTimeline {
+  /** Fractional bar index of a timestamp */
+  toLogical: (seconds: number) => number;
+  /** Timestamp of a fractional bar index */
+  toTime: (logical: number) => number;
+}
+
+/**
+ * Maps timestamps to bar positions and back: interpolated between the bars
+ * around them, and extrapolated at the typical bar spacing beyond either end.
+ */
+export function barTimeline(data: CandleData[]): BarTimeline {
+  const times = data.map((c) => timeToSeconds(c.time));
+  const spacing = medianSpacing(data) || 1;
+  const last = times.length - 1;
+
+  const toLogical = (seconds: number): number => {
+    if (last < 0) return 0;
+    if (seconds <= times[0]) return (seconds - times[0]) / spacing;
+    if (seconds >= times[last]) return last + (seconds - times[last]) / spacing;
+
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] <= seconds) lo = mid;
+      else hi = mid;
+    }
+    return lo + (seconds - times[lo]) / (times[hi] - times[lo]);
+  };
+
+  const toTime = (logical: number): number => {
+    if (last < 0) return 0;
+    if (logical <= 0) return Math.round(times[0] + logical * spacing);
+    if (logical >= last) return Math.round(times[last] + (logical - last) * spacing);
+    const lo = Math.floor(logical);
+    return Math.round(times[lo] + (logical - lo) * (times[lo + 1] - times[lo]));
+  };
+
+  return { toLogical, toTime };
+}
+
+// --- Measurements for the prompt ---
+
+export interface LineMeasurement {
+  slopePerBar: number;
+  valueAtLastBar: number | null;  // Null when a trend line ends before the last bar
+  touches: number;  // Bars whose high or low came within a quarter ATR of the line
+  closesAbove: number;
+  closesBelow: number;
+}
+
+/**
+ * How price behaved around a trend line or ray over the bars it spans (rays
+ * run to the last bar). Touches and closes on each side are what decide
+ * whether a drawn line is respected.
+ */
+export function measureLine(data: CandleData[], drawing: Drawing): LineMeasurement | null {
+  const [a, b] = drawing.anchors;
+  if (!a || !b || data.length === 0) return null;
+
+  const timeline = barTimeline(data);
+  const la = timeline.toLogical(a.time);
+  const lb = timeline.toLogical(b.time);
+  if (la === lb) return null;
+  const [from, to] = la < lb ? [la, lb] : [lb, la];
+  const slope = (b.price - a.price) / (lb - la);
+  const valueAt = (i: number) => a.price + (i - la) * slope;
+
+  const atr = calculateATR(data, 14).at(-1)?.value ?? 0;
+  const tolerance = atr * 0.25;
+  const last = data.length - 1;
+  const end = drawing.tool === "ray" ? last : Math.min(last, Math.floor(to));
+
+  let touches = 0;
+  let closesAbove = 0;
+  let closesBelow = 0;
+  for (let i = Math.max(0, Math.ceil(from)); i <= end; i++) {
+    const value = valueAt(i);
+    const c = data[i];
+    if (Math.abs(c.low - value) <= tolerance || Math.abs(c.high - value) <= tolerance) touches++;
+    if (c.close > value) closesAbove++;
+    else if (c.close < value) closesBelow++;
+  }
+
+  return {
+    slopePerBar: slope,
+    valueAtLastBar: drawing.tool === "ray" || to >= last ? valueAt(last) : null,
+    touches,
+    closesAbove,
+    closesBelow,
+  };
+}
+
+/** Bars whose high or low came within a quarter ATR of a price */
+export function countLevelTouches(data: CandleData[], price: number): number {
+  const atr = calculateATR(data, 14).at(-1)?.value ?? 0;
+  const tolerance = atr * 0.25;
+  return data.filter((c) => c.low - tolerance <= price && c.high + tolerance >= price).length;
+}
+
+// --- Persistence ---
+
+const STORAGE_PREFIX = "chart-drawings:";
+
+function isDrawing(value: unknown): value is Drawing {
+  const d = value as Drawing;
+  return !!d
+    && typeof d.id === "string"
+    && d.tool in DRAWING_TOOLS
+    && Array.isArray(d.anchors)
+    && d.anchors.length === DRAWING_TOOLS[d.tool].anchors
+    && d.anchors.every((p) => Number.isFinite(p?.time) && Number.isFinite(p?.price))
+    && typeof d.color === "string";
+}
+
+export function loadDrawings(symbol: string): Drawing[] {
+  if (typeof window === "undefined" || !symbol) return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + symbol.toUpperCase());
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed.filter(isDrawing);
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+export function saveDrawings(symbol: string, drawings: Drawing[]): void {
+  if (!symbol) return;
+  try {
+    const key = STORAGE_PREFIX + symbol.toUpperCase();
+    if (drawings.length > 0) localStorage.setItem(key, JSON.stringify(drawings));
+    else localStorage.removeItem(key);
+  } catch { /* ignore */ }
+}
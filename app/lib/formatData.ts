@@ -1,4 +1,13 @@
-import { CandleData, FundamentalsData } from "./types";
+import { CandleData, ComparisonSeries, Drawing, FundamentalsData, PromptContext, TimeframeData } from "./types";
+import { detectCandlestickPatterns, formatPatternName } from "./candlestickPatterns";
+import { analyzeMarketStructure, formatChartPatternName } from "./chartPatterns";
+import { calculateVolumeSMA, isIntraday } from "./indicators";
+import { comparisonStats, loadedComparisons } from "./comparison";
+import { countLevelTouches, DRAWING_TOOLS, fibonacciLevels, measureLine } from "./drawings";
+import { BUNDLE_INTERVALS, INTERVAL_LABELS, summarizeTimeframe } from "./multiTimeframe";
+import { getIndicatorResult, resultLine } from "./indicatorEngine";
+import { compressHistory, DEFAULT_PROMPT_WINDOW, MIN_PROMPT_CANDLES, RESAMPLE_LABELS, type CompressedHistory } from "./promptWindow";
+import { countTokens } from "./tokenEstimator";
 
 export const DEFAULT_SYSTEM_PROMPT = buildSystemPrompt();
 
@@ -38,28 +47,83 @@ IMPORTANT: The fundamental data provided is REAL and pre-calculated from actual
 When the user asks follow-up questions, answer in the context of the stock data already provided. Be concise on follow-ups unless the user asks for detail.`;
 }
 
+function formatCandleTime(time: string | number): string {
+  return typeof time === "number"
+    ? new Date(time * 1000).toISOString().replace("T", " ").slice(0, 19)
+    : time;
+}
+
+function formatCandleRow(c: CandleData, timeStr = formatCandleTime(c.time)): string {
+  return `${timeStr} | O: ${c.open.toFixed(2)} | H: ${c.high.toFixed(2)} | L: ${c.low.toFixed(2)} | C: ${c.close.toFixed(2)}${c.volume ? ` | V: ${c.volume}` : ""}`;
+}
+
+/**
+ * The initial message: the last `context.window.candles` bars in full
+ * (preceded by a compressed summary of the older ones when enabled), then
+ * the computed summaries and fundamentals. With a token budget, the table
+ * shrinks until the message fits, and the resampled bars of the compressed
+ * history go last.
+ */
 export function buildInitialUserMessage(
   symbol: string,
   data: CandleData[],
   fundamentals?: FundamentalsData | null,
+  context: PromptContext = {},
 ): string {
-  const recentData = data.slice(-60);
-  const tableRows = recentData
-    .map((c) => {
-      const timeStr =
-        typeof c.time === "number"
-          ? new Date(c.time * 1000).toISOString().replace("T", " ").slice(0, 19)
-          : c.time;
-      return `${timeStr} | O: ${c.open.toFixed(2)} | H: ${c.high.toFixed(2)} | L: ${c.low.toFixed(2)} | C: ${c.close.toFixed(2)}${c.volume ? ` | V: ${c.volume}` : ""}`;
-    })
-    .join("\n");
+  const { candles, compress } = context.window ?? DEFAULT_PROMPT_WINDOW;
+  const swings = compress ? analyzeMarketStructure(data).swings : [];
+
+  // Everything after the table is the same whatever its size
+  let rest = "";
+
+  const structureSummary = buildStructureSummary(data);
+  if (structureSummary) rest += `\n\n${structureSummary}`;
+
+  const trendSummary = buildTrendSummary(data);
+  if (trendSummary) rest += `\n\n${trendSummary}`;
+
+  const volumeSummary = buildVolumeSummary(data);
+  if (volumeSummary) rest += `\n\n${volumeSummary}`;
+
+  const timeframeSummary = buildTimeframeSummary(context.timeframes ?? []);
+  if (timeframeSummary) rest += `\n\n${timeframeSummary}`;
+
+  const comparisonSummary = buildComparisonSummary(symbol, data, context.comparisons ?? []);
+  if (comparisonSummary) rest += `\n\n${comparisonSummary}`;
+
+  const drawingsSummary = buildDrawingsSummary(data, context.drawings ?? []);
+  if (drawingsSummary) rest += `\n\n${drawingsSummary}`;
 
-  let msg = `Analyze ${symbol} using the following data:
+  rest += buildFundamentalsSection(fundamentals);
 
-## OHLC Price Data (last ${recentData.length} candles):
+  const compose = (detail: number, historyBars: boolean): string => {
+    const recentData = data.slice(-detail);
+    let msg = `Analyze ${symbol} using the following data:`;
 
-${tableRows}`;
+    const history = compress ? compressHistory(data, recentData.length, swings, historyBars) : null;
+    if (history) msg += `\n\n${buildHistorySummary(history, data[data.length - 1].close)}`;
 
+    msg += `\n\n## OHLC Price Data (last ${recentData.length} candles):\n\n${recentData.map((c) => formatCandleRow(c)).join("\n")}`;
+    msg += `\n\n${buildCandlestickSummary(data, recentData.length)}`;
+    return msg + rest;
+  };
+
+  let detail = Math.min(candles, data.length);
+  let msg = compose(detail, true);
+  const budget = context.tokenBudget;
+  if (budget) {
+    while (countTokens(msg) > budget && detail > MIN_PROMPT_CANDLES) {
+      detail = Math.max(MIN_PROMPT_CANDLES, Math.floor(detail * 0.75));
+      msg = compose(detail, true);
+    }
+    if (compress && countTokens(msg) > budget) msg = compose(detail, false);
+  }
+  return msg;
+}
+
+/** Fundamental metrics and analyst targets, or a note when the lookup found none */
+function buildFundamentalsSection(fundamentals?: FundamentalsData | null): string {
+  let msg = "";
   if (fundamentals?.metrics && fundamentals.metrics.length > 0) {
     msg += `\n\n## Fundamental Data (REAL, pre-calculated from filings — DO NOT recalculate):\n\n`;
     for (const m of fundamentals.metrics) {
@@ -79,6 +143,290 @@ ${tableRows}`;
   } else if (fundamentals.metrics.length === 0) {
     msg += `\n\nNote: Fundamental data was not available for this symbol. Provide technical analysis only.`;
   }
-
   return msg;
 }
+
+/**
+ * Appended to the initial message when a chart snapshot is attached
+ */
+export const CHART_IMAGE_NOTE = `
+
+## Chart Image
+
+The attached image is the chart as displayed to the user: candles over the full loaded range, with any enabled indicator overlays and panes (RSI, MACD). Use it to read chart patterns, trendlines and formations; take exact prices from the table above.`;
+
+/**
+ * The bars before the OHLC table, compressed: resampled to a longer period,
+ * their major swing points, and the 52-week high/low against the last close.
+ */
+export function buildHistorySummary(history: CompressedHistory, close: number): string {
+  const day = (time: string | number) => formatCandleTime(time).slice(0, 10);
+  const sections: string[] = [];
+
+  if (history.resampled.length > 0) {
+    const rows = history.resampled.map((c) => formatCandleRow(c, day(c.time)));
+    sections.push(`### ${RESAMPLE_LABELS[history.period]} bars (dated by their first day)\n\n${rows.join("\n")}`);
+  } else {
+    sections.push(`### ${RESAMPLE_LABELS[history.period]} bars\n\nLeft out to fit the model's token budget.`);
+  }
+
+  if (history.swings.length > 0) {
+    const lines = history.swings.map((s) => `- ${formatCandleTime(s.time)}: swing ${s.type} ${s.price.toFixed(2)}`);
+    sections.push(`### Major swing points\n\n${lines.join("\n")}`);
+  }
+
+  const { rangeHigh: high, rangeLow: low } = history;
+  const label = history.rangeDays >= 360 ? "52-week range" : `Range over the last ${history.rangeDays} days (less than a year loaded)`;
+  sections.push(
+    `### ${label}\n\n- High ${high.price.toFixed(2)} (${day(high.time)}), low ${low.price.toFixed(2)} (${day(low.time)}); `
+    + `last close ${close.toFixed(2)} is ${(((high.price - close) / high.price) * 100).toFixed(1)}% below the high and ${(((close - low.price) / low.price) * 100).toFixed(1)}% above the low`,
+  );
+
+  return `## Earlier History (compressed: ${history.bars} bars from ${day(history.from)} to ${day(history.to)}, before the table below):\n\n${sections.join("\n\n")}`;
+}
+
+/**
+ * Candlestick patterns found by the rule-based detector in the last
+ * `window` candles. Detection runs over all loaded candles so the trend
+ * context of early patterns is known.
+ */
+export function buildCandlestickSummary(data: CandleData[], window: number): string {
+  const start = data.length - window;
+  const patterns = detectCandlestickPatterns(data).filter((p) => p.index >= start);
+  const header = `## Detected Candlestick Patterns (rule-based, last ${window} candles):`;
+  if (patterns.length === 0) {
+    return `${header}\n\nNo classic candlestick patterns were detected in these candles.`;
+  }
+
+  const trendLabel = { up: "after an uptrend", down: "after a downtrend", none: "no clear prior trend" };
+  const lines = patterns.map((p) =>
+    `- ${formatCandleTime(p.time)} — ${formatPatternName(p.name)} (${p.bars === 1 ? "1 bar" : `${p.bars} bars ending here`}, ${p.direction}, ${trendLabel[p.trend]})`,
+  );
+  return `${header}\n\n${lines.join("\n")}\n\nThese detections are verified against the data above. Interpret them — context, confirmation and reliability — rather than searching the table for further candlestick patterns.`;
+}
+
+/**
+ * Swing points, support/resistance zones and chart patterns from the local
+ * structure engine, over all loaded candles.
+ */
+export function buildStructureSummary(data: CandleData[]): string | null {
+  const { swings, zones, patterns } = analyzeMarketStructure(data);
+  if (swings.length === 0) return null;
+
+  const sections: string[] = [];
+
+  const recentSwings = swings.slice(-8).map((s) =>
+    `- ${formatCandleTime(s.time)}: swing ${s.type} ${s.price.toFixed(2)}${s.confirmed ? "" : " (latest, not yet confirmed)"}`,
+  );
+  sections.push(`### Recent swing points (zig-zag)\n\n${recentSwings.join("\n")}`);
+
+  if (zones.length > 0) {
+    const lines = zones.map((z) =>
+      `- ${z.kind === "support" ? "Support" : "Resistance"} ${z.low.toFixed(2)}–${z.high.toFixed(2)} (${z.touches} touches, last ${formatCandleTime(z.lastTouch)})`,
+    );
+    sections.push(`### Support/resistance zones (nearest first)\n\n${lines.join("\n")}`);
+  }
+
+  if (patterns.length > 0) {
+    const level = (label: string, value: number | null) => (value !== null ? `, ${label} ${value.toFixed(2)}` : "");
+    const lines = patterns.map((p) =>
+      `- ${formatChartPatternName(p.kind)} (${p.direction}, ${p.status}) ${formatCandleTime(p.start)} → ${formatCandleTime(p.end)}`
+      + `${level("breakout", p.breakout)}${level("target", p.target)}${level("invalidation", p.invalidation)}`,
+    );
+    sections.push(`### Chart patterns\n\n${lines.join("\n")}`);
+  } else {
+    sections.push("### Chart patterns\n\nNo classic chart patterns were detected.");
+  }
+
+  return `## Market Structure (algorithmic, over all ${data.length} loaded candles):\n\nDetected by deterministic rules — treat these swings, zones and patterns as ground truth and build your support/resistance and pattern analysis on them.\n\n${sections.join("\n\n")}`;
+}
+
+/**
+ * Volatility and trend-strength readings on the last bar: ATR, ADX/DMI and
+ * which side of price the Supertrend and Parabolic SAR stops sit.
+ */
+export function buildTrendSummary(data: CandleData[]): string | null {
+  if (data.length < 30) return null;
+
+  const last = data[data.length - 1];
+  const lines: string[] = [];
+
+  const atr = resultLine(getIndicatorResult(data, "atr", { period: 14 }), "atr").at(-1)?.value;
+  if (atr !== undefined) {
+    lines.push(`- ATR (14): ${atr.toFixed(2)} (${((atr / last.close) * 100).toFixed(2)}% of price)`);
+  }
+
+  // Shared with the chart when it shows the same indicators
+  const dmi = getIndicatorResult(data, "adx", { period: 14 });
+  const adx = resultLine(dmi, "adx").at(-1)?.value;
+  const plusDI = resultLine(dmi, "plusDI").at(-1)?.value;
+  const minusDI = resultLine(dmi, "minusDI").at(-1)?.value;
+  if (adx !== undefined && plusDI !== undefined && minusDI !== undefined) {
+    const strength = adx >= 25 ? "trending" : adx >= 20 ? "weak trend" : "no clear trend";
+    lines.push(`- ADX (14): ${adx.toFixed(1)} (${strength}), +DI ${plusDI.toFixed(1)} / −DI ${minusDI.toFixed(1)}`);
+  }
+
+  const supertrend = resultLine(getIndicatorResult(data, "supertrend", { period: 10, multiplier: 3 }), "supertrend").at(-1)?.value;
+  if (supertrend !== undefined) {
+    lines.push(`- Supertrend (10, 3): ${supertrend.toFixed(2)} — ${last.close >= supertrend ? "uptrend (line below price)" : "downtrend (line above price)"}`);
+  }
+
+  const sar = resultLine(getIndicatorResult(data, "psar", { step: 0.02, maxStep: 0.2 }), "psar").at(-1)?.value;
+  if (sar !== undefined) {
+    lines.push(`- Parabolic SAR (0.02, 0.2): ${sar.toFixed(2)} — ${last.close >= sar ? "below price (long)" : "above price (short)"}`);
+  }
+
+  return lines.length > 0 ? `## Trend & Volatility (last bar):\n\n${lines.join("\n")}` : null;
+}
+
+/**
+ * Volume readings over the full loaded range (not just the table window):
+ * relative volume, OBV trend, MFI, VWAP and the volume profile's value area.
+ */
+export function buildVolumeSummary(data: CandleData[]): string | null {
+  const withVolume = data.filter((c) => c.volume);
+  // Indices and some FX/crypto feeds carry no volume
+  if (withVolume.length < data.length / 2 || withVolume.length < 21) return null;
+
+  const last = data[data.length - 1];
+  const lines: string[] = [];
+
+  const avgVolume = calculateVolumeSMA(withVolume, 20).at(-1)?.value;
+  if (avgVolume && last.volume) {
+    lines.push(`- Last bar volume: ${last.volume.toLocaleString("en-US")} (${(last.volume / avgVolume).toFixed(2)}× the 20-bar average)`);
+  }
+
+  const obv = resultLine(getIndicatorResult(data, "obv"), "obv");
+  if (obv.length > 20) {
+    const change = obv[obv.length - 1].value - obv[obv.length - 21].value;
+    lines.push(`- On-Balance Volume over the last 20 bars: ${change >= 0 ? "rising" : "falling"} (${change >= 0 ? "+" : ""}${Math.round(change).toLocaleString("en-US")})`);
+  }
+
+  const mfi = resultLine(getIndicatorResult(data, "mfi", { period: 14 }), "mfi").at(-1)?.value;
+  if (mfi !== undefined) lines.push(`- Money Flow Index (14): ${mfi.toFixed(1)}`);
+
+  const vwap = isIntraday(data)
+    ? { label: "Session VWAP", value: resultLine(getIndicatorResult(data, "vwap"), "vwap").at(-1)?.value }
+    : { label: "VWAP anchored at the first loaded bar", value: resultLine(getIndicatorResult(data, "avwap", { anchor: 0 }), "avwap").at(-1)?.value };
+  if (vwap.value !== undefined) {
+    lines.push(`- ${vwap.label}: ${vwap.value.toFixed(2)} (close is ${last.close >= vwap.value ? "above" : "below"})`);
+  }
+
+  const profile = getIndicatorResult(data, "vprofile", { bins: 24, valueArea: 70 }).profile;
+  if (profile) {
+    lines.push(`- Volume profile (${data.length} bars): point of control ${profile.poc.toFixed(2)}, value area (70% of volume) ${profile.valueAreaLow.toFixed(2)}–${profile.valueAreaHigh.toFixed(2)}`);
+  }
+
+  return lines.length > 0 ? `## Volume Analysis (computed over all ${data.length} loaded candles):\n\n${lines.join("\n")}` : null;
+}
+
+/**
+ * How the symbol moved against the comparison symbols on the chart, over
+ * the bars they share: returns, the relative-strength trend and how closely
+ * their bar-to-bar returns track each other.
+ */
+export function buildComparisonSummary(symbol: string, data: CandleData[], comparisons: ComparisonSeries[]): string | null {
+  const lines: string[] = [];
+  for (const comparison of loadedComparisons(comparisons)) {
+    const stats = comparisonStats(data, comparison.data);
+    if (!stats) continue;
+    const signed = (v: number) => `${v >= 0 ? "+" : ""}${v.toFixed(2)}%`;
+    const spread = stats.baseReturnPct - stats.otherReturnPct;
+    const trend = Math.abs(stats.rsChangePct) < 0.5 ? "flat" : stats.rsChangePct > 0 ? "rising" : "falling";
+    let line = `- vs ${comparison.symbol} (${stats.bars} shared bars): ${symbol} ${signed(stats.baseReturnPct)}, ${comparison.symbol} ${signed(stats.otherReturnPct)} — ${spread >= 0 ? "outperformed" : "underperformed"} by ${Math.abs(spread).toFixed(2)} pts; relative strength over the last 20 bars ${trend} (${signed(stats.rsChangePct)})`;
+    if (stats.correlation !== null) line += `; return correlation ${stats.correlation.toFixed(2)}`;
+    lines.push(line);
+  }
+
+  return lines.length > 0
+    ? `## Intermarket Comparison (same range and interval, shown on the chart):\n\n${lines.join("\n")}`
+    : null;
+}
+
+/**
+ * The user's own chart drawings, each with how price has behaved around it,
+ * so analysts can answer questions such as "is my trend line valid?".
+ */
+export function buildDrawingsSummary(data: CandleData[], drawings: Drawing[]): string | null {
+  if (drawings.length === 0 || data.length === 0) return null;
+
+  const close = data[data.length - 1].close;
+  const intraday = isIntraday(data);
+  const at = ({ time, price }: Drawing["anchors"][number]) =>
+    `${formatCandleTime(intraday ? time : new Date(time * 1000).toISOString().slice(0, 10))} @ ${price.toFixed(2)}`;
+  const side = (price: number) => (close > price ? "above" : close < price ? "below" : "at");
+
+  const lines = drawings.map((d, i) => {
+    const [a, b] = d.anchors;
+    const name = DRAWING_TOOLS[d.tool].name;
+    switch (d.tool) {
+      case "trendline":
+      case "ray": {
+        const m = measureLine(data, d);
+        let line = `${i + 1}. ${name} from ${at(a)} to ${at(b)}`;
+        if (!m) return line;
+        line += ` (slope ${m.slopePerBar >= 0 ? "+" : ""}${m.slopePerBar.toFixed(3)} per bar)`;
+        if (m.valueAtLastBar !== null) {
+          line += `; at the last bar it is at ${m.valueAtLastBar.toFixed(2)}, close ${close.toFixed(2)} is ${side(m.valueAtLastBar)}`;
+        }
+        return `${line}; ${m.touches} bars touched it, ${m.closesAbove} closes above and ${m.closesBelow} below over its span`;
+      }
+      case "horizontal": {
+        const distance = ((close - a.price) / a.price) * 100;
+        return `${i + 1}. ${name} at ${a.price.toFixed(2)}: close is ${Math.abs(distance).toFixed(2)}% ${side(a.price)}; ${countLevelTouches(data, a.price)} bars touched it`;
+      }
+      case "fibonacci": {
+        const levels = fibonacciLevels(a.price, b.price)
+          .map((l) => `${l.kind === "extension" ? "ext " : ""}${l.label} ${l.price.toFixed(2)}`)
+          .join(", ");
+        return `${i + 1}. ${name} of the move ${at(a)} → ${at(b)}: ${levels}`;
+      }
+      case "rectangle": {
+        const low = Math.min(a.price, b.price);
+        const high = Math.max(a.price, b.price);
+        const position = close > high ? "above it" : close < low ? "below it" : "inside it";
+        return `${i + 1}. ${name} ${at(a)} to ${at(b)} (${low.toFixed(2)}–${high.toFixed(2)}): close is ${position}`;
+      }
+      case "text":
+        return `${i + 1}. ${name} at ${at(a)}: "${d.text ?? ""}"`;
+    }
+  });
+
+  return `## User Drawings (placed by the user on the chart):\n\n${lines.join("\n")}\n\nThese are the user's own annotations, not detections. If the user asks about them, judge them against the data — touches, closes through, and where price sits now.`;
+}
+
+/**
+ * One row of key readings per timeframe of a multi-timeframe bundle, and
+ * whether their trends agree. Needs at least two loaded timeframes.
+ */
+export function buildTimeframeSummary(timeframes: TimeframeData[]): string | null {
+  const rows: string[] = [];
+  const trends: string[] = [];
+  const ordered = [...timeframes].sort((a, b) => BUNDLE_INTERVALS.indexOf(a.interval) - BUNDLE_INTERVALS.indexOf(b.interval));
+  for (const frame of ordered) {
+    const r = summarizeTimeframe(frame.data);
+    if (!r) continue;
+    trends.push(r.trend);
+    const reading = (label: string, value: number | null, digits = 1) =>
+      value !== null ? `, ${label} ${value.toFixed(digits)}` : "";
+    const versus = (label: string, value: number | null) =>
+      value !== null ? `${r.close > value ? "above" : "below"} ${label}` : null;
+    const position = `close ${[versus("SMA20", r.sma20), versus("SMA50", r.sma50)].filter(Boolean).join(" and ")}`;
+    rows.push(
+      `- ${INTERVAL_LABELS[frame.interval]} (${r.bars} bars over ${frame.range}): trend ${r.trend}, ${r.changePct >= 0 ? "+" : ""}${r.changePct.toFixed(2)}% over the range, ${position}`
+      + `${reading("RSI", r.rsi)}${r.macdHistogram !== null ? `, MACD histogram ${r.macdHistogram >= 0 ? "positive" : "negative"}` : ""}`
+      + `${reading("ADX", r.adx)}${r.atrPct !== null ? `, ATR ${r.atrPct.toFixed(2)}% of price` : ""}, at ${r.rangePosition.toFixed(0)}% of the range's low–high`,
+    );
+  }
+  if (rows.length < 2) return null;
+
+  const up = trends.filter((t) => t === "up").length;
+  const down = trends.filter((t) => t === "down").length;
+  const alignment = up === trends.length
+    ? "all timeframes trend up"
+    : down === trends.length
+      ? "all timeframes trend down"
+      : `${up} up, ${down} down, ${trends.length - up - down} mixed — the timeframes disagree`;
+
+  return `## Multi-Timeframe View (longest timeframe first; trend = close vs rising/falling SMA20 and SMA50):\n\n${rows.join("\n")}\n\nAlignment: ${alignment}. Weigh the higher timeframes for direction and the lower ones for timing.`;
+}
@@ -0,0 +1,485 @@
+import type { CandleData, IndicatorInstance, IndicatorPoint, IndicatorType } from "./types";
+import {
+  computeIndicator,
+  resolveParams,
+  type IndicatorLine,
+  type IndicatorResult,
+} from "./indicatorRegistry";
+
+/**
+ * Indicator Engine
+ *
+ * Computes registry indicators with a per-configuration cache. When candles
+ * are only appended (or the last, still-forming candle changes) the cached
+ * result is extended instead of recomputed: streaming indicators (SMA, EMA,
+ * Bollinger, RSI, MACD) advance their state by one bar at a time, costing the
+ * same per new bar however long the history is. Other indicators recompute
+ * in full when the data changes.
+ *
+ * The chart runs an engine inside a Web Worker (see workers/indicatorWorker)
+ * that keeps the candle series: live updates send it only the new or revised
+ * bars, and it answers with only the changed tail of each streamed result.
+ * The chart publishes its results here, so the prompt builder can reuse them
+ * via `getIndicatorResult` instead of computing the same series again.
+ */
+
+// --- Streaming kernels ---
+
+/** Values produced for one bar, by line key; lines without a value yet are omitted */
+type StreamValues = Partial<Record<string, number>>;
+
+interface IndicatorStream<S, Saved = unknown> {
+  lines: Omit<IndicatorLine, "points">[];
+  init: (params: Record<string, number>) => S;
+  next: (state: S, bar: CandleData, params: Record<string, number>) => StreamValues;
+  // Copy just what one `next` call changes, and put it back to undo that call
+  save: (state: S) => Saved;
+  restore: (state: S, saved: Saved) => void;
+}
+
+interface EmaState {
+  count: number;
+  sum: number;
+  ema: number;
+}
+
+/** EMA seeded with the SMA of its first `period` values, as calculateEMA */
+function nextEma(state: EmaState, value: number, period: number): number | undefined {
+  state.count++;
+  if (state.count <= period) {
+    state.sum += value;
+    if (state.count < period) return undefined;
+    state.ema = state.sum / period;
+    return state.ema;
+  }
+  const k = 2 / (period + 1);
+  state.ema = value * k + state.ema * (1 - k);
+  return state.ema;
+}
+
+const emaState = (): EmaState => ({ count: 0, sum: 0, ema: 0 });
+
+const saveEma = (state: EmaState): EmaState => ({ ...state });
+const restoreEma = (state: EmaState, saved: EmaState) => { Object.assign(state, saved); };
+
+/** The last `period` closes, in a ring: `next` is the slot written next, which holds the oldest once full */
+interface CloseWindow {
+  closes: number[];
+  next: number;
+  filled: number;
+}
+
+const closeWindow = (period: number): CloseWindow => ({ closes: new Array<number>(period).fill(0), next: 0, filled: 0 });
+
+/** Add a close, returning the one that left the window */
+function pushClose(window: CloseWindow, close: number, period: number): number | undefined {
+  const dropped = window.filled === period ? window.closes[window.next] : undefined;
+  window.closes[window.next] = close;
+  window.next = (window.next + 1) % period;
+  if (dropped === undefined) window.filled++;
+  return dropped;
+}
+
+/** Where the next close goes and the close it will overwrite, enough to undo one pushClose */
+interface WindowMark {
+  next: number;
+  filled: number;
+  slot: number;
+}
+
+const markWindow = (window: CloseWindow): WindowMark => ({ next: window.next, filled: window.filled, slot: window.closes[window.next] });
+
+function rewindWindow(window: CloseWindow, mark: WindowMark): void {
+  window.closes[mark.next] = mark.slot;
+  window.next = mark.next;
+  window.filled = mark.filled;
+}
+
+interface SmaState {
+  window: CloseWindow;
+  sum: number;
+}
+
+const smaStream: IndicatorStream<SmaState, { window: WindowMark; sum: number }> = {
+  lines: [{ key: "sma", style: "solid" }],
+  init: ({ period }) => ({ window: closeWindow(period), sum: 0 }),
+  next: (state, bar, { period }) => {
+    const dropped = pushClose(state.window, bar.close, period);
+    state.sum += bar.close;
+    if (dropped !== undefined) state.sum -= dropped;
+    return state.window.filled === period ? { sma: state.sum / period } : {};
+  },
+  save: ({ window, sum }) => ({ window: markWindow(window), sum }),
+  restore: (state, { window, sum }) => {
+    rewindWindow(state.window, window);
+    state.sum = sum;
+  },
+};
+
+const emaStream: IndicatorStream<EmaState, EmaState> = {
+  lines: [{ key: "ema", style: "solid" }],
+  init: emaState,
+  next: (state, bar, { period }) => {
+    const ema = nextEma(state, bar.close, period);
+    return ema === undefined ? {} : { ema };
+  },
+  save: saveEma,
+  restore: restoreEma,
+};
+
+/** Mirrors calculateBollingerBands, including where its sums are re-anchored */
+interface BollingerState {
+  window: CloseWindow;
+  count: number;
+  offset: number;
+  sum: number;
+  sqSum: number;
+}
+
+const bollingerStream: IndicatorStream<BollingerState, { window: WindowMark; scalars: Omit<BollingerState, "window"> }> = {
+  lines: [
+    { key: "upper", style: "solid", opacity: 0.5 },
+    { key: "middle", style: "dashed", opacity: 0.8 },
+    { key: "lower", style: "solid", opacity: 0.5 },
+  ],
+  init: ({ period }) => ({ window: closeWindow(period), count: 0, offset: 0, sum: 0, sqSum: 0 }),
+  next: (state, bar, { period, stdDev }) => {
+    const i = state.count++;
+    if (i === 0) state.offset = bar.close;
+    const dropped = pushClose(state.window, bar.close, period);
+
+    if (i >= period - 1 && (i - period + 1) % period === 0) {
+      state.offset = bar.close;
+      state.sum = 0;
+      state.sqSum = 0;
+      // The window is full here; sum it oldest first
+      for (let k = 0; k < period; k++) {
+        const d = state.window.closes[(state.window.next + k) % period] - state.offset;
+        state.sum += d;
+        state.sqSum += d * d;
+      }
+    } else {
+      const d = bar.close - state.offset;
+      state.sum += d;
+      state.sqSum += d * d;
+      if (dropped !== undefined) {
+        const o = dropped - state.offset;
+        state.sum -= o;
+        state.sqSum -= o * o;
+      }
+    }
+    if (i < period - 1) return {};
+
+    const meanDiff = state.sum / period;
+    const mean = state.offset + meanDiff;
+    const sd = Math.sqrt(Math.max(0, state.sqSum / period - meanDiff * meanDiff));
+    return { upper: mean + stdDev * sd, middle: mean, lower: mean - stdDev * sd };
+  },
+  save: ({ window, ...scalars }) => ({ window: markWindow(window), scalars }),
+  restore: (state, { window, scalars }) => {
+    rewindWindow(state.window, window);
+    Object.assign(state, scalars);
+  },
+};
+
+/** Wilder RSI, as calculateRSI */
+interface RsiState {
+  prevClose: number | null;
+  changes: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+const rsiStream: IndicatorStream<RsiState, RsiState> = {
+  lines: [{ key: "rsi", style: "solid" }],
+  init: () => ({ prevClose: null, changes: 0, avgGain: 0, avgLoss: 0 }),
+  next: (state, bar, { period }) => {
+    const prev = state.prevClose;
+    state.prevClose = bar.close;
+    if (prev === null) return {};
+
+    const change = bar.close - prev;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    state.changes++;
+
+    if (state.changes <= period) {
+      // Simple average of the first `period` changes
+      state.avgGain += gain;
+      state.avgLoss += loss;
+      if (state.changes < period) return {};
+      state.avgGain /= period;
+      state.avgLoss /= period;
+    } else {
+      state.avgGain = (state.avgGain * (period - 1) + gain) / period;
+      state.avgLoss = (state.avgLoss * (period - 1) + loss) / period;
+    }
+
+    const rsi = state.avgLoss === 0 ? 100 : 100 - 100 / (1 + state.avgGain / state.avgLoss);
+    return { rsi };
+  },
+  save: (state) => ({ ...state }),
+  restore: (state, saved) => { Object.assign(state, saved); },
+};
+
+/** MACD with its signal EMA, as calculateMACD */
+interface MacdState {
+  fast: EmaState;
+  slow: EmaState;
+  signal: EmaState;
+}
+
+const macdStream: IndicatorStream<MacdState, MacdState> = {
+  lines: [
+    { key: "histogram", style: "histogram" },
+    { key: "macd", style: "solid" },
+    { key: "signal", style: "solid", color: "#ef4444" },
+  ],
+  init: () => ({ fast: emaState(), slow: emaState(), signal: emaState() }),
+  next: (state, bar, { fast, slow, signal }) => {
+    const fastEma = nextEma(state.fast, bar.close, fast);
+    const slowEma = nextEma(state.slow, bar.close, Math.max(slow, fast + 1));
+    if (fastEma === undefined || slowEma === undefined) return {};
+
+    const macd = fastEma - slowEma;
+    const signalEma = nextEma(state.signal, macd, signal);
+    return signalEma === undefined ? { macd } : { macd, signal: signalEma, histogram: macd - signalEma };
+  },
+  save: (state) => ({ fast: saveEma(state.fast), slow: saveEma(state.slow), signal: saveEma(state.signal) }),
+  restore: (state, saved) => {
+    restoreEma(state.fast, saved.fast);
+    restoreEma(state.slow, saved.slow);
+    restoreEma(state.signal, saved.signal);
+  },
+};
+
+const STREAMS: Partial<Record<IndicatorType, IndicatorStream<unknown>>> = {
+  sma: smaStream as IndicatorStream<unknown>,
+  ema: emaStream as IndicatorStream<unknown>,
+  bollinger: bollingerStream as IndicatorStream<unknown>,
+  rsi: rsiStream as IndicatorStream<unknown>,
+  macd: macdStream as IndicatorStream<unknown>,
+};
+
+// --- Cache keys ---
+
+/** Identifies an indicator configuration, independent of instance id and colour */
+export function indicatorSignature(type: IndicatorType, params: Record<string, number> = {}): string {
+  return `${type}:${JSON.stringify(resolveParams(type, params))}`;
+}
+
+/** Cheap identity for a candle series: its length, ends and the last bar's values */
+export function dataFingerprint(data: CandleData[]): string {
+  const first = data[0];
+  const last = data[data.length - 1];
+  if (!first || !last) return "empty";
+  return [data.length, first.time, last.time, last.open, last.high, last.low, last.close, last.volume ?? ""].join("|");
+}
+
+function sameBar(a: CandleData, b: CandleData): boolean {
+  return a.time === b.time && a.open === b.open && a.high === b.high
+    && a.low === b.low && a.close === b.close && a.volume === b.volume;
+}
+
+// --- Engine ---
+
+interface CacheEntry {
+  firstTime: string | number;
+  length: number;
+  lastBar: CandleData;
+  fingerprint: string;
+  result: IndicatorResult;
+  // Streaming state after the last bar, with what undoes that bar, so a revised last bar can be replayed
+  stream?: { state: unknown; saved: unknown; lengths: number[] };
+}
+
+export interface IndicatorResultEntry {
+  indicator: IndicatorInstance;
+  result: IndicatorResult;
+}
+
+export interface IndicatorEngine {
+  compute: (data: CandleData[], instance: Pick<IndicatorInstance, "type" | "params">) => IndicatorResult;
+  computeAll: (data: CandleData[], instances: IndicatorInstance[]) => IndicatorResultEntry[];
+}
+
+// Configurations remembered per engine; the least recently used are dropped
+const MAX_CACHE_ENTRIES = 64;
+
+/**
+ * Results are updated in place on later calls; treat them as read-only.
+ */
+export function createIndicatorEngine(): IndicatorEngine {
+  const cache = new Map<string, CacheEntry>();
+
+  const remember = (key: string, entry: CacheEntry) => {
+    cache.delete(key);
+    cache.set(key, entry);
+    if (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value as string);
+  };
+
+  /** Advance a stream over data[from..], saving what the final bar changes */
+  const replay = (
+    stream: IndicatorStream<unknown>,
+    state: unknown,
+    lines: IndicatorLine[],
+    data: CandleData[],
+    from: number,
+    params: Record<string, number>,
+  ) => {
+    let saved: unknown = undefined;
+    let lengths = lines.map((l) => l.points.length);
+    for (let i = from; i < data.length; i++) {
+      if (i === data.length - 1) {
+        saved = stream.save(state);
+        lengths = lines.map((l) => l.points.length);
+      }
+      const values = stream.next(state, data[i], params);
+      for (const line of lines) {
+        const value = values[line.key];
+        if (value !== undefined) line.points.push({ time: data[i].time, value });
+      }
+    }
+    return { state, saved, lengths };
+  };
+
+  const compute: IndicatorEngine["compute"] = (data, instance) => {
+    const key = indicatorSignature(instance.type, instance.params);
+    if (data.length === 0) return { lines: [] };
+
+    const params = resolveParams(instance.type, instance.params);
+    const fingerprint = dataFingerprint(data);
+    const last = data[data.length - 1];
+    const cached = cache.get(key);
+    if (cached && cached.fingerprint === fingerprint && sameBar(cached.lastBar, last)) {
+      remember(key, cached);
+      return cached.result;
+    }
+
+    const stream = STREAMS[instance.type];
+    if (!stream) {
+      const result = computeIndicator({ ...instance, id: key, color: "", pane: 0 }, data);
+      remember(key, { firstTime: data[0].time, length: data.length, lastBar: last, fingerprint, result });
+      return result;
+    }
+
+    // Appended bars (and possibly a revised last bar): roll back one bar and replay
+    const appended = cached?.stream
+      && cached.firstTime === data[0].time
+      && data.length >= cached.length
+      && data[cached.length - 1].time === cached.lastBar.time;
+
+    let result: IndicatorResult;
+    let lines: IndicatorLine[];
+    let snapshot: { state: unknown; saved: unknown; lengths: number[] };
+    if (appended && cached.stream) {
+      // Extended in place, keeping the result object so patches can send just the tail
+      result = cached.result;
+      lines = result.lines;
+      lines.forEach((line, i) => { line.points.length = cached.stream!.lengths[i]; });
+      // Undo the last bar on the cached state itself and replay from there
+      const { state, saved } = cached.stream;
+      stream.restore(state, saved);
+      snapshot = replay(stream, state, lines, data, cached.length - 1, params);
+    } else {
+      lines = stream.lines.map((line) => ({ ...line, points: [] as IndicatorPoint[] }));
+      result = { lines };
+      snapshot = replay(stream, stream.init(params), lines, data, 0, params);
+    }
+
+    remember(key, {
+      firstTime: data[0].time,
+      length: data.length,
+      lastBar: { ...last },
+      fingerprint,
+      result,
+      stream: snapshot,
+    });
+    return result;
+  };
+
+  return {
+    compute,
+    computeAll: (data, instances) => instances.map((indicator) => ({ indicator, result: compute(data, indicator) })),
+  };
+}
+
+// --- Result patches (worker to main thread) ---
+
+/** A result in full, or for a result that was only extended, each line's points from `from` on */
+export type IndicatorResultPatch =
+  | { indicatorId: string; result: IndicatorResult }
+  | { indicatorId: string; tails: { from: number; points: IndicatorPoint[] }[] };
+
+/**
+ * Turns engine results into patches against what was sent before. A result
+ * extended in place since then changed at most its last point per line plus
+ * the appended ones, so only that tail is sent.
+ */
+export function createResultDiffer(): (entries: IndicatorResultEntry[]) => IndicatorResultPatch[] {
+  const sent = new Map<string, { result: IndicatorResult; lengths: number[] }>();
+  return (entries) => {
+    const ids = new Set(entries.map((e) => e.indicator.id));
+    for (const id of sent.keys()) if (!ids.has(id)) sent.delete(id);
+
+    return entries.map(({ indicator, result }): IndicatorResultPatch => {
+      const prev = sent.get(indicator.id);
+      sent.set(indicator.id, { result, lengths: result.lines.map((l) => l.points.length) });
+      if (prev?.result !== result) return { indicatorId: indicator.id, result };
+      return {
+        indicatorId: indicator.id,
+        tails: result.lines.map((line, i) => {
+          const from = Math.max(0, Math.min(prev.lengths[i] - 1, line.points.length));
+          return { from, points: line.points.slice(from) };
+        }),
+      };
+    });
+  };
+}
+
+/** Apply a patch to the previous result of the same indicator, extending its lines in place */
+export function applyResultPatch(prev: IndicatorResult | undefined, patch: IndicatorResultPatch): IndicatorResult {
+  if ("result" in patch) return patch.result;
+  if (!prev) throw new Error(`No result to patch for indicator ${patch.indicatorId}`);
+  prev.lines.forEach((line, i) => {
+    const tail = patch.tails[i];
+    if (!tail) return;
+    line.points.length = tail.from;
+    for (const point of tail.points) line.points.push(point);
+  });
+  return prev;
+}
+
+// --- Shared results (main thread) ---
+
+// Results the chart's worker produced, keyed by configuration
+const published = new Map<string, { fingerprint: string; result: IndicatorResult }>();
+let mainEngine: IndicatorEngine | null = null;
+
+/** Record results computed elsewhere (the chart's worker) for reuse */
+export function publishIndicatorResults(data: CandleData[], entries: IndicatorResultEntry[]): void {
+  const fingerprint = dataFingerprint(data);
+  for (const { indicator, result } of entries) {
+    published.set(indicatorSignature(indicator.type, indicator.params), { fingerprint, result });
+  }
+}
+
+/**
+ * An indicator result for these candles: the chart's if it already computed
+ * the same configuration on the same data, otherwise computed (and cached) here.
+ */
+export function getIndicatorResult(
+  data: CandleData[],
+  type: IndicatorType,
+  params: Record<string, number> = {},
+): IndicatorResult {
+  const hit = published.get(indicatorSignature(type, params));
+  if (hit && hit.fingerprint === dataFingerprint(data)) return hit.result;
+  mainEngine ??= createIndicatorEngine();
+  return mainEngine.compute(data, { type, params });
+}
+
+/** Points of one line of a result, by key */
+export function resultLine(result: IndicatorResult, key: string): IndicatorPoint[] {
+  return result.lines.find((line) => line.key === key)?.points ?? [];
+}
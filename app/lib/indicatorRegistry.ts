@@ -0,0 +1,660 @@
+import type {
+  CandleData,
+  IndicatorInstance,
+  IndicatorPoint,
+  IndicatorPreset,
+  IndicatorType,
+  VolumeProfileResult,
+} from "./types";
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateBollingerBands,
+  calculateRSI,
+  calculateMACD,
+  calculateOBV,
+  calculateVolumeSMA,
+  calculateVWAP,
+  calculateAnchoredVWAP,
+  calculateMFI,
+  calculateVolumeProfile,
+  calculateATR,
+  calculateADX,
+  calculateKeltnerChannels,
+  calculateDonchianChannels,
+  calculateParabolicSAR,
+  calculateSupertrend,
+  calculateStochastic,
+  calculateStochRSI,
+  calculateWilliamsR,
+  calculateCCI,
+  calculateROC,
+  calculateIchimoku,
+} from "./indicators";
+
+/**
+ * Indicator Registry
+ *
+ * Describes every chart indicator: its parameters, where it is drawn and how
+ * it is computed. The chart and the indicator selector work from these
+ * definitions, so adding an indicator means adding one entry here.
+ */
+
+export interface IndicatorParamDef {
+  key: string;
+  label: string;
+  default: number;
+  min: number;
+  max: number;
+  step?: number;  // Defaults to 1 (integer periods)
+  kind?: "time";  // A bar time in epoch seconds, picked on the chart rather than typed
+}
+
+/** One plotted series of an indicator result */
+export interface IndicatorLine {
+  key: string;
+  points: IndicatorPoint[];
+  style: "solid" | "dashed" | "dots" | "histogram";  // Histograms are coloured by sign
+  color?: string;  // Fixed colour; otherwise the instance colour
+  opacity?: number;  // Applied to the instance colour (bands drawn fainter than their midline)
+  colors?: string[];  // Per-point colours, overriding the sign or instance colouring
+}
+
+export interface IndicatorResult {
+  lines: IndicatorLine[];
+  profile?: VolumeProfileResult | null;  // Horizontal volume-by-price bars on the price pane
+  cloud?: { spanA: IndicatorPoint[]; spanB: IndicatorPoint[] };  // Fill between two spans (Ichimoku)
+}
+
+export interface IndicatorDefinition {
+  type: IndicatorType;
+  name: string;
+  description: string;
+  placement: "overlay" | "pane";  // Price pane, or a sub-pane below it
+  params: IndicatorParamDef[];
+  defaultColor: string;
+  guides?: number[];  // Horizontal reference lines in the sub-pane (e.g. 70/30)
+  range?: { min: number; max: number };  // Fixed value range for bounded oscillators
+  compute: (data: CandleData[], params: Record<string, number>) => IndicatorResult;
+}
+
+const UP_COLOR = "#22c55e";
+const DOWN_COLOR = "#ef4444";
+
+/** Green where a trailing stop sits below the close (uptrend), red where above */
+function trendColors(data: CandleData[], points: IndicatorPoint[]): string[] {
+  const closes = new Map(data.map((c) => [c.time, c.close]));
+  return points.map((p) => ((closes.get(p.time) ?? p.value) >= p.value ? UP_COLOR : DOWN_COLOR));
+}
+
+/** Apply an alpha to a #rrggbb colour */
+export function withAlpha(hex: string, alpha: number): string {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return hex;
+  const n = parseInt(match[1], 16);
+  return `rgba(${(n >> 16) & 255},${(n >> 8) & 255},${n & 255},${alpha})`;
+}
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    type: "sma",
+    name: "SMA",
+    description: "Simple moving average",
+    placement: "overlay",
+    params: [{ key: "period", label: "Period", default: 20, min: 2, max: 500 }],
+    defaultColor: "#f59e0b",
+    compute: (data, { period }) => ({
+      lines: [{ key: "sma", points: calculateSMA(data, period), style: "solid" }],
+    }),
+  },
+  ema: {
+    type: "ema",
+    name: "EMA",
+    description: "Exponential moving average",
+    placement: "overlay",
+    params: [{ key: "period", label: "Period", default: 12, min: 2, max: 500 }],
+    defaultColor: "#06b6d4",
+    compute: (data, { period }) => ({
+      lines: [{ key: "ema", points: calculateEMA(data, period), style: "solid" }],
+    }),
+  },
+  bollinger: {
+    type: "bollinger",
+    name: "Bollinger",
+    description: "Volatility bands",
+    placement: "overlay",
+    params: [
+      { key: "period", label: "Period", default: 20, min: 2, max: 500 },
+      { key: "stdDev", label: "Std dev", default: 2, min: 0.5, max: 5, step: 0.1 },
+    ],
+    defaultColor: "#6495ed",
+    compute: (data, { period, stdDev }) => {
+      const bands = calculateBollingerBands(data, period, stdDev);
+      return {
+        lines: [
+          { key: "upper", points: bands.upper, style: "solid", opacity: 0.5 },
+          { key: "middle", points: bands.middle, style: "dashed", opacity: 0.8 },
+          { key: "lower", points: bands.lower, style: "solid", opacity: 0.5 },
+        ],
+      };
+    },
+  },
+  rsi: {
+    type: "rsi",
+    name: "RSI",
+    description: "Overbought/oversold",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 14, min: 2, max: 100 }],
+    defaultColor: "#f59e0b",
+    guides: [70, 30],
+    range: { min: 0, max: 100 },
+    compute: (data, { period }) => ({
+      lines: [{ key: "rsi", points: calculateRSI(data, period), style: "solid" }],
+    }),
+  },
+  macd: {
+    type: "macd",
+    name: "MACD",
+    description: "Momentum signal",
+    placement: "pane",
+    params: [
+      { key: "fast", label: "Fast", default: 12, min: 2, max: 100 },
+      { key: "slow", label: "Slow", default: 26, min: 3, max: 200 },
+      { key: "signal", label: "Signal", default: 9, min: 2, max: 100 },
+    ],
+    defaultColor: "#3b82f6",
+    compute: (data, { fast, slow, signal }) => {
+      const result = calculateMACD(data, fast, Math.max(slow, fast + 1), signal);
+      return {
+        lines: [
+          { key: "histogram", points: result.histogram, style: "histogram" },
+          { key: "macd", points: result.macd, style: "solid" },
+          { key: "signal", points: result.signal, style: "solid", color: "#ef4444" },
+        ],
+      };
+    },
+  },
+  volume: {
+    type: "volume",
+    name: "Volume",
+    description: "Volume bars with average",
+    placement: "pane",
+    params: [{ key: "maPeriod", label: "MA", default: 20, min: 0, max: 200 }],
+    defaultColor: "#a0a0a0",
+    compute: (data, { maPeriod }) => {
+      const withVolume = data.filter((c) => c.volume !== undefined);
+      const bars = withVolume.map((c) => ({ time: c.time, value: c.volume ?? 0 }));
+      const lines: IndicatorLine[] = [{
+        key: "volume",
+        points: bars,
+        style: "histogram",
+        colors: withVolume.map((c) => (c.close >= c.open ? "rgba(34,197,94,0.5)" : "rgba(239,68,68,0.5)")),
+      }];
+      if (maPeriod > 0) {
+        lines.push({ key: "average", points: calculateVolumeSMA(withVolume, maPeriod), style: "solid" });
+      }
+      return { lines };
+    },
+  },
+  obv: {
+    type: "obv",
+    name: "OBV",
+    description: "On-balance volume",
+    placement: "pane",
+    params: [],
+    defaultColor: "#22d3ee",
+    compute: (data) => ({
+      lines: [{ key: "obv", points: calculateOBV(data), style: "solid" }],
+    }),
+  },
+  vwap: {
+    type: "vwap",
+    name: "VWAP",
+    description: "Session VWAP (intraday)",
+    placement: "overlay",
+    params: [],
+    defaultColor: "#eab308",
+    compute: (data) => ({
+      lines: [{ key: "vwap", points: calculateVWAP(data), style: "solid" }],
+    }),
+  },
+  avwap: {
+    type: "avwap",
+    name: "Anchored VWAP",
+    description: "VWAP from a chosen bar",
+    placement: "overlay",
+    params: [{ key: "anchor", label: "Anchor", default: 0, min: 0, max: Number.MAX_SAFE_INTEGER, kind: "time" }],
+    defaultColor: "#f472b6",
+    compute: (data, { anchor }) => ({
+      lines: [{ key: "avwap", points: calculateAnchoredVWAP(data, anchor), style: "solid" }],
+    }),
+  },
+  vprofile: {
+    type: "vprofile",
+    name: "Volume Profile",
+    description: "Volume by price",
+    placement: "overlay",
+    params: [
+      { key: "bins", label: "Rows", default: 24, min: 6, max: 100 },
+      { key: "valueArea", label: "Value area %", default: 70, min: 50, max: 95 },
+    ],
+    defaultColor: "#6366f1",
+    compute: (data, { bins, valueArea }) => ({
+      lines: [],
+      profile: calculateVolumeProfile(data, bins, valueArea / 100),
+    }),
+  },
+  mfi: {
+    type: "mfi",
+    name: "MFI",
+    description: "Money flow index",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 14, min: 2, max: 100 }],
+    defaultColor: "#84cc16",
+    guides: [80, 20],
+    range: { min: 0, max: 100 },
+    compute: (data, { period }) => ({
+      lines: [{ key: "mfi", points: calculateMFI(data, period), style: "solid" }],
+    }),
+  },
+  atr: {
+    type: "atr",
+    name: "ATR",
+    description: "Average true range",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 14, min: 2, max: 100 }],
+    defaultColor: "#f97316",
+    compute: (data, { period }) => ({
+      lines: [{ key: "atr", points: calculateATR(data, period), style: "solid" }],
+    }),
+  },
+  adx: {
+    type: "adx",
+    name: "ADX",
+    description: "Trend strength with +DI/−DI",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 14, min: 2, max: 100 }],
+    defaultColor: "#e5e7eb",
+    guides: [25],
+    range: { min: 0, max: 100 },
+    compute: (data, { period }) => {
+      const result = calculateADX(data, period);
+      return {
+        lines: [
+          { key: "adx", points: result.adx, style: "solid" },
+          { key: "plusDI", points: result.plusDI, style: "solid", color: withAlpha(UP_COLOR, 0.7) },
+          { key: "minusDI", points: result.minusDI, style: "solid", color: withAlpha(DOWN_COLOR, 0.7) },
+        ],
+      };
+    },
+  },
+  keltner: {
+    type: "keltner",
+    name: "Keltner",
+    description: "EMA ± ATR channel",
+    placement: "overlay",
+    params: [
+      { key: "period", label: "EMA", default: 20, min: 2, max: 500 },
+      { key: "atrPeriod", label: "ATR", default: 10, min: 2, max: 100 },
+      { key: "multiplier", label: "Mult", default: 2, min: 0.5, max: 5, step: 0.1 },
+    ],
+    defaultColor: "#14b8a6",
+    compute: (data, { period, atrPeriod, multiplier }) => {
+      const channel = calculateKeltnerChannels(data, period, atrPeriod, multiplier);
+      return {
+        lines: [
+          { key: "upper", points: channel.upper, style: "solid", opacity: 0.5 },
+          { key: "middle", points: channel.middle, style: "dashed", opacity: 0.8 },
+          { key: "lower", points: channel.lower, style: "solid", opacity: 0.5 },
+        ],
+      };
+    },
+  },
+  donchian: {
+    type: "donchian",
+    name: "Donchian",
+    description: "Highest high / lowest low channel",
+    placement: "overlay",
+    params: [{ key: "period", label: "Period", default: 20, min: 2, max: 500 }],
+    defaultColor: "#8b5cf6",
+    compute: (data, { period }) => {
+      const channel = calculateDonchianChannels(data, period);
+      return {
+        lines: [
+          { key: "upper", points: channel.upper, style: "solid", opacity: 0.6 },
+          { key: "middle", points: channel.middle, style: "dashed", opacity: 0.5 },
+          { key: "lower", points: channel.lower, style: "solid", opacity: 0.6 },
+        ],
+      };
+    },
+  },
+  psar: {
+    type: "psar",
+    name: "Parabolic SAR",
+    description: "Trailing stop and reverse",
+    placement: "overlay",
+    params: [
+      { key: "step", label: "Step", default: 0.02, min: 0.001, max: 0.2, step: 0.001 },
+      { key: "maxStep", label: "Max", default: 0.2, min: 0.01, max: 1, step: 0.01 },
+    ],
+    defaultColor: "#facc15",
+    compute: (data, { step, maxStep }) => {
+      const points = calculateParabolicSAR(data, step, Math.max(maxStep, step));
+      return { lines: [{ key: "psar", points, style: "dots", colors: trendColors(data, points) }] };
+    },
+  },
+  supertrend: {
+    type: "supertrend",
+    name: "Supertrend",
+    description: "ATR trailing trend line",
+    placement: "overlay",
+    params: [
+      { key: "period", label: "ATR", default: 10, min: 2, max: 100 },
+      { key: "multiplier", label: "Mult", default: 3, min: 0.5, max: 10, step: 0.1 },
+    ],
+    defaultColor: "#22c55e",
+    compute: (data, { period, multiplier }) => {
+      const points = calculateSupertrend(data, period, multiplier);
+      return { lines: [{ key: "supertrend", points, style: "solid", colors: trendColors(data, points) }] };
+    },
+  },
+  stochastic: {
+    type: "stochastic",
+    name: "Stochastic",
+    description: "Close within the recent range",
+    placement: "pane",
+    params: [
+      { key: "kPeriod", label: "%K", default: 14, min: 2, max: 100 },
+      { key: "dPeriod", label: "%D", default: 3, min: 1, max: 50 },
+      { key: "smooth", label: "Smooth", default: 3, min: 1, max: 50 },
+    ],
+    defaultColor: "#38bdf8",
+    guides: [80, 20],
+    range: { min: 0, max: 100 },
+    compute: (data, { kPeriod, dPeriod, smooth }) => {
+      const result = calculateStochastic(data, kPeriod, dPeriod, smooth);
+      return {
+        lines: [
+          { key: "k", points: result.k, style: "solid" },
+          { key: "d", points: result.d, style: "solid", color: "#f97316" },
+        ],
+      };
+    },
+  },
+  stochrsi: {
+    type: "stochrsi",
+    name: "Stoch RSI",
+    description: "Stochastic of RSI",
+    placement: "pane",
+    params: [
+      { key: "rsiPeriod", label: "RSI", default: 14, min: 2, max: 100 },
+      { key: "stochPeriod", label: "Stoch", default: 14, min: 2, max: 100 },
+      { key: "kSmooth", label: "%K", default: 3, min: 1, max: 50 },
+      { key: "dSmooth", label: "%D", default: 3, min: 1, max: 50 },
+    ],
+    defaultColor: "#c084fc",
+    guides: [80, 20],
+    range: { min: 0, max: 100 },
+    compute: (data, { rsiPeriod, stochPeriod, kSmooth, dSmooth }) => {
+      const result = calculateStochRSI(data, rsiPeriod, stochPeriod, kSmooth, dSmooth);
+      return {
+        lines: [
+          { key: "k", points: result.k, style: "solid" },
+          { key: "d", points: result.d, style: "solid", color: "#f97316" },
+        ],
+      };
+    },
+  },
+  williams: {
+    type: "williams",
+    name: "Williams %R",
+    description: "Inverted range position",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 14, min: 2, max: 100 }],
+    defaultColor: "#2dd4bf",
+    guides: [-20, -80],
+    range: { min: -100, max: 0 },
+    compute: (data, { period }) => ({
+      lines: [{ key: "williams", points: calculateWilliamsR(data, period), style: "solid" }],
+    }),
+  },
+  cci: {
+    type: "cci",
+    name: "CCI",
+    description: "Commodity channel index",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 20, min: 2, max: 200 }],
+    defaultColor: "#fb7185",
+    guides: [100, -100],
+    compute: (data, { period }) => ({
+      lines: [{ key: "cci", points: calculateCCI(data, period), style: "solid" }],
+    }),
+  },
+  roc: {
+    type: "roc",
+    name: "ROC",
+    description: "Rate of change (%)",
+    placement: "pane",
+    params: [{ key: "period", label: "Period", default: 12, min: 1, max: 200 }],
+    defaultColor: "#a3e635",
+    guides: [0],
+    compute: (data, { period }) => ({
+      lines: [{ key: "roc", points: calculateROC(data, period), style: "solid" }],
+    }),
+  },
+  ichimoku: {
+    type: "ichimoku",
+    name: "Ichimoku",
+    description: "Cloud with Tenkan/Kijun",
+    placement: "overlay",
+    params: [
+      { key: "conversion", label: "Tenkan", default: 9, min: 2, max: 100 },
+      { key: "base", label: "Kijun", default: 26, min: 2, max: 200 },
+      { key: "spanB", label: "Span B", default: 52, min: 2, max: 400 },
+      { key: "displacement", label: "Shift", default: 26, min: 1, max: 200 },
+    ],
+    defaultColor: "#3b82f6",
+    compute: (data, { conversion, base, spanB, displacement }) => {
+      const result = calculateIchimoku(data, conversion, base, spanB, displacement);
+      return {
+        lines: [
+          { key: "conversion", points: result.conversion, style: "solid", color: "#ef4444" },
+          { key: "base", points: result.base, style: "solid" },
+          { key: "spanA", points: result.spanA, style: "solid", color: withAlpha(UP_COLOR, 0.6) },
+          { key: "spanB", points: result.spanB, style: "solid", color: withAlpha(DOWN_COLOR, 0.6) },
+          { key: "lagging", points: result.lagging, style: "solid", color: "#a3a3a3", opacity: 0.6 },
+        ],
+        cloud: { spanA: result.spanA, spanB: result.spanB },
+      };
+    },
+  },
+};
+
+export const INDICATOR_TYPES = Object.keys(INDICATOR_DEFINITIONS) as IndicatorType[];
+
+export function getIndicatorDefinition(type: IndicatorType): IndicatorDefinition {
+  return INDICATOR_DEFINITIONS[type];
+}
+
+/** Resolve the colour of one line of an instance */
+export function lineColor(line: IndicatorLine, instance: IndicatorInstance): string {
+  if (line.color) return line.color;
+  return line.opacity !== undefined ? withAlpha(instance.color, line.opacity) : instance.color;
+}
+
+/** Parameters with defaults filled in and values clamped to their ranges */
+export function resolveParams(type: IndicatorType, params: Record<string, number> = {}): Record<string, number> {
+  return Object.fromEntries(
+    getIndicatorDefinition(type).params.map((p) => {
+      const value = params[p.key];
+      const valid = typeof value === "number" && Number.isFinite(value);
+      return [p.key, valid ? Math.max(p.min, Math.min(p.max, value)) : p.default];
+    }),
+  );
+}
+
+export function createIndicator(
+  type: IndicatorType,
+  overrides: Partial<Omit<IndicatorInstance, "id" | "type">> = {},
+): IndicatorInstance {
+  const def = getIndicatorDefinition(type);
+  return {
+    id: `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    type,
+    params: resolveParams(type, overrides.params),
+    color: overrides.color ?? def.defaultColor,
+    pane: def.placement === "overlay" ? 0 : Math.max(1, overrides.pane ?? 1),
+  };
+}
+
+/** Short label such as "EMA(9)" or "Bollinger(20, 2.5)" */
+export function indicatorLabel(instance: IndicatorInstance): string {
+  const def = getIndicatorDefinition(instance.type);
+  const values = def.params
+    .filter((p) => p.kind !== "time")
+    .map((p) => instance.params[p.key] ?? p.default);
+  return values.length > 0 ? `${def.name}(${values.join(", ")})` : def.name;
+}
+
+export function computeIndicator(instance: IndicatorInstance, data: CandleData[]): IndicatorResult {
+  if (data.length === 0) return { lines: [] };
+  return getIndicatorDefinition(instance.type).compute(data, resolveParams(instance.type, instance.params));
+}
+
+/**
+ * Map the instances' pane numbers onto consecutive chart panes (1, 2, ...),
+ * so removing an indicator never leaves an empty pane behind
+ */
+export function assignPanes(instances: IndicatorInstance[]): Map<string, number> {
+  const subPanes = [...new Set(
+    instances
+      .filter((i) => getIndicatorDefinition(i.type).placement === "pane")
+      .map((i) => i.pane),
+  )].sort((a, b) => a - b);
+
+  return new Map(
+    instances.map((i) => [
+      i.id,
+      getIndicatorDefinition(i.type).placement === "overlay" ? 0 : subPanes.indexOf(i.pane) + 1,
+    ]),
+  );
+}
+
+// --- Presets ---
+
+type PresetEntry = { type: IndicatorType; params?: Record<string, number>; color?: string; pane?: number };
+
+const SMAS: PresetEntry[] = [
+  { type: "sma", params: { period: 20 }, color: "#f59e0b" },
+  { type: "sma", params: { period: 50 }, color: "#3b82f6" },
+  { type: "sma", params: { period: 200 }, color: "#a855f7" },
+];
+const EMAS: PresetEntry[] = [
+  { type: "ema", params: { period: 12 }, color: "#06b6d4" },
+  { type: "ema", params: { period: 26 }, color: "#ec4899" },
+];
+const BOLLINGER: PresetEntry = { type: "bollinger", params: { period: 20, stdDev: 2 } };
+
+const TREND: PresetEntry[] = [
+  ...SMAS,
+  { type: "supertrend", params: { period: 10, multiplier: 3 } },
+  { type: "adx", params: { period: 14 }, pane: 1 },
+];
+const MOMENTUM: PresetEntry[] = [
+  { type: "rsi", params: { period: 14 }, pane: 1 },
+  { type: "macd", params: { fast: 12, slow: 26, signal: 9 }, pane: 2 },
+  { type: "stochastic", params: { kPeriod: 14, dPeriod: 3, smooth: 3 }, pane: 3 },
+];
+const VOLATILITY: PresetEntry[] = [
+  BOLLINGER,
+  { type: "keltner", params: { period: 20, atrPeriod: 10, multiplier: 2 } },
+  { type: "atr", params: { period: 14 }, pane: 1 },
+];
+const VOLUME: PresetEntry[] = [
+  { type: "volume", params: { maPeriod: 20 }, pane: 1 },
+  { type: "obv", pane: 2 },
+  { type: "mfi", params: { period: 14 }, pane: 3 },
+  { type: "vwap" },
+];
+
+const PRESET_ENTRIES: Record<IndicatorPreset, PresetEntry[]> = {
+  trend: TREND,
+  momentum: MOMENTUM,
+  volatility: VOLATILITY,
+  volume: VOLUME,
+  ichimoku: [{ type: "ichimoku", params: { conversion: 9, base: 26, spanB: 52, displacement: 26 } }],
+  // The classic overlay set plus RSI and MACD
+  all: [...SMAS, ...EMAS, BOLLINGER, MOMENTUM[0], MOMENTUM[1]],
+  none: [],
+};
+
+export function buildPreset(preset: IndicatorPreset): IndicatorInstance[] {
+  return PRESET_ENTRIES[preset].map(({ type, ...overrides }) => createIndicator(type, overrides));
+}
+
+/** Whether the instances are exactly the preset's indicators (ignoring colours and order) */
+export function matchesPreset(instances: IndicatorInstance[], preset: IndicatorPreset): boolean {
+  const signature = (type: IndicatorType, params?: Record<string, number>) =>
+    `${type}:${JSON.stringify(resolveParams(type, params))}`;
+  const current = instances.map((i) => signature(i.type, i.params)).sort();
+  const target = PRESET_ENTRIES[preset].map((e) => signature(e.type, e.params)).sort();
+  return current.length === target.length && current.every((s, i) => s === target[i]);
+}
+
+// --- Persistence ---
+
+const STORAGE_KEY = "chart-indicators";
+const LEGACY_STORAGE_KEY = "chart-indicator-config";  // Boolean flags per fixed indicator
+
+/** Convert the old { sma20: true, rsi: false, ... } config */
+function migrateLegacyConfig(flags: Record<string, boolean>): IndicatorInstance[] {
+  const legacy: Record<string, PresetEntry> = {
+    sma20: SMAS[0],
+    sma50: SMAS[1],
+    sma200: SMAS[2],
+    ema12: EMAS[0],
+    ema26: EMAS[1],
+    bollingerBands: BOLLINGER,
+    rsi: MOMENTUM[0],
+    macd: MOMENTUM[1],
+  };
+  return Object.entries(legacy)
+    .filter(([key]) => flags[key])
+    .map(([, { type, ...overrides }]) => createIndicator(type, overrides));
+}
+
+function isIndicatorInstance(value: unknown): value is IndicatorInstance {
+  const v = value as IndicatorInstance;
+  return !!v && typeof v.id === "string" && v.type in INDICATOR_DEFINITIONS
+    && typeof v.color === "string" && typeof v.pane === "number";
+}
+
+export function loadIndicators(): IndicatorInstance[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter(isIndicatorInstance)
+          .map((i) => ({ ...i, params: resolveParams(i.type, i.params) }));
+      }
+    }
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const migrated = migrateLegacyConfig(JSON.parse(legacy));
+      saveIndicators(migrated);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return migrated;
+    }
+  } catch { /* ignore */ }
+  return [];
+}
+
+export function saveIndicators(instances: IndicatorInstance[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(instances));
+  } catch { /* ignore */ }
+}
@@ -3,6 +3,12 @@ import type {
   IndicatorPoint,
   BollingerBandsResult,
   MACDResult,
+  ChannelResult,
+  DMIResult,
+  StochasticResult,
+  IchimokuResult,
+  VolumeProfileBin,
+  VolumeProfileResult,
 } from "./types";
 
 /**
@@ -105,19 +111,36 @@ export function calculateBollingerBands(
   const middle: IndicatorPoint[] = [];
   const lower: IndicatorPoint[] = [];
 
-  for (let i = period - 1; i < data.length; i++) {
-    let sum = 0;
-    for (let j = i - period + 1; j <= i; j++) {
-      sum += data[j].close;
+  // Running sums of deviations from a recent close keep this O(n) regardless
+  // of the period; re-anchoring every `period` bars bounds rounding drift
+  let offset = data[0].close;
+  let sum = 0;
+  let sqSum = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (i >= period - 1 && (i - period + 1) % period === 0) {
+      offset = data[i].close;
+      sum = 0;
+      sqSum = 0;
+      for (let j = i - period + 1; j <= i; j++) {
+        const d = data[j].close - offset;
+        sum += d;
+        sqSum += d * d;
+      }
+    } else {
+      const d = data[i].close - offset;
+      sum += d;
+      sqSum += d * d;
+      if (i >= period) {
+        const dropped = data[i - period].close - offset;
+        sum -= dropped;
+        sqSum -= dropped * dropped;
+      }
     }
-    const mean = sum / period;
+    if (i < period - 1) continue;
 
-    let sqSum = 0;
-    for (let j = i - period + 1; j <= i; j++) {
-      const diff = data[j].close - mean;
-      sqSum += diff * diff;
-    }
-    const sd = Math.sqrt(sqSum / period);
+    const meanDiff = sum / period;
+    const mean = offset + meanDiff;
+    const sd = Math.sqrt(Math.max(0, sqSum / period - meanDiff * meanDiff));
 
     middle.push({ time: data[i].time, value: mean });
     upper.push({ time: data[i].time, value: mean + stdDev * sd });
@@ -230,3 +253,635 @@ export function calculateMACD(
     histogram: histogramPoints,
   };
 }
+
+// --- Volatility and trend-strength indicators ---
+
+function trueRange(data: CandleData[], i: number): number {
+  const c = data[i];
+  if (i === 0) return c.high - c.low;
+  const prevClose = data[i - 1].close;
+  return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+}
+
+/**
+ * Wilder-smoothed ATR per bar index, NaN until `period` bars are available.
+ */
+function atrValues(data: CandleData[], period: number): number[] {
+  const result: number[] = new Array(data.length).fill(NaN);
+  if (data.length < period) return result;
+
+  let atr = 0;
+  for (let i = 0; i < period; i++) atr += trueRange(data, i);
+  atr /= period;
+  result[period - 1] = atr;
+
+  for (let i = period; i < data.length; i++) {
+    atr = (atr * (period - 1) + trueRange(data, i)) / period;
+    result[i] = atr;
+  }
+  return result;
+}
+
+/**
+ * Average True Range — Wilder's smoothing of the true range
+ * (the greatest of high−low, |high−prev close|, |low−prev close|).
+ */
+export function calculateATR(data: CandleData[], period: number): IndicatorPoint[] {
+  const atr = atrValues(data, period);
+  const result: IndicatorPoint[] = [];
+  for (let i = period - 1; i < data.length; i++) {
+    result.push({ time: data[i].time, value: atr[i] });
+  }
+  return result;
+}
+
+/**
+ * ADX with the Directional Movement Index (+DI / −DI), Wilder's method.
+ * DX = 100 × |+DI − −DI| / (+DI + −DI); ADX is DX smoothed over N periods.
+ */
+export function calculateADX(data: CandleData[], period: number): DMIResult {
+  const empty = { adx: [], plusDI: [], minusDI: [] };
+  if (data.length < period * 2) return empty;
+
+  const plusDI: IndicatorPoint[] = [];
+  const minusDI: IndicatorPoint[] = [];
+  const adx: IndicatorPoint[] = [];
+
+  let trSum = 0;
+  let plusSum = 0;
+  let minusSum = 0;
+  let dxSum = 0;
+  let adxValue = 0;
+
+  for (let i = 1; i < data.length; i++) {
+    const upMove = data[i].high - data[i - 1].high;
+    const downMove = data[i - 1].low - data[i].low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const tr = trueRange(data, i);
+
+    // First value is a plain sum; afterwards Wilder's running smoothing
+    if (i <= period) {
+      trSum += tr;
+      plusSum += plusDM;
+      minusSum += minusDM;
+      if (i < period) continue;
+    } else {
+      trSum = trSum - trSum / period + tr;
+      plusSum = plusSum - plusSum / period + plusDM;
+      minusSum = minusSum - minusSum / period + minusDM;
+    }
+
+    const pdi = trSum === 0 ? 0 : (100 * plusSum) / trSum;
+    const mdi = trSum === 0 ? 0 : (100 * minusSum) / trSum;
+    const dx = pdi + mdi === 0 ? 0 : (100 * Math.abs(pdi - mdi)) / (pdi + mdi);
+    plusDI.push({ time: data[i].time, value: pdi });
+    minusDI.push({ time: data[i].time, value: mdi });
+
+    // ADX starts after `period` DX values
+    const dxCount = i - period + 1;
+    if (dxCount < period) {
+      dxSum += dx;
+    } else if (dxCount === period) {
+      adxValue = (dxSum + dx) / period;
+      adx.push({ time: data[i].time, value: adxValue });
+    } else {
+      adxValue = (adxValue * (period - 1) + dx) / period;
+      adx.push({ time: data[i].time, value: adxValue });
+    }
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * Keltner Channels — EMA(emaPeriod) ± multiplier × ATR(atrPeriod)
+ */
+export function calculateKeltnerChannels(
+  data: CandleData[],
+  emaPeriod: number,
+  atrPeriod: number,
+  multiplier: number,
+): ChannelResult {
+  const ema = calculateEMA(data, emaPeriod);
+  const atr = atrValues(data, atrPeriod);
+  const upper: IndicatorPoint[] = [];
+  const middle: IndicatorPoint[] = [];
+  const lower: IndicatorPoint[] = [];
+
+  // ema[j] corresponds to data[j + emaPeriod - 1]
+  for (let j = 0; j < ema.length; j++) {
+    const a = atr[j + emaPeriod - 1];
+    if (isNaN(a)) continue;
+    const { time, value } = ema[j];
+    middle.push({ time, value });
+    upper.push({ time, value: value + multiplier * a });
+    lower.push({ time, value: value - multiplier * a });
+  }
+  return { upper, middle, lower };
+}
+
+/**
+ * Donchian Channels — highest high and lowest low over N periods, with
+ * their midpoint.
+ */
+export function calculateDonchianChannels(data: CandleData[], period: number): ChannelResult {
+  const upper: IndicatorPoint[] = [];
+  const middle: IndicatorPoint[] = [];
+  const lower: IndicatorPoint[] = [];
+
+  for (let i = period - 1; i < data.length; i++) {
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = i - period + 1; j <= i; j++) {
+      high = Math.max(high, data[j].high);
+      low = Math.min(low, data[j].low);
+    }
+    upper.push({ time: data[i].time, value: high });
+    middle.push({ time: data[i].time, value: (high + low) / 2 });
+    lower.push({ time: data[i].time, value: low });
+  }
+  return { upper, middle, lower };
+}
+
+/**
+ * Parabolic SAR (Wilder). The stop trails price and accelerates by `step`
+ * each time a new extreme is made, up to `maxStep`; it flips when price
+ * crosses it. Below the close means an uptrend, above a downtrend.
+ */
+export function calculateParabolicSAR(data: CandleData[], step: number, maxStep: number): IndicatorPoint[] {
+  if (data.length < 2) return [];
+
+  let up = data[1].close >= data[0].close;
+  let sar = up ? data[0].low : data[0].high;
+  let ep = up ? data[0].high : data[0].low;
+  let af = step;
+  const result: IndicatorPoint[] = [];
+
+  for (let i = 1; i < data.length; i++) {
+    sar += af * (ep - sar);
+    // The stop may not move inside the prior two bars' range
+    const prev2 = data[Math.max(0, i - 2)];
+    if (up) sar = Math.min(sar, data[i - 1].low, prev2.low);
+    else sar = Math.max(sar, data[i - 1].high, prev2.high);
+
+    if (up && data[i].low < sar) {
+      up = false;
+      sar = ep;
+      ep = data[i].low;
+      af = step;
+    } else if (!up && data[i].high > sar) {
+      up = true;
+      sar = ep;
+      ep = data[i].high;
+      af = step;
+    } else if (up && data[i].high > ep) {
+      ep = data[i].high;
+      af = Math.min(af + step, maxStep);
+    } else if (!up && data[i].low < ep) {
+      ep = data[i].low;
+      af = Math.min(af + step, maxStep);
+    }
+
+    result.push({ time: data[i].time, value: sar });
+  }
+  return result;
+}
+
+/**
+ * Supertrend — an ATR band around the bar midpoint that only tightens in
+ * the direction of the trend and flips side when the close crosses it.
+ * Below the close means an uptrend, above a downtrend.
+ */
+export function calculateSupertrend(data: CandleData[], period: number, multiplier: number): IndicatorPoint[] {
+  const atr = atrValues(data, period);
+  const result: IndicatorPoint[] = [];
+
+  let finalUpper = NaN;
+  let finalLower = NaN;
+  let up = true;
+
+  for (let i = period - 1; i < data.length; i++) {
+    const c = data[i];
+    const mid = (c.high + c.low) / 2;
+    const basicUpper = mid + multiplier * atr[i];
+    const basicLower = mid - multiplier * atr[i];
+
+    if (i === period - 1) {
+      finalUpper = basicUpper;
+      finalLower = basicLower;
+      up = c.close >= mid;
+    } else {
+      const prevClose = data[i - 1].close;
+      finalUpper = basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+      finalLower = basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+      up = up ? c.close >= finalLower : c.close > finalUpper;
+    }
+
+    result.push({ time: c.time, value: up ? finalLower : finalUpper });
+  }
+  return result;
+}
+
+// --- Oscillators ---
+
+/**
+ * Simple moving average of an indicator series
+ */
+function smoothPoints(points: IndicatorPoint[], period: number): IndicatorPoint[] {
+  if (period <= 1) return points;
+  const result: IndicatorPoint[] = [];
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    sum += points[i].value;
+    if (i >= period) sum -= points[i - period].value;
+    if (i >= period - 1) result.push({ time: points[i].time, value: sum / period });
+  }
+  return result;
+}
+
+function highestHigh(data: CandleData[], end: number, period: number): number {
+  let high = -Infinity;
+  for (let j = end - period + 1; j <= end; j++) high = Math.max(high, data[j].high);
+  return high;
+}
+
+function lowestLow(data: CandleData[], end: number, period: number): number {
+  let low = Infinity;
+  for (let j = end - period + 1; j <= end; j++) low = Math.min(low, data[j].low);
+  return low;
+}
+
+/**
+ * Stochastic Oscillator — %K = 100 × (close − LL) / (HH − LL) over N periods,
+ * smoothed over `smooth` bars (1 = fast stochastic); %D = SMA of %K.
+ */
+export function calculateStochastic(
+  data: CandleData[],
+  kPeriod: number,
+  dPeriod: number,
+  smooth: number,
+): StochasticResult {
+  const raw: IndicatorPoint[] = [];
+  for (let i = kPeriod - 1; i < data.length; i++) {
+    const high = highestHigh(data, i, kPeriod);
+    const low = lowestLow(data, i, kPeriod);
+    const value = high === low ? 50 : (100 * (data[i].close - low)) / (high - low);
+    raw.push({ time: data[i].time, value });
+  }
+  const k = smoothPoints(raw, smooth);
+  return { k, d: smoothPoints(k, dPeriod) };
+}
+
+/**
+ * Stochastic RSI — the stochastic formula applied to RSI values instead of
+ * price, then smoothed into %K and %D.
+ */
+export function calculateStochRSI(
+  data: CandleData[],
+  rsiPeriod: number,
+  stochPeriod: number,
+  kSmooth: number,
+  dSmooth: number,
+): StochasticResult {
+  const rsi = calculateRSI(data, rsiPeriod);
+  const raw: IndicatorPoint[] = [];
+  for (let i = stochPeriod - 1; i < rsi.length; i++) {
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = i - stochPeriod + 1; j <= i; j++) {
+      high = Math.max(high, rsi[j].value);
+      low = Math.min(low, rsi[j].value);
+    }
+    const value = high === low ? 50 : (100 * (rsi[i].value - low)) / (high - low);
+    raw.push({ time: rsi[i].time, value });
+  }
+  const k = smoothPoints(raw, kSmooth);
+  return { k, d: smoothPoints(k, dSmooth) };
+}
+
+/**
+ * Williams %R — −100 × (HH − close) / (HH − LL) over N periods (0 to −100)
+ */
+export function calculateWilliamsR(data: CandleData[], period: number): IndicatorPoint[] {
+  const result: IndicatorPoint[] = [];
+  for (let i = period - 1; i < data.length; i++) {
+    const high = highestHigh(data, i, period);
+    const low = lowestLow(data, i, period);
+    const value = high === low ? -50 : (-100 * (high - data[i].close)) / (high - low);
+    result.push({ time: data[i].time, value });
+  }
+  return result;
+}
+
+/**
+ * Commodity Channel Index — (TP − SMA(TP)) / (0.015 × mean deviation),
+ * where TP is the typical price (H + L + C) / 3.
+ */
+export function calculateCCI(data: CandleData[], period: number): IndicatorPoint[] {
+  const tp = data.map(typicalPrice);
+  const result: IndicatorPoint[] = [];
+  for (let i = period - 1; i < data.length; i++) {
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += tp[j];
+    const mean = sum / period;
+
+    let dev = 0;
+    for (let j = i - period + 1; j <= i; j++) dev += Math.abs(tp[j] - mean);
+    dev /= period;
+
+    result.push({ time: data[i].time, value: dev === 0 ? 0 : (tp[i] - mean) / (0.015 * dev) });
+  }
+  return result;
+}
+
+/**
+ * Rate of Change — percent change of the close over N periods
+ */
+export function calculateROC(data: CandleData[], period: number): IndicatorPoint[] {
+  const result: IndicatorPoint[] = [];
+  for (let i = period; i < data.length; i++) {
+    const prev = data[i - period].close;
+    if (prev === 0) continue;
+    result.push({ time: data[i].time, value: (100 * (data[i].close - prev)) / prev });
+  }
+  return result;
+}
+
+/**
+ * Times for `count` bars after the last one, at the data's usual spacing.
+ * Daily bars skip weekends; string dates stay "YYYY-MM-DD".
+ */
+function projectTimes(data: CandleData[], count: number): (string | number)[] {
+  const step = medianSpacing(data);
+  if (data.length === 0 || step <= 0) return [];
+
+  const last = data[data.length - 1].time;
+  const skipWeekends = step === 86400;
+  const times: (string | number)[] = [];
+  let t = timeToSeconds(last);
+  while (times.length < count) {
+    t += step;
+    const day = new Date(t * 1000).getUTCDay();
+    if (skipWeekends && (day === 0 || day === 6)) continue;
+    times.push(typeof last === "string" ? new Date(t * 1000).toISOString().slice(0, 10) : t);
+  }
+  return times;
+}
+
+/**
+ * Ichimoku Kinko Hyo — conversion (Tenkan) and base (Kijun) lines are the
+ * midpoints of the high/low range over their periods; leading span A is
+ * their average and span B the midpoint over `spanBPeriod`, both plotted
+ * `displacement` bars ahead. The lagging span (Chikou) is the close plotted
+ * `displacement` bars back.
+ */
+export function calculateIchimoku(
+  data: CandleData[],
+  conversionPeriod: number,
+  basePeriod: number,
+  spanBPeriod: number,
+  displacement: number,
+): IchimokuResult {
+  const midpoint = (i: number, period: number) =>
+    i >= period - 1 ? (highestHigh(data, i, period) + lowestLow(data, i, period)) / 2 : NaN;
+  const times = [...data.map((c) => c.time), ...projectTimes(data, displacement)];
+
+  const result: IchimokuResult = { conversion: [], base: [], spanA: [], spanB: [], lagging: [] };
+  for (let i = 0; i < data.length; i++) {
+    const conversion = midpoint(i, conversionPeriod);
+    const base = midpoint(i, basePeriod);
+    const spanB = midpoint(i, spanBPeriod);
+    const ahead = times[i + displacement];
+
+    if (!isNaN(conversion)) result.conversion.push({ time: data[i].time, value: conversion });
+    if (!isNaN(base)) result.base.push({ time: data[i].time, value: base });
+    if (ahead !== undefined && !isNaN(conversion) && !isNaN(base)) {
+      result.spanA.push({ time: ahead, value: (conversion + base) / 2 });
+    }
+    if (ahead !== undefined && !isNaN(spanB)) result.spanB.push({ time: ahead, value: spanB });
+    if (i >= displacement) result.lagging.push({ time: data[i - displacement].time, value: data[i].close });
+  }
+  return result;
+}
+
+// --- Volume-based indicators ---
+
+/**
+ * Bar time in epoch seconds (daily bars use "YYYY-MM-DD" strings)
+ */
+export function timeToSeconds(time: string | number): number {
+  return typeof time === "number" ? time : Date.parse(`${time}T00:00:00Z`) / 1000;
+}
+
+/**
+ * Typical seconds between bars
+ */
+export function medianSpacing(data: CandleData[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < data.length; i++) {
+    gaps.push(timeToSeconds(data[i].time) - timeToSeconds(data[i - 1].time));
+  }
+  gaps.sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+/**
+ * Whether the bars are shorter than a day (5m, 15m, 1h)
+ */
+export function isIntraday(data: CandleData[]): boolean {
+  const spacing = medianSpacing(data);
+  return spacing > 0 && spacing < 86400;
+}
+
+function typicalPrice(c: CandleData): number {
+  return (c.high + c.low + c.close) / 3;
+}
+
+/**
+ * Simple moving average of volume over N periods.
+ */
+export function calculateVolumeSMA(data: CandleData[], period: number): IndicatorPoint[] {
+  if (data.length < period) return [];
+
+  const result: IndicatorPoint[] = [];
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i].volume ?? 0;
+    if (i >= period) sum -= data[i - period].volume ?? 0;
+    if (i >= period - 1) result.push({ time: data[i].time, value: sum / period });
+  }
+  return result;
+}
+
+/**
+ * On-Balance Volume — running total that adds volume on up closes and
+ * subtracts it on down closes.
+ */
+export function calculateOBV(data: CandleData[]): IndicatorPoint[] {
+  if (data.length === 0) return [];
+
+  const result: IndicatorPoint[] = [{ time: data[0].time, value: 0 }];
+  let obv = 0;
+  for (let i = 1; i < data.length; i++) {
+    const volume = data[i].volume ?? 0;
+    if (data[i].close > data[i - 1].close) obv += volume;
+    else if (data[i].close < data[i - 1].close) obv -= volume;
+    result.push({ time: data[i].time, value: obv });
+  }
+  return result;
+}
+
+/**
+ * Volume-weighted average price from `start` onwards:
+ * Σ(typical price × volume) / Σ volume
+ */
+function cumulativeVWAP(data: CandleData[], start: number, end = data.length): IndicatorPoint[] {
+  const result: IndicatorPoint[] = [];
+  let pv = 0;
+  let volume = 0;
+  for (let i = start; i < end; i++) {
+    const v = data[i].volume ?? 0;
+    pv += typicalPrice(data[i]) * v;
+    volume += v;
+    if (volume > 0) result.push({ time: data[i].time, value: pv / volume });
+  }
+  return result;
+}
+
+/**
+ * Session VWAP for intraday bars, reset at each session open. Sessions are
+ * split at overnight gaps (more than 3× the usual bar spacing); markets that
+ * trade around the clock reset at midnight UTC instead. Empty for daily and
+ * longer bars, where a one-bar session VWAP is meaningless.
+ */
+export function calculateVWAP(data: CandleData[]): IndicatorPoint[] {
+  if (!isIntraday(data)) return [];
+
+  const spacing = medianSpacing(data);
+  const times = data.map((c) => timeToSeconds(c.time));
+  let starts = [0];
+  for (let i = 1; i < data.length; i++) {
+    if (times[i] - times[i - 1] > spacing * 3) starts.push(i);
+  }
+  if (starts.length === 1) {
+    starts = [0];
+    for (let i = 1; i < data.length; i++) {
+      if (Math.floor(times[i] / 86400) !== Math.floor(times[i - 1] / 86400)) starts.push(i);
+    }
+  }
+
+  const result: IndicatorPoint[] = [];
+  for (let s = 0; s < starts.length; s++) {
+    result.push(...cumulativeVWAP(data, starts[s], starts[s + 1] ?? data.length));
+  }
+  return result;
+}
+
+/**
+ * VWAP anchored at the first bar at or after `anchorTime` (epoch seconds).
+ */
+export function calculateAnchoredVWAP(data: CandleData[], anchorTime: number): IndicatorPoint[] {
+  const start = data.findIndex((c) => timeToSeconds(c.time) >= anchorTime);
+  return start === -1 ? [] : cumulativeVWAP(data, start);
+}
+
+/**
+ * Money Flow Index — volume-weighted RSI of the typical price.
+ * MFI = 100 - 100 / (1 + positive flow / negative flow) over N periods
+ */
+export function calculateMFI(data: CandleData[], period: number): IndicatorPoint[] {
+  if (data.length < period + 1) return [];
+
+  const positive: number[] = [];
+  const negative: number[] = [];
+  for (let i = 1; i < data.length; i++) {
+    const tp = typicalPrice(data[i]);
+    const prev = typicalPrice(data[i - 1]);
+    const flow = tp * (data[i].volume ?? 0);
+    positive.push(tp > prev ? flow : 0);
+    negative.push(tp < prev ? flow : 0);
+  }
+
+  const result: IndicatorPoint[] = [];
+  let pos = 0;
+  let neg = 0;
+  for (let i = 0; i < positive.length; i++) {
+    pos += positive[i];
+    neg += negative[i];
+    if (i >= period) {
+      pos -= positive[i - period];
+      neg -= negative[i - period];
+    }
+    if (i >= period - 1) {
+      const mfi = neg === 0 ? 100 : 100 - 100 / (1 + pos / neg);
+      result.push({ time: data[i + 1].time, value: mfi });
+    }
+  }
+  return result;
+}
+
+/**
+ * Volume-by-price profile: each bar's volume is spread evenly over the
+ * price bins its high-low range touches. The point of control (POC) is the
+ * busiest bin; the value area is the range around it holding `valueAreaPct`
+ * of all volume.
+ */
+export function calculateVolumeProfile(
+  data: CandleData[],
+  binCount: number,
+  valueAreaPct = 0.7,
+): VolumeProfileResult | null {
+  if (data.length === 0 || binCount < 1) return null;
+
+  let low = Infinity;
+  let high = -Infinity;
+  for (const c of data) {
+    low = Math.min(low, c.low);
+    high = Math.max(high, c.high);
+  }
+  if (!(high > low)) return null;
+
+  const size = (high - low) / binCount;
+  const bins: VolumeProfileBin[] = Array.from({ length: binCount }, (_, i) => ({
+    low: low + i * size,
+    high: low + (i + 1) * size,
+    volume: 0,
+    upVolume: 0,
+  }));
+
+  for (const c of data) {
+    const volume = c.volume ?? 0;
+    if (volume === 0) continue;
+    const first = Math.min(binCount - 1, Math.floor((c.low - low) / size));
+    const last = Math.min(binCount - 1, Math.floor((c.high - low) / size));
+    const share = volume / (last - first + 1);
+    for (let b = first; b <= last; b++) {
+      bins[b].volume += share;
+      if (c.close >= c.open) bins[b].upVolume += share;
+    }
+  }
+
+  const total = bins.reduce((sum, b) => sum + b.volume, 0);
+  if (total === 0) return null;
+
+  const pocIndex = bins.reduce((best, b, i) => (b.volume > bins[best].volume ? i : best), 0);
+
+  // Grow the value area from the POC towards the busier neighbour
+  let lo = pocIndex;
+  let hi = pocIndex;
+  let covered = bins[pocIndex].volume;
+  while (covered < total * valueAreaPct && (lo > 0 || hi < binCount - 1)) {
+    const below = lo > 0 ? bins[lo - 1].volume : -1;
+    const above = hi < binCount - 1 ? bins[hi + 1].volume : -1;
+    if (above >= below) covered += bins[++hi].volume;
+    else covered += bins[--lo].volume;
+  }
+
+  return {
+    bins,
+    poc: (bins[pocIndex].low + bins[pocIndex].high) / 2,
+    valueAreaLow: bins[lo].low,
+    valueAreaHigh: bins[hi].high,
+  };
+}
@@ -0,0 +1,57 @@
+import { requiresApiKey, type ModelConfig, type Provider } from './models';
+
+/**
+ * Server-side Key Vault (client view)
+ *
+ * When the server runs in key vault mode, provider and FMP keys live in its
+ * environment or encrypted key store. The client never sees them: it only
+ * learns which providers are available and sends requests without keys.
+ */
+
+export interface KeyVaultStatus {
+  enabled: boolean;
+  providers: Record<Provider, boolean>;  // Whether the server holds a key for each provider
+  fmp: boolean;
+  customBaseUrl: boolean;  // Whether the server pins the custom provider's base URL
+  error?: string;  // Key store could not be read
+}
+
+export const KEY_VAULT_DISABLED: KeyVaultStatus = {
+  enabled: false,
+  providers: { gemini: false, openai: false, anthropic: false, openrouter: false, custom: false },
+  fmp: false,
+  customBaseUrl: false,
+};
+
+// Last status fetched, for non-React callers such as the fallback resolver
+let lastStatus: KeyVaultStatus = KEY_VAULT_DISABLED;
+
+export async function fetchKeyVaultStatus(): Promise<KeyVaultStatus> {
+  const response = await fetch('/api/key-vault');
+  if (!response.ok) {
+    throw new Error(`Failed to load key vault status (${response.status})`);
+  }
+  lastStatus = await response.json();
+  return lastStatus;
+}
+
+export function getKeyVaultStatus(): KeyVaultStatus {
+  return lastStatus;
+}
+
+/**
+ * Whether a model can be called: with a user key, without one (self-hosted),
+ * or through a key held by the server vault.
+ */
+export function hasCredentials(
+  model: ModelConfig,
+  apiKey: string,
+  vault: KeyVaultStatus = lastStatus,
+): boolean {
+  if (vault.enabled) {
+    // The server decides where custom-model calls go
+    if (model.provider === 'custom') return vault.customBaseUrl;
+    return vault.providers[model.provider];
+  }
+  return !!apiKey || !requiresApiKey(model.provider);
+}
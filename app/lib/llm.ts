@@ -1,25 +1,78 @@
-import type { ModelConfig } from './models';
-import type { ChatMessage } from './types';
+import { supportsTools, supportsVision, type ModelConfig } from './models';
+import type {
+  AnalystId,
+  ChatMessage,
+  FinishReason,
+  StructuredSignals,
+  TokenUsage,
+  ToolCallRecord,
+} from './types';
+import { readEvents } from './streamProtocol';
+import { IMAGE_INPUT_TOKENS, calculateCost, countTokens } from './tokenEstimator';
+import { recordSpend } from './spendLedger';
+import { loadReliabilitySettings, resolveFallbackTargets } from './reliability';
 
-const ERROR_PREFIX = '__ERROR__:';
+export interface AnalyzeOptions {
+  /** Ask the provider for a validated signals block alongside the prose */
+  structured?: boolean;
+  /** What the call was for, recorded in the spend ledger */
+  context?: { symbol?: string; analystId?: AnalystId };
+  /** Cancels the request; the route aborts the upstream provider call in turn */
+  signal?: AbortSignal;
+  /** Let the model fetch more candles, indicators or fundamentals mid-analysis */
+  tools?: boolean;
+  /** Called as each data tool finishes */
+  onToolCall?: (call: ToolCallRecord) => void;
+}
+
+export interface AnalyzeResult {
+  signals: StructuredSignals | null;
+  usage: TokenUsage | null;  // Provider-reported, when the provider sends it
+  servedBy: ModelConfig;  // The requested model, or the fallback that answered instead
+  finishReason: FinishReason;
+  toolCalls: ToolCallRecord[];
+}
+
+/** Whether an error came from cancelling an analysis via its AbortSignal */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
 
 export async function analyzeChart(
   model: ModelConfig,
   apiKey: string,
   systemPrompt: string,
   messages: ChatMessage[],
-  onChunk: (text: string) => void
-): Promise<void> {
+  onChunk: (text: string) => void,
+  options: AnalyzeOptions = {}
+): Promise<AnalyzeResult> {
+  const reliability = loadReliabilitySettings();
+  const fallbacks = resolveFallbackTargets(model, reliability);
+
   const response = await fetch('/api/analyze', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       provider: model.provider,
       model: model.modelId,
+      baseUrl: model.baseUrl,
       apiKey,
       systemPrompt,
       messages,
+      structured: options.structured ?? false,
+      tools: (options.tools ?? false) && supportsTools(model),
+      vision: supportsVision(model),
+      retry: { maxRetries: reliability.maxRetries, baseDelayMs: reliability.baseDelayMs },
+      fallbacks: fallbacks.map((f) => ({
+        provider: f.model.provider,
+        model: f.model.modelId,
+        baseUrl: f.model.baseUrl,
+        apiKey: f.apiKey,
+        tools: supportsTools(f.model),
+        vision: supportsVision(f.model),
+      })),
     }),
+    signal: options.signal,
   });
 
   // Non-streaming error (bad request, missing fields, etc.)
@@ -32,32 +85,105 @@ export async function analyzeChart(
     throw new Error('No response body');
   }
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let accumulated = '';
+  let text = '';
+  let signals: StructuredSignals | null = null;
+  let usage: TokenUsage | null = null;
+  let servedBy = model;
+  let finishReason: FinishReason | null = null;
+  let streamError: string | null = null;
+  const toolCalls: ToolCallRecord[] = [];
 
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    const chunk = decoder.decode(value, { stream: true });
-    accumulated += chunk;
-
-    // Check if the stream started with an error sentinel
-    if (accumulated.startsWith(ERROR_PREFIX)) {
-      // Wait for stream to finish so we get the full error message
-      continue;
+  try {
+    for await (const event of readEvents(response.body)) {
+      switch (event.type) {
+        case 'text':
+          text += event.text;
+          onChunk(event.text);
+          break;
+        case 'model': {
+          const fallback = fallbacks.find(
+            (f) => f.model.provider === event.provider && f.model.modelId === event.model
+          );
+          if (fallback) servedBy = fallback.model;
+          break;
+        }
+        case 'usage':
+          usage = event.usage;
+          break;
+        case 'signals':
+          signals = event.signals;
+          break;
+        case 'tool': {
+          const call = { name: event.name, args: event.args, ok: event.ok };
+          toolCalls.push(call);
+          options.onToolCall?.(call);
+          break;
+        }
+        case 'finish':
+          finishReason = event.reason;
+          break;
+        case 'error':
+          streamError = event.message;
+          break;
+      }
+    }
+  } catch (err) {
+    // Cancelled mid-stream: the provider still billed the partial response
+    if (isAbortError(err) && text) {
+      recordEstimatedSpend(servedBy, systemPrompt, messages, text, options);
     }
+    throw err;
+  }
 
-    onChunk(chunk);
+  // Record the call against the model that answered; count tokens locally if the provider reported none
+  if (usage) {
+    recordUsage(servedBy, usage, false, options);
+  } else if (text) {
+    recordEstimatedSpend(servedBy, systemPrompt, messages, text, options);
   }
 
-  // After stream ends, check if the entire response was an error
-  if (accumulated.startsWith(ERROR_PREFIX)) {
-    throw new Error(accumulated.slice(ERROR_PREFIX.length));
+  if (streamError) {
+    throw new Error(streamError);
   }
 
-  if (!accumulated) {
+  if (!finishReason) {
+    throw new Error('Analysis stream ended unexpectedly.');
+  }
+
+  if (!text) {
     throw new Error('No analysis generated.');
   }
+
+  return { signals, usage, servedBy, finishReason, toolCalls };
+}
+
+function recordUsage(model: ModelConfig, usage: TokenUsage, estimated: boolean, options: AnalyzeOptions) {
+  recordSpend({
+    provider: model.provider,
+    modelId: model.modelId,
+    modelName: model.name,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cost: calculateCost(model, usage),
+    estimated,
+    symbol: options.context?.symbol,
+    analystId: options.context?.analystId,
+  });
+}
+
+function recordEstimatedSpend(
+  model: ModelConfig,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  responseText: string,
+  options: AnalyzeOptions
+) {
+  const usage = {
+    inputTokens: countTokens(systemPrompt) + messages.reduce(
+      (sum, m) => sum + countTokens(m.content) + (supportsVision(model) ? (m.images?.length ?? 0) * IMAGE_INPUT_TOKENS : 0),
+      0
+    ),
+    outputTokens: countTokens(responseText),
+  };
+  recordUsage(model, usage, true, options);
 }
@@ -1,27 +1,43 @@
-export type Provider = 'gemini' | 'openai' | 'anthropic' | 'openrouter';
+export type Provider = 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'custom';
+
+/** USD per 1M tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
 
 export interface ModelConfig {
   id: string;
   name: string;
   provider: Provider;
   modelId: string;
+  pricing: ModelPricing;
+  contextWindow: number;  // Input + output tokens the model accepts
+  baseUrl?: string;  // OpenAI-compatible endpoint, custom provider only
+  tools?: false;  // Model does not support function calling
+  vision?: true;  // Model accepts images in user messages
 }
 
+// Pricing reflects list prices at time of writing (OpenRouter passes through provider pricing)
 export const MODELS: ModelConfig[] = [
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'gemini', modelId: 'gemini-2.5-flash' },
-  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'gemini', modelId: 'gemini-2.5-pro' },
-  { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai', modelId: 'gpt-4o' },
-  { id: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openai', modelId: 'gpt-4o-mini' },
-  { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'anthropic', modelId: 'claude-sonnet-4-20250514' },
-  { id: 'or-gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'openrouter', modelId: 'google/gemini-2.5-flash' },
-  { id: 'or-gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'openrouter', modelId: 'google/gemini-2.5-pro' },
-  { id: 'or-claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'openrouter', modelId: 'anthropic/claude-sonnet-4' },
-  { id: 'or-claude-sonnet-4.5', name: 'Claude Sonnet 4.5', provider: 'openrouter', modelId: 'anthropic/claude-sonnet-4.5' },
-  { id: 'or-gpt-4o', name: 'GPT-4o', provider: 'openrouter', modelId: 'openai/gpt-4o' },
-  { id: 'or-gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openrouter', modelId: 'openai/gpt-4o-mini' },
-  { id: 'or-deepseek-r1', name: 'DeepSeek R1', provider: 'openrouter', modelId: 'deepseek/deepseek-r1' },
-  { id: 'or-deepseek-v3.2', name: 'DeepSeek V3.2', provider: 'openrouter', modelId: 'deepseek/deepseek-v3.2' },
-  { id: 'or-llama-4-maverick', name: 'Llama 4 Maverick', provider: 'openrouter', modelId: 'meta-llama/llama-4-maverick' },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'gemini', modelId: 'gemini-2.5-flash', pricing: { input: 0.3, output: 2.5 }, contextWindow: 1_048_576, vision: true },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'gemini', modelId: 'gemini-2.5-pro', pricing: { input: 1.25, output: 10 }, contextWindow: 1_048_576, vision: true },
+  { id: 'gpt-4o', name: 'GPT-4o', provider: 'openai', modelId: 'gpt-4o', pricing: { input: 2.5, output: 10 }, contextWindow: 128_000, vision: true },
+  { id: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openai', modelId: 'gpt-4o-mini', pricing: { input: 0.15, output: 0.6 }, contextWindow: 128_000, vision: true },
+  { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'anthropic', modelId: 'claude-sonnet-4-20250514', pricing: { input: 3, output: 15 }, contextWindow: 200_000, vision: true },
+  { id: 'or-gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'openrouter', modelId: 'google/gemini-2.5-flash', pricing: { input: 0.3, output: 2.5 }, contextWindow: 1_048_576, vision: true },
+  { id: 'or-gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'openrouter', modelId: 'google/gemini-2.5-pro', pricing: { input: 1.25, output: 10 }, contextWindow: 1_048_576, vision: true },
+  { id: 'or-claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'openrouter', modelId: 'anthropic/claude-sonnet-4', pricing: { input: 3, output: 15 }, contextWindow: 200_000, vision: true },
+  { id: 'or-claude-sonnet-4.5', name: 'Claude Sonnet 4.5', provider: 'openrouter', modelId: 'anthropic/claude-sonnet-4.5', pricing: { input: 3, output: 15 }, contextWindow: 200_000, vision: true },
+  { id: 'or-gpt-4o', name: 'GPT-4o', provider: 'openrouter', modelId: 'openai/gpt-4o', pricing: { input: 2.5, output: 10 }, contextWindow: 128_000, vision: true },
+  { id: 'or-gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openrouter', modelId: 'openai/gpt-4o-mini', pricing: { input: 0.15, output: 0.6 }, contextWindow: 128_000, vision: true },
+  { id: 'or-deepseek-r1', name: 'DeepSeek R1', provider: 'openrouter', modelId: 'deepseek/deepseek-r1', pricing: { input: 0.4, output: 2 }, contextWindow: 163_840, tools: false },
+  { id: 'or-deepseek-v3.2', name: 'DeepSeek V3.2', provider: 'openrouter', modelId: 'deepseek/deepseek-v3.2', pricing: { input: 0.27, output: 0.4 }, contextWindow: 163_840 },
+  { id: 'or-llama-4-maverick', name: 'Llama 4 Maverick', provider: 'openrouter', modelId: 'meta-llama/llama-4-maverick', pricing: { input: 0.15, output: 0.6 }, contextWindow: 1_048_576, vision: true },
+  // Model id and base URL are user-configured (Ollama, llama.cpp server, vLLM, ...)
+  // Tool support varies by server and model, so it stays off; the context window assumes a
+  // modest local setup
+  { id: 'custom', name: 'Custom / Self-hosted', provider: 'custom', modelId: '', pricing: { input: 0, output: 0 }, contextWindow: 16_384, tools: false },
 ];
 
 export const PROVIDERS: Record<Provider, { name: string; placeholder: string; url: string }> = {
@@ -29,8 +45,13 @@ export const PROVIDERS: Record<Provider, { name: string; placeholder: string; ur
   openai: { name: 'OpenAI', placeholder: 'Enter OpenAI API key', url: 'platform.openai.com' },
   anthropic: { name: 'Anthropic', placeholder: 'Enter Anthropic API key', url: 'console.anthropic.com' },
   openrouter: { name: 'OpenRouter', placeholder: 'Enter OpenRouter API key', url: 'openrouter.ai/keys' },
+  custom: { name: 'Custom / Self-hosted', placeholder: 'API key (optional)', url: 'your OpenAI-compatible server' },
 };
 
+export const CUSTOM_BASE_URL_STORAGE_KEY = 'llm-custom-base-url';
+export const CUSTOM_MODEL_ID_STORAGE_KEY = 'llm-custom-model-id';
+export const DEFAULT_CUSTOM_BASE_URL = 'http://localhost:11434/v1';
+
 export const DEFAULT_MODEL_ID = 'gemini-2.5-flash';
 
 export function getModel(id: string): ModelConfig {
@@ -40,3 +61,35 @@ export function getModel(id: string): ModelConfig {
 export function getStorageKey(provider: Provider): string {
   return `llm-api-key-${provider}`;
 }
+
+/** Self-hosted servers usually run without authentication */
+export function requiresApiKey(provider: Provider): boolean {
+  return provider !== 'custom';
+}
+
+/** Build the effective config for the custom provider from user settings */
+export function buildCustomModel(baseUrl: string, modelId: string): ModelConfig {
+  const template = getModel('custom');
+  return {
+    ...template,
+    name: modelId ? `${modelId} (self-hosted)` : template.name,
+    modelId,
+    baseUrl,
+  };
+}
+
+/** Whether a model can call the analysts' data tools */
+export function supportsTools(model: ModelConfig): boolean {
+  return model.tools !== false;
+}
+
+/** Whether a model can read a chart image */
+export function supportsVision(model: ModelConfig): boolean {
+  return model.vision === true;
+}
+
+/** Whether a model has everything it needs besides an API key */
+export function isModelConfigured(model: ModelConfig): boolean {
+  if (model.provider === 'custom') return !!model.modelId && !!model.baseUrl;
+  return true;
+}
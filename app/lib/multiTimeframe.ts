@@ -0,0 +1,113 @@
+import type { CandleData, Interval, Timeframe } from "./types";
+import { getIndicatorResult, resultLine } from "./indicatorEngine";
+
+/**
+ * Multi-Timeframe Bundle
+ *
+ * The same symbol on several intervals (e.g. weekly, daily and hourly), each
+ * loaded over a range long enough for its indicators, and reduced to a few
+ * readings per timeframe so analysts can judge whether the trends align.
+ */
+
+export const BUNDLE_INTERVALS: Interval[] = ["1mo", "1wk", "1d", "1h", "15m", "5m"];
+
+// Range loaded for each interval: enough bars for a 50-period average, within the data provider's intraday limits
+export const BUNDLE_RANGES: Record<Interval, Timeframe> = {
+  "1mo": "10y",
+  "1wk": "5y",
+  "1d": "1y",
+  "1h": "3mo",
+  "15m": "1mo",
+  "5m": "5d",
+};
+
+export const INTERVAL_LABELS: Record<Interval, string> = {
+  "1mo": "Monthly",
+  "1wk": "Weekly",
+  "1d": "Daily",
+  "1h": "1 hour",
+  "15m": "15 min",
+  "5m": "5 min",
+};
+
+const STORAGE_KEY = "mtf-bundle";
+const DEFAULT_BUNDLE: Interval[] = [];
+
+export function loadBundleIntervals(): Interval[] {
+  if (typeof window === "undefined") return DEFAULT_BUNDLE;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (Array.isArray(parsed)) return BUNDLE_INTERVALS.filter((i) => parsed.includes(i));
+    }
+  } catch { /* ignore */ }
+  return DEFAULT_BUNDLE;
+}
+
+export function saveBundleIntervals(intervals: Interval[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(intervals));
+  } catch { /* ignore */ }
+}
+
+export type TimeframeTrend = "up" | "down" | "mixed";
+
+export interface TimeframeReading {
+  bars: number;
+  close: number;
+  changePct: number;  // Over the loaded range
+  trend: TimeframeTrend;
+  sma20: number | null;
+  sma50: number | null;
+  rsi: number | null;
+  macdHistogram: number | null;
+  adx: number | null;
+  atrPct: number | null;
+  rangePosition: number;  // Close within the range's low–high, 0–100
+}
+
+/**
+ * Key readings on the last bar of one timeframe. The trend is "up" when
+ * the close is above a rising 20-period average that is above the 50-period
+ * one (or above a rising 20 alone when there are too few bars for the 50),
+ * "down" for the mirror image, and "mixed" otherwise.
+ */
+export function summarizeTimeframe(data: CandleData[]): TimeframeReading | null {
+  if (data.length < 21) return null;
+
+  const last = data[data.length - 1];
+  const sma20Points = resultLine(getIndicatorResult(data, "sma", { period: 20 }), "sma");
+  const sma20 = sma20Points.at(-1)?.value ?? null;
+  const sma20Prev = sma20Points.at(-6)?.value ?? null;
+  const sma50 = resultLine(getIndicatorResult(data, "sma", { period: 50 }), "sma").at(-1)?.value ?? null;
+  const rsi = resultLine(getIndicatorResult(data, "rsi", { period: 14 }), "rsi").at(-1)?.value ?? null;
+  const macdHistogram = resultLine(getIndicatorResult(data, "macd"), "histogram").at(-1)?.value ?? null;
+  const adx = resultLine(getIndicatorResult(data, "adx", { period: 14 }), "adx").at(-1)?.value ?? null;
+  const atr = resultLine(getIndicatorResult(data, "atr", { period: 14 }), "atr").at(-1)?.value ?? null;
+
+  let trend: TimeframeTrend = "mixed";
+  if (sma20 !== null && sma20Prev !== null) {
+    const rising = sma20 > sma20Prev;
+    const up = last.close > sma20 && rising && (sma50 === null || sma20 > sma50);
+    const down = last.close < sma20 && !rising && (sma50 === null || sma20 < sma50);
+    trend = up ? "up" : down ? "down" : "mixed";
+  }
+
+  const high = Math.max(...data.map((c) => c.high));
+  const low = Math.min(...data.map((c) => c.low));
+
+  return {
+    bars: data.length,
+    close: last.close,
+    changePct: (last.close / data[0].close - 1) * 100,
+    trend,
+    sma20,
+    sma50,
+    rsi,
+    macdHistogram,
+    adx,
+    atrPct: atr !== null ? (atr / last.close) * 100 : null,
+    rangePosition: high > low ? ((last.close - low) / (high - low)) * 100 : 50,
+  };
+}
@@ -0,0 +1,364 @@
+import type { AnalystId, AnalystRun, CandleData, ExtractedSignals, Interval, Timeframe } from "./types";
+import { timeToSeconds } from "./indicators";
+
+/**
+ * Paper Trading
+ *
+ * A local, long-only practice account. Orders fill against /api/stock
+ * candles that start after the order was placed, so nothing fills on a price
+ * seen before the order existed: market orders at the next bar's open,
+ * limits and stops on the first bar that trades through their price (at the
+ * open when it gaps past). Positions are kept at average cost. An order can
+ * carry the analyst run that motivated it, and the P&L of linked buys is
+ * attributed to each analyst's call for later review.
+ */
+
+export type PaperOrderSide = "buy" | "sell";
+export type PaperOrderType = "market" | "limit" | "stop";
+export type PaperOrderStatus = "open" | "filled" | "cancelled" | "rejected";
+
+/** The analyst run behind an order, as it stood when the order was placed */
+export interface PaperTradeLink extends AnalystRun {
+  calls: { analystId: AnalystId; sentiment: ExtractedSignals["sentiment"]; confidence: number }[];
+}
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  quantity: number;
+  price: number | null;  // Limit or stop price
+  status: PaperOrderStatus;
+  createdAt: number;  // Unix seconds
+  filledAt?: number;  // Start of the bar it filled on
+  fillPrice?: number;
+  rejectReason?: string;
+  link?: PaperTradeLink;
+}
+
+export interface PaperFill {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: PaperOrderSide;
+  quantity: number;
+  price: number;
+  time: number;  // Unix seconds
+  realizedPnl: number;  // Sells only, against the average cost
+}
+
+export interface PaperAccount {
+  startingCash: number;
+  cash: number;
+  orders: PaperOrder[];
+  fills: PaperFill[];
+}
+
+export const DEFAULT_STARTING_CASH = 100_000;
+
+export const PAPER_ORDER_TYPES: Record<PaperOrderType, string> = {
+  market: "Market",
+  limit: "Limit",
+  stop: "Stop",
+};
+
+const STORAGE_KEY = "paper-account";
+
+export function createPaperAccount(startingCash = DEFAULT_STARTING_CASH): PaperAccount {
+  return { startingCash, cash: startingCash, orders: [], fills: [] };
+}
+
+export function loadPaperAccount(): PaperAccount {
+  if (typeof window === "undefined") return createPaperAccount();
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as PaperAccount;
+      if (Number.isFinite(parsed.cash) && Array.isArray(parsed.orders) && Array.isArray(parsed.fills)) return parsed;
+    }
+  } catch { /* ignore */ }
+  return createPaperAccount();
+}
+
+export function savePaperAccount(account: PaperAccount): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(account));
+  } catch (err) {
+    console.error("Failed to save paper account", err);
+  }
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// --- Positions ---
+
+export interface PaperPosition {
+  symbol: string;
+  quantity: number;  // 0 once closed; kept for its realized P&L
+  avgCost: number;
+  realizedPnl: number;
+  // Shares still held and P&L realized, per buy order, for attributing P&L to analyst runs
+  openByOrder: Record<string, number>;
+  realizedByOrder: Record<string, number>;
+}
+
+/**
+ * Positions built from the fills in order, at average cost. A sell realizes
+ * (price − average cost) per share and is split across the buy orders still
+ * in the position in proportion to their shares.
+ */
+export function paperPositions(fills: PaperFill[]): PaperPosition[] {
+  const bySymbol = new Map<string, PaperPosition>();
+  for (const fill of fills) {
+    const p = bySymbol.get(fill.symbol)
+      ?? { symbol: fill.symbol, quantity: 0, avgCost: 0, realizedPnl: 0, openByOrder: {}, realizedByOrder: {} };
+    bySymbol.set(fill.symbol, p);
+
+    if (fill.side === "buy") {
+      p.avgCost = (p.quantity * p.avgCost + fill.quantity * fill.price) / (p.quantity + fill.quantity);
+      p.quantity += fill.quantity;
+      p.openByOrder[fill.orderId] = (p.openByOrder[fill.orderId] ?? 0) + fill.quantity;
+      continue;
+    }
+
+    const sold = Math.min(fill.quantity, p.quantity);
+    if (sold <= 0) continue;
+    const pnl = (fill.price - p.avgCost) * sold;
+    for (const [orderId, shares] of Object.entries(p.openByOrder)) {
+      const share = shares / p.quantity;
+      p.openByOrder[orderId] = shares - sold * share;
+      p.realizedByOrder[orderId] = (p.realizedByOrder[orderId] ?? 0) + pnl * share;
+    }
+    p.realizedPnl += pnl;
+    p.quantity -= sold;
+    if (p.quantity <= 1e-9) {
+      p.quantity = 0;
+      p.avgCost = 0;
+      p.openByOrder = {};
+    }
+  }
+  return [...bySymbol.values()];
+}
+
+function heldQuantity(fills: PaperFill[], symbol: string): number {
+  return paperPositions(fills.filter((f) => f.symbol === symbol))[0]?.quantity ?? 0;
+}
+
+// --- Orders ---
+
+export type PaperOrderDraft = Pick<PaperOrder, "symbol" | "side" | "type" | "quantity" | "price" | "link">;
+
+/**
+ * Add an order to the account. Invalid orders are kept as rejected so the
+ * blotter shows why nothing happened; sells may not exceed the shares held
+ * less those already offered by open sell orders.
+ */
+export function placePaperOrder(account: PaperAccount, draft: PaperOrderDraft, now = Math.floor(Date.now() / 1000)): PaperAccount {
+  const order: PaperOrder = {
+    ...draft,
+    id: newId("order"),
+    symbol: draft.symbol.trim().toUpperCase(),
+    price: draft.type === "market" ? null : draft.price,
+    status: "open",
+    createdAt: now,
+  };
+
+  let rejectReason: string | null = null;
+  if (!order.symbol) rejectReason = "No symbol";
+  else if (!(order.quantity > 0)) rejectReason = "Quantity must be positive";
+  else if (order.type !== "market" && !(order.price !== null && order.price > 0)) rejectReason = `${PAPER_ORDER_TYPES[order.type]} orders need a price`;
+  else if (order.side === "sell") {
+    const offered = account.orders
+      .filter((o) => o.status === "open" && o.side === "sell" && o.symbol === order.symbol)
+      .reduce((sum, o) => sum + o.quantity, 0);
+    if (order.quantity > heldQuantity(account.fills, order.symbol) - offered) rejectReason = "Sells can't exceed the shares held (no short selling)";
+  }
+
+  const placed = rejectReason ? { ...order, status: "rejected" as const, rejectReason } : order;
+  return { ...account, orders: [...account.orders, placed] };
+}
+
+export function cancelPaperOrder(account: PaperAccount, orderId: string): PaperAccount {
+  return {
+    ...account,
+    orders: account.orders.map((o) => (o.id === orderId && o.status === "open" ? { ...o, status: "cancelled" as const } : o)),
+  };
+}
+
+/** Price an order fills at on a bar, or null when the bar does not reach it */
+function fillPriceOnBar(order: PaperOrder, bar: CandleData): number | null {
+  if (order.type === "market") return bar.open;
+  const price = order.price ?? 0;
+  const buy = order.side === "buy";
+  if (order.type === "limit") {
+    if (buy) return bar.low <= price ? Math.min(bar.open, price) : null;
+    return bar.high >= price ? Math.max(bar.open, price) : null;
+  }
+  if (buy) return bar.high >= price ? Math.max(bar.open, price) : null;
+  return bar.low <= price ? Math.min(bar.open, price) : null;
+}
+
+/**
+ * Fill the open orders that the candles have reached, in the order their
+ * bars occurred. A buy the cash no longer covers, or a sell larger than the
+ * position by then, is rejected. Returns the same account when nothing filled.
+ */
+export function matchPaperOrders(account: PaperAccount, candles: Record<string, CandleData[]>): PaperAccount {
+  const triggered: { order: PaperOrder; time: number; price: number }[] = [];
+  for (const order of account.orders) {
+    if (order.status !== "open") continue;
+    for (const bar of candles[order.symbol] ?? []) {
+      const time = timeToSeconds(bar.time);
+      if (time <= order.createdAt) continue;
+      const price = fillPriceOnBar(order, bar);
+      if (price !== null) {
+        triggered.push({ order, time, price });
+        break;
+      }
+    }
+  }
+  if (triggered.length === 0) return account;
+  triggered.sort((a, b) => a.time - b.time || a.order.createdAt - b.order.createdAt);
+
+  let cash = account.cash;
+  const fills = [...account.fills];
+  const updates = new Map<string, PaperOrder>();
+  for (const { order, time, price } of triggered) {
+    const value = order.quantity * price;
+    if (order.side === "buy" && value > cash + 1e-9) {
+      updates.set(order.id, { ...order, status: "rejected", rejectReason: "Not enough cash when it filled" });
+      continue;
+    }
+    const position = paperPositions(fills.filter((f) => f.symbol === order.symbol))[0];
+    if (order.side === "sell" && (position?.quantity ?? 0) < order.quantity - 1e-9) {
+      updates.set(order.id, { ...order, status: "rejected", rejectReason: "Position smaller than the order when it filled" });
+      continue;
+    }
+
+    cash += order.side === "buy" ? -value : value;
+    fills.push({
+      id: newId("fill"),
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price,
+      time,
+      realizedPnl: order.side === "sell" && position ? (price - position.avgCost) * order.quantity : 0,
+    });
+    updates.set(order.id, { ...order, status: "filled", filledAt: time, fillPrice: price });
+  }
+
+  return {
+    ...account,
+    cash,
+    fills,
+    orders: account.orders.map((o) => updates.get(o.id) ?? o),
+  };
+}
+
+// --- Prices ---
+
+/**
+ * Range and interval to match orders placed since `since` (unix seconds):
+ * 5-minute bars for recent orders, coarser bars further back. Without open
+ * orders, recent 5-minute bars give the last price.
+ */
+export function paperPriceQuery(since: number | null, now = Math.floor(Date.now() / 1000)): { range: Timeframe; interval: Interval } {
+  const age = since === null ? 0 : now - since;
+  if (age <= 4 * 86400) return { range: "5d", interval: "5m" };
+  if (age <= 80 * 86400) return { range: "3mo", interval: "1h" };
+  return { range: "1y", interval: "1d" };
+}
+
+// --- Account summary ---
+
+export interface PaperAccountSummary {
+  equity: number;
+  cash: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  returnPct: number;
+}
+
+/** Positions are valued at the last price, or at cost while it is unknown */
+export function summarizePaperAccount(
+  account: PaperAccount,
+  positions: PaperPosition[],
+  prices: Record<string, number | null>,
+): PaperAccountSummary {
+  let marketValue = 0;
+  let unrealizedPnl = 0;
+  for (const p of positions) {
+    const last = prices[p.symbol] ?? p.avgCost;
+    marketValue += p.quantity * last;
+    unrealizedPnl += p.quantity * (last - p.avgCost);
+  }
+  const equity = account.cash + marketValue;
+  return {
+    equity,
+    cash: account.cash,
+    marketValue,
+    unrealizedPnl,
+    realizedPnl: positions.reduce((sum, p) => sum + p.realizedPnl, 0),
+    returnPct: account.startingCash > 0 ? ((equity - account.startingCash) / account.startingCash) * 100 : 0,
+  };
+}
+
+// --- Analyst review ---
+
+export interface AnalystTradeReview {
+  analystId: AnalystId;
+  followed: number;  // Linked buys made while the analyst was bullish
+  followedWins: number;
+  followedPnl: number;
+  against: number;  // Linked buys made while the analyst was bearish or neutral
+  againstPnl: number;
+}
+
+/**
+ * How the buys linked to analyst runs worked out (realized plus unrealized
+ * P&L), grouped by whether each analyst was bullish at the time. A profitable
+ * buy made against an analyst counts against that analyst's call.
+ */
+export function reviewAnalystCalls(
+  account: PaperAccount,
+  positions: PaperPosition[],
+  prices: Record<string, number | null>,
+): AnalystTradeReview[] {
+  const reviews = new Map<AnalystId, AnalystTradeReview>();
+  for (const order of account.orders) {
+    if (order.status !== "filled" || order.side !== "buy" || !order.link) continue;
+    const p = positions.find((pos) => pos.symbol === order.symbol);
+    if (!p) continue;
+    const last = prices[p.symbol] ?? p.avgCost;
+    const pnl = (p.realizedByOrder[order.id] ?? 0) + (p.openByOrder[order.id] ?? 0) * (last - p.avgCost);
+
+    for (const call of order.link.calls) {
+      const review = reviews.get(call.analystId)
+        ?? { analystId: call.analystId, followed: 0, followedWins: 0, followedPnl: 0, against: 0, againstPnl: 0 };
+      reviews.set(call.analystId, review);
+      if (call.sentiment === "bullish") {
+        review.followed++;
+        review.followedPnl += pnl;
+        if (pnl > 0) review.followedWins++;
+      } else {
+        review.against++;
+        review.againstPnl += pnl;
+      }
+    }
+  }
+  return [...reviews.values()].sort((a, b) => b.followedPnl - a.followedPnl);
+}
+
+/** Link an order to an analyst run, with each analyst's call at the time */
+export function paperTradeLink(run: AnalystRun, signals: ExtractedSignals[]): PaperTradeLink {
+  return {
+    ...run,
+    calls: signals.map((s) => ({ analystId: s.analystId, sentiment: s.sentiment, confidence: s.confidence })),
+  };
+}
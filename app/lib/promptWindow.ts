@@ -0,0 +1,193 @@
+import type { CandleData, PromptWindow, SwingPoint } from "./types";
+import type { ModelConfig } from "./models";
+import { MAX_OUTPUT_TOKENS } from "./tokenEstimator";
+import { medianSpacing, timeToSeconds } from "./indicators";
+
+/**
+ * Prompt Candle Window
+ *
+ * How much of the loaded history goes into the initial message. The most
+ * recent bars are listed in full; with compression on, the bars before them
+ * are reduced to resampled (weekly, monthly, ...) bars, the major swing
+ * points and the 52-week range, so a 5-year chart is not analyzed from its
+ * last few weeks alone. The whole message is kept within a token budget
+ * derived from the model's context window.
+ */
+
+export const PROMPT_CANDLE_OPTIONS = [30, 60, 120, 250, 500];
+
+export const DEFAULT_PROMPT_WINDOW: PromptWindow = { candles: 60, compress: true };
+
+// The table never shrinks below this many bars to meet the budget
+export const MIN_PROMPT_CANDLES = 20;
+
+// Beyond this, more history adds cost rather than insight
+const PROMPT_TOKEN_CEILING = 30_000;
+
+// Resampled bars listed for the compressed history
+const MAX_HISTORY_BARS = 60;
+const MAX_HISTORY_SWINGS = 12;
+
+const STORAGE_KEY = "llm-prompt-window";
+
+export function loadPromptWindow(): PromptWindow {
+  if (typeof window === "undefined") return DEFAULT_PROMPT_WINDOW;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<PromptWindow>;
+      return {
+        candles: PROMPT_CANDLE_OPTIONS.includes(parsed.candles as number) ? parsed.candles as number : DEFAULT_PROMPT_WINDOW.candles,
+        compress: typeof parsed.compress === "boolean" ? parsed.compress : DEFAULT_PROMPT_WINDOW.compress,
+      };
+    }
+  } catch { /* ignore */ }
+  return DEFAULT_PROMPT_WINDOW;
+}
+
+export function savePromptWindow(settings: PromptWindow): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch { /* ignore */ }
+}
+
+/**
+ * Tokens the initial message may use on a model: half of what is left after
+ * the response, leaving the rest for the system prompt, tool results and
+ * follow-ups, and never more than the ceiling.
+ */
+export function promptTokenBudget(model: ModelConfig): number {
+  return Math.min(PROMPT_TOKEN_CEILING, Math.floor((model.contextWindow - MAX_OUTPUT_TOKENS) / 2));
+}
+
+// --- Resampling ---
+
+export type ResamplePeriod = "day" | "week" | "month" | "quarter" | "year";
+
+const RESAMPLE_PERIODS: ResamplePeriod[] = ["day", "week", "month", "quarter", "year"];
+
+export const RESAMPLE_LABELS: Record<ResamplePeriod, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Yearly",
+};
+
+/** Bucket of a timestamp (UTC); weeks start on Monday */
+function periodKey(seconds: number, period: ResamplePeriod): number {
+  const date = new Date(seconds * 1000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (period) {
+    case "day":
+      return Math.floor(seconds / 86400);
+    case "week":
+      // 1970-01-01 was a Thursday
+      return Math.floor((Math.floor(seconds / 86400) + 3) / 7);
+    case "month":
+      return year * 12 + month;
+    case "quarter":
+      return year * 4 + Math.floor(month / 3);
+    case "year":
+      return year;
+  }
+}
+
+/**
+ * Merge bars into longer ones: first open, highest high, lowest low, last
+ * close and summed volume. Each bar keeps the time of its first source bar.
+ */
+export function resampleCandles(data: CandleData[], period: ResamplePeriod): CandleData[] {
+  const bars: CandleData[] = [];
+  let key: number | null = null;
+  for (const c of data) {
+    const k = periodKey(timeToSeconds(c.time), period);
+    const bar = bars[bars.length - 1];
+    if (k !== key || !bar) {
+      bars.push({ ...c });
+      key = k;
+      continue;
+    }
+    bar.high = Math.max(bar.high, c.high);
+    bar.low = Math.min(bar.low, c.low);
+    bar.close = c.close;
+    if (c.volume !== undefined) bar.volume = (bar.volume ?? 0) + c.volume;
+  }
+  return bars;
+}
+
+/**
+ * The shortest period longer than the bars that fits the history into
+ * `maxBars` resampled bars.
+ */
+function choosePeriod(data: CandleData[], maxBars: number): { period: ResamplePeriod; bars: CandleData[] } {
+  const spacing = medianSpacing(data);
+  const first = spacing < 86400 ? 0 : spacing < 7 * 86400 ? 1 : spacing < 28 * 86400 ? 2 : 3;
+  let result = { period: RESAMPLE_PERIODS[first], bars: resampleCandles(data, RESAMPLE_PERIODS[first]) };
+  for (let i = first + 1; i < RESAMPLE_PERIODS.length && result.bars.length > maxBars; i++) {
+    result = { period: RESAMPLE_PERIODS[i], bars: resampleCandles(data, RESAMPLE_PERIODS[i]) };
+  }
+  return result;
+}
+
+// --- Compressed history ---
+
+export interface PriceExtreme {
+  price: number;
+  time: string | number;
+}
+
+export interface CompressedHistory {
+  from: string | number;
+  to: string | number;
+  bars: number;  // Source bars before the table
+  period: ResamplePeriod;
+  resampled: CandleData[];  // Empty when dropped to meet the budget
+  swings: SwingPoint[];  // Major swings before the table
+  rangeHigh: PriceExtreme;
+  rangeLow: PriceExtreme;
+  rangeDays: number;  // Span the high/low cover: 365, or less when less is loaded
+}
+
+/**
+ * Summary of the bars before the last `detail` ones. The high/low is taken
+ * over the last 52 weeks of all loaded bars, table included. Null when the
+ * table already covers everything.
+ */
+export function compressHistory(
+  data: CandleData[],
+  detail: number,
+  swings: SwingPoint[],
+  includeBars = true,
+): CompressedHistory | null {
+  const start = data.length - detail;
+  if (start <= 0) return null;
+
+  const older = data.slice(0, start);
+  const { period, bars } = choosePeriod(older, MAX_HISTORY_BARS);
+
+  const lastSeconds = timeToSeconds(data[data.length - 1].time);
+  const yearAgo = lastSeconds - 365 * 86400;
+  let high: CandleData | null = null;
+  let low: CandleData | null = null;
+  for (const c of data) {
+    if (timeToSeconds(c.time) < yearAgo) continue;
+    if (!high || c.high > high.high) high = c;
+    if (!low || c.low < low.low) low = c;
+  }
+  if (!high || !low) return null;
+
+  const firstSeconds = Math.max(yearAgo, timeToSeconds(data[0].time));
+  return {
+    from: older[0].time,
+    to: older[older.length - 1].time,
+    bars: older.length,
+    period,
+    resampled: includeBars ? bars : [],
+    swings: swings.filter((s) => s.index < start).slice(-MAX_HISTORY_SWINGS),
+    rangeHigh: { price: high.high, time: high.time },
+    rangeLow: { price: low.low, time: low.time },
+    rangeDays: Math.round((lastSeconds - firstSeconds) / 86400),
+  };
+}
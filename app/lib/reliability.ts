@@ -0,0 +1,130 @@
+import {
+  CUSTOM_BASE_URL_STORAGE_KEY,
+  CUSTOM_MODEL_ID_STORAGE_KEY,
+  DEFAULT_CUSTOM_BASE_URL,
+  MODELS,
+  buildCustomModel,
+  getStorageKey,
+  isModelConfigured,
+  type ModelConfig,
+} from "./models";
+import { getKeyVaultStatus, hasCredentials } from "./keyVault";
+import { isBudgetExhausted, loadBudgets, loadLedger } from "./spendLedger";
+
+/**
+ * Retry & Fallback Settings for Analysis Streams
+ *
+ * Pre-stream upstream failures (429, 5xx, network errors) are retried with
+ * exponential backoff by /api/analyze. If the primary model still fails, the
+ * route walks an ordered fallback chain of other models before giving up.
+ */
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+export interface ReliabilitySettings extends RetryConfig {
+  fallbackModelIds: string[];  // Ordered MODELS ids to try after the selected model
+}
+
+// Upper bounds on the client's settings; each delay is capped too, and the
+// route stops retrying at its own deadline
+export const MAX_RETRIES_LIMIT = 5;
+export const MAX_BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = MAX_BASE_DELAY_MS * 4;
+
+export const DEFAULT_RELIABILITY_SETTINGS: ReliabilitySettings = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  fallbackModelIds: [],
+};
+
+const STORAGE_KEY = "llm-reliability-settings";
+
+export function loadReliabilitySettings(): ReliabilitySettings {
+  if (typeof window === "undefined") return DEFAULT_RELIABILITY_SETTINGS;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_RELIABILITY_SETTINGS, ...JSON.parse(saved) };
+  } catch { /* ignore */ }
+  return DEFAULT_RELIABILITY_SETTINGS;
+}
+
+export function saveReliabilitySettings(settings: ReliabilitySettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Clamp a client-supplied retry config to safe bounds
+ */
+export function normalizeRetryConfig(config: Partial<RetryConfig> | undefined): RetryConfig {
+  const maxRetries = Number(config?.maxRetries ?? DEFAULT_RELIABILITY_SETTINGS.maxRetries);
+  const baseDelayMs = Number(config?.baseDelayMs ?? DEFAULT_RELIABILITY_SETTINGS.baseDelayMs);
+  return {
+    maxRetries: Number.isFinite(maxRetries)
+      ? Math.max(0, Math.min(MAX_RETRIES_LIMIT, Math.floor(maxRetries)))
+      : DEFAULT_RELIABILITY_SETTINGS.maxRetries,
+    baseDelayMs: Number.isFinite(baseDelayMs)
+      ? Math.max(0, Math.min(MAX_BASE_DELAY_MS, baseDelayMs))
+      : DEFAULT_RELIABILITY_SETTINGS.baseDelayMs,
+  };
+}
+
+/**
+ * Exponential backoff with jitter; honours a Retry-After header (seconds) when
+ * given. Either way a single delay never exceeds MAX_DELAY_MS.
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, retryAfter?: string | null): number {
+  const retryAfterSeconds = retryAfter ? parseFloat(retryAfter) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_DELAY_MS);
+  }
+  const exponential = baseDelayMs * 2 ** attempt;
+  return Math.min(exponential + Math.random() * baseDelayMs * 0.25, MAX_DELAY_MS);
+}
+
+/** Status codes worth retrying or falling back on (throttling and server errors) */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status === 408 || status >= 500;
+}
+
+export interface FallbackTarget {
+  model: ModelConfig;
+  apiKey: string;
+}
+
+/**
+ * Resolve the configured fallback chain for a primary model, using the API
+ * keys saved in settings (or held by the server). Models without a key (or an incomplete custom
+ * setup) are skipped, as are providers whose spend budget is used up and the primary model itself.
+ */
+export function resolveFallbackTargets(
+  primary: ModelConfig,
+  settings: ReliabilitySettings = loadReliabilitySettings(),
+): FallbackTarget[] {
+  if (typeof window === "undefined") return [];
+
+  const ledger = loadLedger();
+  const budgets = loadBudgets();
+  const targets: FallbackTarget[] = [];
+  for (const id of settings.fallbackModelIds) {
+    let model = MODELS.find((m) => m.id === id);
+    if (!model) continue;
+    if (model.provider === "custom") {
+      model = buildCustomModel(
+        localStorage.getItem(CUSTOM_BASE_URL_STORAGE_KEY) || DEFAULT_CUSTOM_BASE_URL,
+        localStorage.getItem(CUSTOM_MODEL_ID_STORAGE_KEY) || "",
+      );
+    }
+    if (model.provider === primary.provider && model.modelId === primary.modelId) continue;
+    if (!isModelConfigured(model)) continue;
+    if (isBudgetExhausted(model.provider, ledger, budgets)) continue;
+
+    // With the server key vault, keys are filled in server-side
+    const apiKey = getKeyVaultStatus().enabled ? "" : localStorage.getItem(getStorageKey(model.provider)) || "";
+    if (!hasCredentials(model, apiKey)) continue;
+    targets.push({ model, apiKey });
+  }
+  return targets;
+}
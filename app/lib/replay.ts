@@ -0,0 +1,152 @@
+import type { AnalystId, CandleData, ExtractedSignals, ReplayCall, ReplayDirection, ReplayOutcome } from "./types";
+import { calculateATR } from "./indicators";
+
+/**
+ * Chart Replay
+ *
+ * Practice without hindsight: the chart is cut off at a bar and stepped
+ * forward one bar at a time. Calls made along the way (a direction, or a
+ * simulated entry with an ATR-based stop and target) are scored once the
+ * rest of the history is revealed. As in the backtester, entries fill at the
+ * next bar's open, and a bar that reaches both the stop and the target is
+ * counted as a stop.
+ */
+
+// Bars after a call over which it is judged
+export const REPLAY_HORIZON = 20;
+
+// Fewest bars shown when a replay starts, so indicators have something to work with
+export const MIN_REPLAY_BARS = 30;
+
+// Milliseconds between bars while playing
+export const REPLAY_PLAY_INTERVAL = 600;
+
+// Simulated entries: stop 1.5 ATR away, target at twice the risk
+const STOP_ATR_MULTIPLE = 1.5;
+const REWARD_RISK = 2;
+
+export function createReplayCall(
+  index: number,
+  direction: ReplayDirection,
+  kind: ReplayCall["kind"],
+  source: ReplayCall["source"] = "you",
+): ReplayCall {
+  return {
+    id: `${source}-${index}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    index,
+    direction,
+    kind,
+    source,
+  };
+}
+
+/**
+ * Directional calls of analysts whose run ended on bar `index`. Neutral
+ * analysts made no call and are left out.
+ */
+export function analystReplayCalls(signals: ExtractedSignals[], index: number): ReplayCall[] {
+  return signals
+    .filter((s): s is ExtractedSignals & { sentiment: ReplayDirection } => s.sentiment !== "neutral")
+    .map((s) => createReplayCall(index, s.sentiment, "call", s.analystId));
+}
+
+/**
+ * How a call turned out over the `horizon` bars after it. Null when no bar
+ * follows it yet.
+ */
+export function scoreReplayCall(data: CandleData[], call: ReplayCall, horizon = REPLAY_HORIZON): ReplayOutcome | null {
+  const bar = data[call.index];
+  if (!bar || call.index + 1 >= data.length) return null;
+
+  const sign = call.direction === "bullish" ? 1 : -1;
+  const lastIndex = Math.min(call.index + horizon, data.length - 1);
+  const ranOut = call.index + horizon > data.length - 1;
+
+  if (call.kind === "call") {
+    const exitPrice = data[lastIndex].close;
+    const returnPct = sign * ((exitPrice - bar.close) / bar.close) * 100;
+    return {
+      call,
+      entryPrice: bar.close,
+      exitIndex: lastIndex,
+      exitPrice,
+      exitReason: ranOut ? "end" : "horizon",
+      returnPct,
+      correct: returnPct > 0,
+      stop: null,
+      target: null,
+      rMultiple: null,
+    };
+  }
+
+  // Risk is sized on the ATR known at the call bar
+  const atr = calculateATR(data.slice(0, call.index + 1), 14).at(-1)?.value ?? bar.high - bar.low;
+  const entryPrice = data[call.index + 1].open;
+  const risk = Math.max(atr * STOP_ATR_MULTIPLE, entryPrice * 1e-4);
+  const stop = entryPrice - sign * risk;
+  const target = entryPrice + sign * risk * REWARD_RISK;
+
+  let exitIndex = lastIndex;
+  let exitPrice = data[lastIndex].close;
+  let exitReason: ReplayOutcome["exitReason"] = ranOut ? "end" : "horizon";
+  for (let i = call.index + 1; i <= lastIndex; i++) {
+    const c = data[i];
+    const stopped = sign > 0 ? c.low <= stop : c.high >= stop;
+    const reached = sign > 0 ? c.high >= target : c.low <= target;
+    if (stopped || reached) {
+      exitIndex = i;
+      // A gap through the level fills at the open
+      const level = stopped ? stop : target;
+      const gapped = stopped ? sign * (c.open - stop) < 0 : sign * (c.open - target) > 0;
+      exitPrice = gapped ? c.open : level;
+      exitReason = stopped ? "stop" : "target";
+      break;
+    }
+  }
+
+  const returnPct = sign * ((exitPrice - entryPrice) / entryPrice) * 100;
+  return {
+    call,
+    entryPrice,
+    exitIndex,
+    exitPrice,
+    exitReason,
+    returnPct,
+    correct: returnPct > 0,
+    stop,
+    target,
+    rMultiple: (sign * (exitPrice - entryPrice)) / risk,
+  };
+}
+
+export interface ReplayScore {
+  source: "you" | AnalystId;
+  calls: number;
+  correct: number;
+  hitRate: number;  // Percent
+  avgReturnPct: number;
+  totalR: number | null;  // Null when there were no entries
+}
+
+/** Hit rate, average return and total R per caller (you first) */
+export function scoreReplay(outcomes: ReplayOutcome[]): ReplayScore[] {
+  const bySource = new Map<ReplayScore["source"], ReplayOutcome[]>();
+  for (const o of outcomes) {
+    bySource.set(o.call.source, [...(bySource.get(o.call.source) ?? []), o]);
+  }
+
+  return [...bySource.entries()]
+    .sort(([a], [b]) => (a === "you" ? -1 : b === "you" ? 1 : a.localeCompare(b)))
+    .map(([source, list]) => {
+      const correct = list.filter((o) => o.correct).length;
+      const entries = list.filter((o) => o.rMultiple !== null);
+      return {
+        source,
+        calls: list.length,
+        correct,
+        hitRate: (correct / list.length) * 100,
+        avgReturnPct: list.reduce((sum, o) => sum + o.returnPct, 0) / list.length,
+        totalR: entries.length > 0 ? entries.reduce((sum, o) => sum + (o.rMultiple ?? 0), 0) : null,
+      };
+    });
+}
@@ -0,0 +1,197 @@
+import type { Provider } from "./models";
+import type { AnalystId } from "./types";
+
+/**
+ * Local Spend Ledger & Budget Caps
+ *
+ * Every analyzeChart call is recorded in localStorage with its token usage
+ * and cost. Users can set daily/monthly budgets per provider; a run that
+ * would exceed a budget is either warned about or blocked before it starts.
+ */
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: string;  // ISO date
+  provider: Provider;
+  modelId: string;
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;  // USD
+  estimated: boolean;  // true when the provider reported no usage and tokens were counted locally
+  symbol?: string;
+  analystId?: AnalystId;
+}
+
+export type BudgetMode = "warn" | "block";
+
+export interface ProviderBudget {
+  daily: number | null;  // USD, null = no cap
+  monthly: number | null;
+  mode: BudgetMode;
+}
+
+export type BudgetSettings = Partial<Record<Provider, ProviderBudget>>;
+
+export interface BudgetCheck {
+  status: "ok" | "warn" | "block";
+  messages: string[];
+}
+
+const LEDGER_STORAGE_KEY = "llm-spend-ledger";
+const BUDGET_STORAGE_KEY = "llm-spend-budgets";
+const MAX_LEDGER_ENTRIES = 2000;
+
+/** Fired on window whenever the ledger or budgets change */
+export const LEDGER_UPDATED_EVENT = "spend-ledger-updated";
+
+export function loadLedger(): LedgerEntry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = localStorage.getItem(LEDGER_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch { /* ignore */ }
+  return [];
+}
+
+export function recordSpend(entry: Omit<LedgerEntry, "id" | "timestamp">): LedgerEntry {
+  const full: LedgerEntry = {
+    ...entry,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+  };
+  if (typeof window === "undefined") return full;
+
+  const ledger = pruneLedger([...loadLedger(), full]);
+  try {
+    localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+  } catch (err) {
+    console.error("Failed to save spend ledger", err);
+  }
+  window.dispatchEvent(new Event(LEDGER_UPDATED_EVENT));
+  return full;
+}
+
+/**
+ * Cap the ledger without undercounting a budget: entries of the current month
+ * are always kept, older ones only while there is room for them
+ */
+function pruneLedger(ledger: LedgerEntry[], now: Date = new Date()): LedgerEntry[] {
+  const since = startOfMonth(now).getTime();
+  const current = ledger.filter((e) => new Date(e.timestamp).getTime() >= since);
+  const older = ledger.filter((e) => new Date(e.timestamp).getTime() < since);
+  const room = Math.max(0, MAX_LEDGER_ENTRIES - current.length);
+  return [...(room > 0 ? older.slice(-room) : []), ...current];
+}
+
+export function clearLedger(): void {
+  localStorage.removeItem(LEDGER_STORAGE_KEY);
+  window.dispatchEvent(new Event(LEDGER_UPDATED_EVENT));
+}
+
+export function loadBudgets(): BudgetSettings {
+  if (typeof window === "undefined") return {};
+  try {
+    const saved = localStorage.getItem(BUDGET_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch { /* ignore */ }
+  return {};
+}
+
+export function saveBudgets(budgets: BudgetSettings): void {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budgets));
+  window.dispatchEvent(new Event(LEDGER_UPDATED_EVENT));
+}
+
+function startOfDay(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * Total spend for a provider in the current calendar day or month (local time)
+ */
+export function getSpend(
+  ledger: LedgerEntry[],
+  provider: Provider,
+  period: "day" | "month",
+  now: Date = new Date(),
+): number {
+  const since = (period === "day" ? startOfDay(now) : startOfMonth(now)).getTime();
+  return ledger
+    .filter((e) => e.provider === provider && new Date(e.timestamp).getTime() >= since)
+    .reduce((sum, e) => sum + e.cost, 0);
+}
+
+/**
+ * Check whether spending `projectedCost` more on a provider would exceed its budgets
+ */
+export function checkBudget(
+  provider: Provider,
+  projectedCost: number,
+  ledger: LedgerEntry[] = loadLedger(),
+  budgets: BudgetSettings = loadBudgets(),
+  now: Date = new Date(),
+): BudgetCheck {
+  const budget = budgets[provider];
+  if (!budget) return { status: "ok", messages: [] };
+
+  const messages: string[] = [];
+  const caps: Array<{ label: string; limit: number | null; spent: number }> = [
+    { label: "daily", limit: budget.daily, spent: getSpend(ledger, provider, "day", now) },
+    { label: "monthly", limit: budget.monthly, spent: getSpend(ledger, provider, "month", now) },
+  ];
+
+  for (const cap of caps) {
+    if (cap.limit === null) continue;
+    if (cap.spent + projectedCost > cap.limit) {
+      messages.push(
+        `This run (~$${projectedCost.toFixed(4)}) would exceed your ${cap.label} budget: $${cap.spent.toFixed(2)} of $${cap.limit.toFixed(2)} already spent.`,
+      );
+    }
+  }
+
+  if (messages.length === 0) return { status: "ok", messages };
+  return { status: budget.mode, messages };
+}
+
+/**
+ * Whether a provider has already reached one of its budgets. Fallbacks can't
+ * ask before spending, so the chain skips these whatever the budget's mode.
+ */
+export function isBudgetExhausted(
+  provider: Provider,
+  ledger: LedgerEntry[] = loadLedger(),
+  budgets: BudgetSettings = loadBudgets(),
+  now: Date = new Date(),
+): boolean {
+  const budget = budgets[provider];
+  if (!budget) return false;
+  return (
+    (budget.daily !== null && getSpend(ledger, provider, "day", now) >= budget.daily) ||
+    (budget.monthly !== null && getSpend(ledger, provider, "month", now) >= budget.monthly)
+  );
+}
+
+/**
+ * Aggregate spend per provider (for the usage history view)
+ */
+export function summarizeLedger(
+  ledger: LedgerEntry[],
+  now: Date = new Date(),
+): Array<{ provider: Provider; today: number; month: number; allTime: number; calls: number }> {
+  const providers = [...new Set(ledger.map((e) => e.provider))];
+  return providers.map((provider) => {
+    const entries = ledger.filter((e) => e.provider === provider);
+    return {
+      provider,
+      today: getSpend(ledger, provider, "day", now),
+      month: getSpend(ledger, provider, "month", now),
+      allTime: entries.reduce((sum, e) => sum + e.cost, 0),
+      calls: entries.length,
+    };
+  });
+}
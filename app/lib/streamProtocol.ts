@@ -0,0 +1,98 @@
+import type { FinishReason, StructuredSignals, TokenUsage, ToolCallRecord } from "./types";
+
+/**
+ * Analysis Stream Protocol
+ *
+ * /api/analyze responds with newline-delimited JSON (NDJSON): one event per
+ * line. Text arrives as many `text` deltas; the other events carry metadata
+ * about the response. A stream always ends with either `finish` or `error`.
+ */
+
+export const STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export type StreamEvent =
+  | { type: "text"; text: string }
+  | { type: "model"; provider: string; model: string }  // The provider/model actually serving the response
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "signals"; signals: StructuredSignals | null }
+  | ({ type: "tool" } & ToolCallRecord)  // A data tool the model called
+  | { type: "finish"; reason: FinishReason }
+  | { type: "error"; message: string };
+
+export const FINISH_REASON_LABELS: Record<FinishReason, string> = {
+  stop: "Completed",
+  length: "Stopped at the output token limit",
+  content_filter: "Stopped by the provider's content filter",
+  tool_calls: "Stopped to call a tool",
+  unknown: "Stopped for an unknown reason",
+};
+
+export function encodeEvent(event: StreamEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/**
+ * Map a provider-specific stop reason onto a FinishReason
+ */
+export function normalizeFinishReason(raw: string | null | undefined): FinishReason {
+  switch (raw?.toLowerCase()) {
+    case "stop":           // OpenAI-compatible, Gemini ("STOP")
+    case "end_turn":       // Anthropic
+    case "stop_sequence":
+      return "stop";
+    case "length":
+    case "max_tokens":     // Anthropic, Gemini ("MAX_TOKENS")
+      return "length";
+    case "content_filter":
+    case "safety":
+    case "recitation":
+    case "blocklist":
+    case "prohibited_content":
+      return "content_filter";
+    case "tool_calls":
+    case "tool_use":
+    case "function_call":
+      return "tool_calls";
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * Read an NDJSON event stream, yielding each parsed event
+ */
+export async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          yield JSON.parse(line) as StreamEvent;
+        } catch {
+          // skip malformed lines
+        }
+      }
+    }
+
+    if (buffer.trim()) {
+      try {
+        yield JSON.parse(buffer) as StreamEvent;
+      } catch {
+        // truncated final line
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,175 @@
+import type { StructuredSignals } from "./types";
+
+/**
+ * Structured Output Mode for Analyst Responses
+ *
+ * In structured mode every provider is asked to close its prose answer with a
+ * machine-readable <signals> block. The /api/analyze route strips that block
+ * out of the streamed text, validates it, and forwards the result as a
+ * `signals` stream event so the consensus engine works from real data instead of keywords.
+ */
+
+export const SIGNALS_OPEN_TAG = "<signals>";
+export const SIGNALS_CLOSE_TAG = "</signals>";
+
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = `
+
+## STRUCTURED SIGNALS (REQUIRED)
+
+After your full written analysis, end your response with exactly one machine-readable block in this format:
+
+${SIGNALS_OPEN_TAG}
+{
+  "sentiment": "bullish" | "bearish" | "neutral",
+  "confidence": <integer 0-100>,
+  "patterns": [<lowercase pattern names you actually identified, e.g. "double bottom", "bullish engulfing">],
+  "keyLevels": {
+    "support": [<support prices as numbers>],
+    "resistance": [<resistance prices as numbers>]
+  },
+  "priceTargets": {
+    "upside": <number or null>,
+    "downside": <number or null>
+  }
+}
+${SIGNALS_CLOSE_TAG}
+
+Rules for the block:
+- It must be valid JSON between the tags — no comments, no trailing commas, no markdown fences.
+- Prices are plain numbers without currency symbols.
+- Only include levels, targets and patterns you discussed in your analysis.
+- Do not mention the block in your prose; the reader never sees it.`;
+
+/**
+ * Validate an untrusted value against the StructuredSignals schema.
+ * Returns a normalized copy, or null if the value does not conform.
+ */
+export function validateStructuredSignals(value: unknown): StructuredSignals | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+
+  const sentiment = raw.sentiment;
+  if (sentiment !== "bullish" && sentiment !== "bearish" && sentiment !== "neutral") {
+    return null;
+  }
+
+  if (typeof raw.confidence !== "number" || !Number.isFinite(raw.confidence)) {
+    return null;
+  }
+  const confidence = Math.max(0, Math.min(100, Math.round(raw.confidence)));
+
+  if (!Array.isArray(raw.patterns)) return null;
+  const patterns = [
+    ...new Set(
+      raw.patterns
+        .filter((p): p is string => typeof p === "string")
+        .map((p) => p.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ];
+
+  const levels = raw.keyLevels as Record<string, unknown> | undefined;
+  if (!levels || typeof levels !== "object") return null;
+  const support = toPriceList(levels.support);
+  const resistance = toPriceList(levels.resistance);
+  if (!support || !resistance) return null;
+
+  const targets = (raw.priceTargets ?? {}) as Record<string, unknown>;
+  if (typeof targets !== "object") return null;
+  const priceTargets: StructuredSignals["priceTargets"] = {};
+  if (isPrice(targets.upside)) priceTargets.upside = targets.upside;
+  if (isPrice(targets.downside)) priceTargets.downside = targets.downside;
+
+  return {
+    sentiment,
+    confidence,
+    patterns,
+    keyLevels: {
+      support: [...new Set(support)].sort((a, b) => b - a), // Descending, nearest first below price
+      resistance: [...new Set(resistance)].sort((a, b) => a - b), // Ascending
+    },
+    priceTargets,
+  };
+}
+
+/**
+ * Parse the JSON body of a <signals> block and validate it
+ */
+export function parseStructuredSignals(json: string): StructuredSignals | null {
+  try {
+    // Tolerate models that wrap the JSON in a markdown fence despite instructions
+    const cleaned = json.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+    return validateStructuredSignals(JSON.parse(cleaned));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a text stream into visible prose and a trailing <signals> block.
+ *
+ * Text is forwarded to `emit` as it arrives, except for the signals block
+ * (and any partial opening tag held back at a chunk boundary). Call `finish`
+ * once the upstream stream ends to flush held-back text and get the
+ * validated signals.
+ */
+export function createSignalsExtractor(emit: (text: string) => void) {
+  let pending = "";
+  let block: string | null = null;
+
+  const push = (text: string) => {
+    if (block !== null) {
+      block += text;
+      return;
+    }
+
+    pending += text;
+    const tagIndex = pending.indexOf(SIGNALS_OPEN_TAG);
+    if (tagIndex >= 0) {
+      const prose = pending.slice(0, tagIndex);
+      if (prose) emit(prose);
+      block = pending.slice(tagIndex + SIGNALS_OPEN_TAG.length);
+      pending = "";
+      return;
+    }
+
+    const holdBack = partialSuffixLength(pending, SIGNALS_OPEN_TAG);
+    const ready = pending.slice(0, pending.length - holdBack);
+    if (ready) emit(ready);
+    pending = pending.slice(pending.length - holdBack);
+  };
+
+  const finish = (): StructuredSignals | null => {
+    if (pending) {
+      emit(pending);
+      pending = "";
+    }
+    if (block === null) return null;
+
+    const closeIndex = block.indexOf(SIGNALS_CLOSE_TAG);
+    return parseStructuredSignals(closeIndex >= 0 ? block.slice(0, closeIndex) : block);
+  };
+
+  return { push, finish };
+}
+
+/**
+ * Length of the longest suffix of `text` that is a proper prefix of `tag`
+ */
+export function partialSuffixLength(text: string, tag: string): number {
+  const max = Math.min(text.length, tag.length - 1);
+  for (let len = max; len > 0; len--) {
+    if (tag.startsWith(text.slice(text.length - len))) return len;
+  }
+  return 0;
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function toPriceList(value: unknown): number[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  return value.filter(isPrice);
+}
@@ -0,0 +1,131 @@
+import type { ModelConfig } from "./models";
+import type { AnalystId, TokenUsage } from "./types";
+import { getAnalyst } from "./analystPrompts";
+import { STRUCTURED_OUTPUT_INSTRUCTIONS } from "./structuredSignals";
+
+/**
+ * Token Counting & Cost Estimation
+ *
+ * Providers use different tokenizers, so counts here approximate a BPE
+ * tokenizer (cl100k-style): words split into ~4-character pieces, numbers
+ * into groups of up to 3 digits, punctuation one token each. This is close
+ * enough to budget a run; actual usage is reported by the provider afterwards.
+ */
+
+// Expected length of a full analyst response (the route caps output at 4096)
+export const EXPECTED_OUTPUT_TOKENS = 2000;
+export const MAX_OUTPUT_TOKENS = 4096;
+
+// Per-message overhead (role markers, separators) added by chat formats
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// A chart snapshot (~1200x600) costs roughly this many input tokens on most providers
+export const IMAGE_INPUT_TOKENS = 1600;
+
+const TOKEN_PIECE_REGEX = /[A-Za-z]+|\d+|[^\sA-Za-z\d]/g;
+
+/**
+ * Approximate the number of tokens in a piece of text
+ */
+export function countTokens(text: string): number {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const piece of text.match(TOKEN_PIECE_REGEX) ?? []) {
+    const first = piece.charCodeAt(0);
+    if (first >= 48 && first <= 57) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (piece.length === 1) {
+      tokens += 1;
+    } else {
+      tokens += Math.ceil(piece.length / 4);
+    }
+  }
+  return tokens;
+}
+
+export interface AnalystCostEstimate {
+  analystId: AnalystId;
+  inputTokens: number;
+  outputTokens: number;
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
+
+export interface RunCostEstimate {
+  analysts: AnalystCostEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  totalCost: number;
+}
+
+/**
+ * Calculate the USD cost of a given token usage for a model
+ */
+export function calculateCost(model: ModelConfig, usage: TokenUsage): number {
+  return (
+    (usage.inputTokens / 1_000_000) * model.pricing.input +
+    (usage.outputTokens / 1_000_000) * model.pricing.output
+  );
+}
+
+/**
+ * Estimate input/output tokens and cost for running each selected analyst
+ * on the same initial user message.
+ */
+export function estimateAnalystRun(
+  model: ModelConfig,
+  analystIds: AnalystId[],
+  userMessage: string,
+  structured = false,
+  imageCount = 0,
+): RunCostEstimate {
+  const userTokens = countTokens(userMessage) + imageCount * IMAGE_INPUT_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+  const structuredTokens = structured ? countTokens(STRUCTURED_OUTPUT_INSTRUCTIONS) : 0;
+
+  const analysts = analystIds.map((analystId): AnalystCostEstimate => {
+    const systemTokens =
+      countTokens(getAnalyst(analystId).systemPrompt) + structuredTokens + MESSAGE_OVERHEAD_TOKENS;
+    const inputTokens = systemTokens + userTokens;
+    const outputTokens = EXPECTED_OUTPUT_TOKENS;
+    const inputCost = (inputTokens / 1_000_000) * model.pricing.input;
+    const outputCost = (outputTokens / 1_000_000) * model.pricing.output;
+    return {
+      analystId,
+      inputTokens,
+      outputTokens,
+      inputCost,
+      outputCost,
+      totalCost: inputCost + outputCost,
+    };
+  });
+
+  return {
+    analysts,
+    inputTokens: analysts.reduce((sum, a) => sum + a.inputTokens, 0),
+    outputTokens: analysts.reduce((sum, a) => sum + a.outputTokens, 0),
+    totalCost: analysts.reduce((sum, a) => sum + a.totalCost, 0),
+  };
+}
+
+/**
+ * Sum two usage records (e.g. an analysis plus its follow-ups)
+ */
+export function addUsage(a: TokenUsage | null | undefined, b: TokenUsage | null | undefined): TokenUsage | null {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
+}
+
+/**
+ * Format a USD cost with enough precision for fractions of a cent
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
@@ -32,11 +32,22 @@ export interface StockQuery {
   symbol: string;
   range: Timeframe;
   interval: Interval;
+  bundle?: Interval[];  // Other timeframes summarized for the analysts
+}
+
+/** Candles of one timeframe in a multi-timeframe bundle */
+export interface TimeframeData {
+  interval: Interval;
+  range: Timeframe;
+  data: CandleData[];
+  loading: boolean;
+  error: string | null;
 }
 
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
+  images?: string[];  // PNG/JPEG data URLs, sent to vision-capable models only
 }
 
 // --- Financial Modeling Prep (FMP) API types ---
@@ -254,8 +265,29 @@ export interface AnalystAnalysis {
   streamingText: string | null;
   isLoading: boolean;
   error: string | null;
+  signals?: ExtractedSignals | null;  // Validated structured output, when requested
+  usage?: TokenUsage | null;  // Actual provider-reported usage, summed across turns
+  servedBy?: string | null;  // Name of the fallback model that answered the latest turn, if any
+  interrupted?: boolean;  // Latest turn was cancelled; its partial text is kept in messages
+  finishReason?: FinishReason | null;  // Why the latest turn stopped
+  toolCalls?: ToolCallRecord[];  // Data tools called during the latest turn
+}
+
+/** A data tool an analyst called mid-analysis */
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  ok: boolean;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
+/** Why the model stopped generating, normalized across providers */
+export type FinishReason = "stop" | "length" | "content_filter" | "tool_calls" | "unknown";
+
 export interface ExtractedSignals {
   analystId: AnalystId;
   sentiment: "bullish" | "bearish" | "neutral";
@@ -271,6 +303,19 @@ export interface ExtractedSignals {
   };
 }
 
+/** One multi-analyst run: what was analyzed, with which model, and up to which candle */
+export interface AnalystRun {
+  id: string;
+  symbol: string;
+  model: string;  // Display name
+  startedAt: number;  // Unix seconds
+  cutoff: CandleData["time"] | null;  // Last candle the analysts saw
+  replay: boolean;  // Run on a replay's visible bars rather than the loaded data
+}
+
+// Signals as returned by a provider in structured mode (analyst is known by the caller)
+export type StructuredSignals = Omit<ExtractedSignals, "analystId">;
+
 export interface ConsensusResult {
   overallSentiment: "bullish" | "bearish" | "neutral" | "mixed";
   agreementPercentage: number;
@@ -293,8 +338,210 @@ export interface TickerSearchResult {
   quoteType: string;
 }
 
+// --- Candlestick pattern types ---
+
+export type CandlestickPatternName =
+  | "doji"
+  | "long-legged doji"
+  | "dragonfly doji"
+  | "gravestone doji"
+  | "spinning top"
+  | "hammer"
+  | "hanging man"
+  | "inverted hammer"
+  | "shooting star"
+  | "bullish marubozu"
+  | "bearish marubozu"
+  | "bullish engulfing"
+  | "bearish engulfing"
+  | "bullish harami"
+  | "bearish harami"
+  | "piercing line"
+  | "dark cloud cover"
+  | "tweezer bottom"
+  | "tweezer top"
+  | "morning star"
+  | "evening star"
+  | "three white soldiers"
+  | "three black crows";
+
+/** Trend of the closes leading into a pattern */
+export type TrendContext = "up" | "down" | "none";
+
+export interface CandlestickPattern {
+  time: string | number;  // Last bar of the pattern
+  index: number;  // Index of the last bar in the candle array
+  name: CandlestickPatternName;
+  bars: 1 | 2 | 3;
+  direction: "bullish" | "bearish" | "neutral";
+  trend: TrendContext;
+}
+
+// --- Market structure types (swings, zones, chart patterns) ---
+
+export interface PricePoint {
+  time: string | number;
+  price: number;
+}
+
+export interface SwingPoint extends PricePoint {
+  index: number;
+  type: "high" | "low";
+  confirmed: boolean;  // False for the latest extreme, which may still extend
+}
+
+export interface SupportResistanceZone {
+  low: number;
+  high: number;
+  touches: number;  // Swing points inside the zone
+  kind: "support" | "resistance";  // Relative to the last close
+  lastTouch: string | number;
+}
+
+export type ChartPatternKind =
+  | "double top"
+  | "double bottom"
+  | "head and shoulders"
+  | "inverse head and shoulders"
+  | "ascending triangle"
+  | "descending triangle"
+  | "symmetrical triangle"
+  | "ascending channel"
+  | "descending channel"
+  | "bull flag"
+  | "bear flag";
+
+export interface ChartPattern {
+  kind: ChartPatternKind;
+  direction: "bullish" | "bearish" | "neutral";
+  status: "forming" | "confirmed" | "failed";  // Not yet broken out, broke out, or invalidated
+  start: string | number;
+  end: string | number;
+  lines: { from: PricePoint; to: PricePoint }[];  // Outline, necklines and trendlines
+  breakout: number | null;  // Level whose break confirms the pattern
+  target: number | null;  // Measured-move target after the breakout
+  invalidation: number | null;  // Level that voids the pattern
+}
+
+export interface MarketStructure {
+  swings: SwingPoint[];
+  zones: SupportResistanceZone[];
+  patterns: ChartPattern[];
+}
+
+// --- Backtesting types ---
+
+export type BacktestStrategyType = "sma-cross" | "rsi-reversion" | "macd-cross" | "bollinger-reversion" | "supertrend";
+
+export interface BacktestSettings {
+  strategy: BacktestStrategyType;
+  params: Record<string, number>;
+  initialCapital: number;
+  commissionPct: number;  // Per side, percent of trade value
+  slippagePct: number;  // Per side, percent of price, always against the trade
+}
+
+export interface BacktestTrade {
+  entryTime: string | number;
+  entryPrice: number;  // Fill price after slippage
+  exitTime: string | number;
+  exitPrice: number;
+  shares: number;
+  pnl: number;  // After commissions
+  returnPct: number;
+  bars: number;
+  open: boolean;  // Still held at the last bar (marked at its close)
+}
+
+export interface BacktestMetrics {
+  totalReturnPct: number;
+  buyHoldReturnPct: number;
+  maxDrawdownPct: number;  // Largest peak-to-trough equity decline, as a positive percent
+  winRatePct: number | null;  // Null without trades
+  profitFactor: number | null;  // Gross profit / gross loss; null without losses
+  sharpe: number | null;  // Annualized, from per-bar equity returns
+  trades: number;
+  exposurePct: number;  // Share of bars with a position
+  finalEquity: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equity: IndicatorPoint[];
+  drawdown: IndicatorPoint[];  // Percent below the running peak (≤ 0)
+  metrics: BacktestMetrics;
+}
+
+// --- Replay types ---
+
+export type ReplayDirection = "bullish" | "bearish";
+
+/** A call made during replay, judged against the bars that followed it */
+export interface ReplayCall {
+  id: string;
+  index: number;  // Bar the call was made on (index into the full data)
+  direction: ReplayDirection;
+  kind: "call" | "entry";  // Directional call, or a simulated trade with a stop and target
+  source: "you" | AnalystId;
+}
+
+export interface ReplayOutcome {
+  call: ReplayCall;
+  entryPrice: number;  // Close of the call bar; next bar's open for entries
+  exitIndex: number;
+  exitPrice: number;
+  exitReason: "target" | "stop" | "horizon" | "end";  // "end": the data ran out first
+  returnPct: number;  // In the called direction
+  correct: boolean;
+  stop: number | null;  // Entries only
+  target: number | null;
+  rMultiple: number | null;  // Entries only: result in units of the initial risk
+}
+
 // --- Technical Indicator types ---
 
+/** How much of the loaded history the analysts' initial message lists */
+export interface PromptWindow {
+  candles: number;  // Bars listed in full in the OHLC table
+  compress: boolean;  // Summarize the bars before the table instead of leaving them out
+}
+
+/** Optional context added to the analysts' initial message */
+export interface PromptContext {
+  comparisons?: ComparisonSeries[];
+  drawings?: Drawing[];
+  timeframes?: TimeframeData[];  // Chart timeframe and the bundled ones
+  window?: PromptWindow;
+  tokenBudget?: number;  // Cap for the message; the OHLC table shrinks to fit
+}
+
+export type ComparisonMode = "percent" | "ratio";
+
+/** A symbol drawn against the main one, loaded with the same range and interval */
+export interface ComparisonSeries {
+  symbol: string;
+  color: string;
+  data: CandleData[];
+  loading: boolean;
+  error: string | null;
+}
+
+export type DrawingTool = "trendline" | "ray" | "horizontal" | "fibonacci" | "rectangle" | "text";
+
+/** A point on the chart. Unix seconds rather than a bar, so drawings survive range and interval changes */
+export interface DrawingAnchor {
+  time: number;
+  price: number;
+}
+
+export interface Drawing {
+  id: string;
+  tool: DrawingTool;
+  anchors: DrawingAnchor[];  // One for horizontal levels and notes, two otherwise
+  color: string;
+  text?: string;  // Note text
+}
+
 export interface IndicatorPoint {
   time: string | number;
   value: number;
@@ -312,15 +559,75 @@ export interface MACDResult {
   histogram: IndicatorPoint[];
 }
 
-export interface IndicatorConfig {
-  sma20: boolean;
-  sma50: boolean;
-  sma200: boolean;
-  ema12: boolean;
-  ema26: boolean;
-  bollingerBands: boolean;
-  rsi: boolean;
-  macd: boolean;
+/** Upper/middle/lower price channel (Keltner, Donchian) */
+export type ChannelResult = BollingerBandsResult;
+
+export interface DMIResult {
+  adx: IndicatorPoint[];
+  plusDI: IndicatorPoint[];
+  minusDI: IndicatorPoint[];
 }
 
-export type IndicatorPreset = "trend" | "momentum" | "volatility" | "all" | "none";
+export interface StochasticResult {
+  k: IndicatorPoint[];
+  d: IndicatorPoint[];
+}
+
+/** Leading spans extend past the last bar into the future */
+export interface IchimokuResult {
+  conversion: IndicatorPoint[];
+  base: IndicatorPoint[];
+  spanA: IndicatorPoint[];
+  spanB: IndicatorPoint[];
+  lagging: IndicatorPoint[];
+}
+
+export interface VolumeProfileBin {
+  low: number;
+  high: number;
+  volume: number;
+  upVolume: number;  // Share traded on up (close >= open) bars
+}
+
+export interface VolumeProfileResult {
+  bins: VolumeProfileBin[];  // Ascending by price
+  poc: number;  // Point of control: midpoint of the busiest bin
+  valueAreaLow: number;
+  valueAreaHigh: number;
+}
+
+export type IndicatorType =
+  | "sma"
+  | "ema"
+  | "bollinger"
+  | "rsi"
+  | "macd"
+  | "volume"
+  | "obv"
+  | "vwap"
+  | "avwap"
+  | "vprofile"
+  | "mfi"
+  | "atr"
+  | "adx"
+  | "keltner"
+  | "donchian"
+  | "psar"
+  | "supertrend"
+  | "stochastic"
+  | "stochrsi"
+  | "williams"
+  | "cci"
+  | "roc"
+  | "ichimoku";
+
+/** One indicator on the chart; a type may be added several times with different parameters */
+export interface IndicatorInstance {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>;
+  color: string;  // Hex; secondary lines (bands, signal) derive from it or use fixed colours
+  pane: number;  // 0 = price pane; sub-pane indicators with the same number share a pane
+}
+
+export type IndicatorPreset = "trend" | "momentum" | "volatility" | "volume" | "ichimoku" | "all" | "none";
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import dynamic from "next/dynamic";
 import ThemeToggle from "./components/ThemeToggle";
 import ModelSettings from "./components/ModelSettings";
@@ -9,14 +9,24 @@ import PdfUpload from "./components/widgets/PdfUpload";
 import MarketClock from "./components/widgets/MarketClock";
 import MultiAnalystPanel from "./components/MultiAnalystPanel";
 import FundamentalsPanel from "./components/FundamentalsPanel";
+import BacktestPanel from "./components/BacktestPanel";
+import PaperTradingPanel from "./components/PaperTradingPanel";
 import { useStockData } from "./hooks/useStockData";
+import { useComparisonData } from "./hooks/useComparisonData";
+import { useTimeframeBundle } from "./hooks/useTimeframeBundle";
+import { loadComparisonSymbols, saveComparisonSymbols } from "./lib/comparison";
 import { useFundamentals } from "./hooks/useFundamentals";
 import { useAnalysis } from "./hooks/useAnalysis";
 import type { ModelConfig } from "./lib/models";
+import { hasCredentials } from "./lib/keyVault";
 import type {
+  AnalystRun,
+  CandleData,
+  ExtractedSignals,
   FundamentalsTimeSeriesModule,
   FundamentalsTimeSeriesType,
   StockQuery,
+  TimeframeData,
 } from "./lib/types";
 import DebugData from "./components/widgets/DebugData";
 import Collapseable from "./components/ui/Collapseable";
@@ -48,6 +58,7 @@ export default function Home() {
   const apiKeyRef = useRef("");
   const systemPromptRef = useRef("");
   const fmpApiKeyRef = useRef("");
+  const chartSnapshotRef = useRef<(() => string | null) | null>(null);
 
   // TanStack Query hooks
   const stockQuery = useStockData(activeQuery);
@@ -63,6 +74,32 @@ export default function Home() {
 
   const candles = stockQuery.data ?? [];
 
+  // Symbols compared against the main one on the chart and in the prompt
+  const [comparisonSymbols, setComparisonSymbols] = useState<string[]>(loadComparisonSymbols);
+  useEffect(() => {
+    saveComparisonSymbols(comparisonSymbols);
+  }, [comparisonSymbols]);
+  const comparisons = useComparisonData(comparisonSymbols, activeQuery);
+
+  // Multi-timeframe bundle: the chart's timeframe plus the extra ones picked in SymbolInput
+  const bundleFrames = useTimeframeBundle(activeQuery);
+  const timeframes = useMemo<TimeframeData[]>(() => {
+    if (!activeQuery || bundleFrames.length === 0) return [];
+    const chartFrame = { interval: activeQuery.interval, range: activeQuery.range, data: candles, loading: false, error: null };
+    return [chartFrame, ...bundleFrames];
+  }, [activeQuery, bundleFrames, candles]);
+
+  // Signals of the latest completed analyses, plotted on the chart, and the run they came from
+  const [analystSignals, setAnalystSignals] = useState<ExtractedSignals[]>([]);
+  const [analystRun, setAnalystRun] = useState<AnalystRun | null>(null);
+  const handleSignalsChange = useCallback((signals: ExtractedSignals[], run: AnalystRun | null) => {
+    setAnalystSignals(signals);
+    setAnalystRun(run);
+  }, []);
+
+  // Candles up to the cut-off while the chart is in replay; analysts see only these
+  const [replayCandles, setReplayCandles] = useState<CandleData[] | null>(null);
+
   useEffect(() => {
     setIsDark(document.documentElement.classList.contains("dark"));
     const observer = new MutationObserver(() => {
@@ -75,6 +112,12 @@ export default function Home() {
     return () => observer.disconnect();
   }, []);
 
+  // PNG of the chart as displayed, for vision-capable analysts
+  const takeChartSnapshot = useCallback(
+    () => chartSnapshotRef.current?.() ?? null,
+    [],
+  );
+
   const handleSettingsChange = useCallback(
     (
       model: ModelConfig,
@@ -109,7 +152,7 @@ export default function Home() {
       const model = modelRef.current;
       const apiKey = apiKeyRef.current;
 
-      if (!model || !apiKey) {
+      if (!model || !hasCredentials(model, apiKey)) {
         return;
       }
 
@@ -181,7 +224,28 @@ export default function Home() {
                 {stockQuery.error.message}
               </Message>
             )}
-            <Chart data={candles} symbol={symbol} dark={isDark} />
+            <Chart
+              data={candles}
+              symbol={activeQuery?.symbol ?? symbol}
+              dark={isDark}
+              snapshotRef={chartSnapshotRef}
+              comparisons={comparisons}
+              onComparisonsChange={setComparisonSymbols}
+              analystSignals={analystSignals}
+              analystCutoff={analystRun?.cutoff ?? null}
+              onReplayChange={setReplayCandles}
+            />
+            <Collapseable title="Backtester">
+              <BacktestPanel data={candles} symbol={activeQuery?.symbol ?? symbol} dark={isDark} />
+            </Collapseable>
+            <Collapseable title="Paper Trading">
+              <PaperTradingPanel
+                symbol={activeQuery?.symbol ?? symbol}
+                lastBarTime={candles.at(-1)?.time ?? null}
+                analystRun={analystRun}
+                analystSignals={analystSignals}
+              />
+            </Collapseable>
             <Collapseable title="Data Explorer">
               <DebugData
                 symbol={symbol}
@@ -220,11 +284,16 @@ export default function Home() {
                 />
               </div>
               <MultiAnalystPanel
-                symbol={symbol}
-                candles={candles}
+                symbol={activeQuery?.symbol ?? symbol}
+                candles={replayCandles ?? candles}
                 fundamentals={fundQuery.data ?? null}
                 model={modelRef.current}
                 apiKey={apiKeyRef.current}
+                takeChartSnapshot={takeChartSnapshot}
+                comparisons={comparisons}
+                timeframes={timeframes}
+                onSignalsChange={handleSignalsChange}
+                replay={replayCandles !== null}
               />
             </div>
           </div>
@@ -232,11 +301,16 @@ export default function Home() {
           {/* Right panel — Multi-Analyst Analysis (xl+ only) */}
           <div className="border-l border-white/[0.08] bg-[var(--color-bg-surface)] hidden xl:flex xl:flex-col overflow-hidden">
             <MultiAnalystPanel
-              symbol={symbol}
-              candles={candles}
+              symbol={activeQuery?.symbol ?? symbol}
+              candles={replayCandles ?? candles}
               fundamentals={fundQuery.data ?? null}
               model={modelRef.current}
               apiKey={apiKeyRef.current}
+              takeChartSnapshot={takeChartSnapshot}
+              comparisons={comparisons}
+              timeframes={timeframes}
+              onSignalsChange={handleSignalsChange}
+              replay={replayCandles !== null}
             />
           </div>
         </div>
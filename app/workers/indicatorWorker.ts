@@ -0,0 +1,43 @@
+import type { CandleData, IndicatorInstance } from "../lib/types";
+import { createIndicatorEngine, createResultDiffer, type IndicatorResultPatch } from "../lib/indicatorEngine";
+
+/**
+ * Indicator Worker
+ *
+ * Runs the indicator engine off the main thread and keeps the candle series
+ * itself. A live update sends only the bars from the first new or revised one
+ * on; the engine's cache extends the previous results instead of recomputing
+ * them, and only the changed tail of each result is posted back.
+ */
+
+export type IndicatorWorkerRequest =
+  | { id: number; kind: "reset"; data: CandleData[]; indicators: IndicatorInstance[] }
+  | { id: number; kind: "update"; from: number; bars: CandleData[]; indicators: IndicatorInstance[] };
+
+export interface IndicatorWorkerResponse {
+  id: number;
+  patches?: IndicatorResultPatch[];
+  error?: string;
+}
+
+const engine = createIndicatorEngine();
+const diff = createResultDiffer();
+let series: CandleData[] = [];
+
+self.addEventListener("message", (event: MessageEvent<IndicatorWorkerRequest>) => {
+  const request = event.data;
+  let response: IndicatorWorkerResponse;
+  try {
+    if (request.kind === "reset") {
+      series = request.data;
+    } else {
+      if (request.from > series.length) throw new Error("Indicator update does not follow the series");
+      series.length = request.from;
+      for (const bar of request.bars) series.push(bar);
+    }
+    response = { id: request.id, patches: diff(engine.computeAll(series, request.indicators)) };
+  } catch (err: unknown) {
+    response = { id: request.id, error: err instanceof Error ? err.message : "Indicator computation failed" };
+  }
+  self.postMessage(response);
+});
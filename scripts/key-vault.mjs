@@ -0,0 +1,48 @@
+/* global process, console, Buffer */
+// Encrypt a JSON file of API keys into the server key store read by
+// app/api/utils/keyVault.ts.
+//
+// Usage: KEY_VAULT_SECRET=... npm run key-vault -- keys.json
+//
+// keys.json maps environment variable names to values, e.g.
+//   { "OPENAI_API_KEY": "sk-...", "FMP_API_KEY": "..." }
+// Output goes to KEY_VAULT_FILE (default .key-vault.enc).
+
+import { createCipheriv, randomBytes, scryptSync } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+const input = process.argv[2];
+const secret = process.env.KEY_VAULT_SECRET;
+
+if (!input || !secret) {
+  console.error("Usage: KEY_VAULT_SECRET=... npm run key-vault -- <keys.json>");
+  process.exit(1);
+}
+
+const keys = JSON.parse(readFileSync(input, "utf8"));
+for (const [name, value] of Object.entries(keys)) {
+  if (typeof value !== "string") {
+    console.error(`${name} must be a string`);
+    process.exit(1);
+  }
+}
+
+const salt = randomBytes(16);
+const iv = randomBytes(12);
+const cipher = createCipheriv("aes-256-gcm", scryptSync(secret, salt, 32), iv);
+const data = Buffer.concat([cipher.update(JSON.stringify(keys), "utf8"), cipher.final()]);
+
+const output = path.resolve(process.cwd(), process.env.KEY_VAULT_FILE || ".key-vault.enc");
+writeFileSync(
+  output,
+  JSON.stringify({
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  }),
+  { mode: 0o600 },
+);
+console.log(`Wrote ${Object.keys(keys).length} key(s) to ${output}`);